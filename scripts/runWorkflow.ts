@@ -0,0 +1,256 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { buildBenchmarkReport, formatBenchmarkCsv } from "../src/lib/benchmark";
+import { isRpcNetwork, type RpcNetwork } from "../src/lib/heliusRpc";
+import {
+  DEFAULT_EXECUTION_CONCURRENCY,
+  describeRunResult,
+  MAX_EXECUTION_CONCURRENCY,
+  runWorkflow,
+  type ExecutionNodeStatus,
+  type NodeCallTiming,
+} from "../src/lib/workflowExecutor";
+import { formatZodError, parseWorkflowImport, type WorkflowExport } from "../src/lib/workflowSchema";
+
+type OutputFormat = "json" | "table";
+
+interface NodeReport {
+  id: string;
+  name: string;
+  method: string;
+  status: ExecutionNodeStatus;
+  calls: number;
+  attempts?: number;
+  output?: unknown;
+  error?: string;
+}
+
+const USAGE = `Usage: bun scripts/runWorkflow.ts <workflow.json> [options]
+
+Options:
+  --network <mainnet|devnet|testnet>  RPC network (default: mainnet)
+  --format <json|table>               Report format (default: table)
+  --concurrency <n>                   Independent nodes run at the same time (1-${MAX_EXECUTION_CONCURRENCY}, default: ${DEFAULT_EXECUTION_CONCURRENCY})
+  --deadline <seconds>                Stop the whole run once this many seconds have passed (default: none)
+  --var <name=value>                  Set a workflow variable for this run; repeat for several variables
+  --gatekeeper                        Send JSON-RPC calls through the Gatekeeper endpoint
+  --benchmark <file.json|file.csv>    Write latency and error stats of benchmark repeat nodes to a file
+  --no-batch                          Send one request per JSON-RPC node instead of batching
+  --help                              Show this message
+
+The Helius API key is read from HELIUS_API_KEY.`;
+
+const TABLE_VALUE_WIDTH = 72;
+
+function fail(message: string): never {
+  console.error(`[run:workflow] ${message}`);
+  process.exit(2);
+}
+
+async function loadWorkflow(filePath: string): Promise<WorkflowExport> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(filePath, "utf-8")) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    fail(`Could not read ${filePath}: ${message}`);
+  }
+
+  const parsed = parseWorkflowImport(json);
+  if (!parsed.success) {
+    fail(`Invalid workflow file: ${formatZodError(parsed.error).join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+function truncate(value: string, width: number): string {
+  const singleLine = value.replace(/\s+/g, " ");
+  return singleLine.length > width ? `${singleLine.slice(0, width - 1)}…` : singleLine;
+}
+
+function formatTable(reports: NodeReport[]): string {
+  const rows = reports.map((report) => [
+    report.name,
+    report.method,
+    report.status,
+    String(report.calls),
+    truncate(report.error ?? (report.output === undefined ? "" : JSON.stringify(report.output)), TABLE_VALUE_WIDTH),
+  ]);
+  const header = ["NODE", "METHOD", "STATUS", "CALLS", "RESULT"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)),
+  );
+
+  return [header, ...rows]
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join("  ").trimEnd())
+    .join("\n");
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: "string", default: "mainnet" },
+      format: { type: "string", default: "table" },
+      concurrency: { type: "string", default: String(DEFAULT_EXECUTION_CONCURRENCY) },
+      deadline: { type: "string", default: "0" },
+      var: { type: "string", multiple: true, default: [] },
+      benchmark: { type: "string" },
+      gatekeeper: { type: "boolean", default: false },
+      "no-batch": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const filePath = positionals[0];
+  if (!filePath) {
+    fail(`Missing workflow file.\n\n${USAGE}`);
+  }
+
+  if (!isRpcNetwork(values.network)) {
+    fail(`Unknown network: ${values.network}`);
+  }
+  const network: RpcNetwork = values.network;
+
+  if (values.format !== "json" && values.format !== "table") {
+    fail(`Unknown format: ${values.format}`);
+  }
+  const format: OutputFormat = values.format;
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_EXECUTION_CONCURRENCY) {
+    fail(`--concurrency must be an integer between 1 and ${MAX_EXECUTION_CONCURRENCY}`);
+  }
+
+  const deadlineSeconds = Number(values.deadline);
+  if (!Number.isFinite(deadlineSeconds) || deadlineSeconds < 0) {
+    fail("--deadline must be a non-negative number of seconds");
+  }
+
+  const variables: Record<string, string> = {};
+  for (const assignment of values.var) {
+    const separatorIndex = assignment.indexOf("=");
+    if (separatorIndex <= 0) {
+      fail(`--var must look like name=value, received: ${assignment}`);
+    }
+    variables[assignment.slice(0, separatorIndex)] = assignment.slice(separatorIndex + 1);
+  }
+
+  const apiKey = process.env.HELIUS_API_KEY ?? "";
+  if (!apiKey.trim()) {
+    console.error("[run:workflow] HELIUS_API_KEY is not set; requests will be sent without an API key.");
+  }
+
+  const workflow = await loadWorkflow(filePath);
+  const reports = new Map<string, NodeReport>(
+    workflow.nodes.map((node) => [
+      node.id,
+      { id: node.id, name: node.name, method: node.method, status: "idle", calls: 0 },
+    ]),
+  );
+
+  const callTimings: NodeCallTiming[] = [];
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  const result = await runWorkflow(
+    workflow,
+    { network, apiKey, gatekeeperEnabled: values.gatekeeper },
+    {
+      concurrency,
+      batchJsonRpc: !values["no-batch"],
+      deadlineMs: deadlineSeconds * 1000,
+      variables,
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === "run-planned") {
+          return;
+        }
+
+        const report = reports.get(event.nodeId);
+        if (!report) {
+          return;
+        }
+
+        if (event.type === "node-timing") {
+          callTimings.push(event);
+        } else if (event.type === "node-call") {
+          report.calls += 1;
+        } else if (event.type === "node-status") {
+          report.status = event.status;
+          report.error = event.error;
+        } else if (event.type === "node-retry") {
+          report.attempts = event.attempt;
+          console.error(
+            `[run:workflow] ${report.name}: ${event.reason}, retrying in ${event.delayMs}ms (attempt ${event.attempt}/${event.maxAttempts})`,
+          );
+        } else if (event.type === "node-output") {
+          report.output = event.output;
+        }
+      },
+    },
+  );
+
+  const orderedReports = workflow.order
+    .map((nodeId) => reports.get(nodeId))
+    .filter((report): report is NodeReport => Boolean(report));
+
+  if (format === "json") {
+    console.log(
+      JSON.stringify(
+        {
+          network,
+          success: result.success,
+          canceled: result.canceled ?? false,
+          timedOut: result.timedOut ?? false,
+          failedNodeId: result.failedNodeId,
+          errorMessage: result.errorMessage,
+          handledErrorCount: result.handledErrorCount,
+          nodes: orderedReports,
+        },
+        null,
+        2,
+      ),
+    );
+  } else {
+    console.log(formatTable(orderedReports));
+    if (!result.success) {
+      console.log(`\n${result.canceled ? describeRunResult(result) : `Failed: ${result.errorMessage ?? "unknown error"}`}`);
+    } else if (result.handledErrorCount > 0) {
+      console.log(`\nCompleted with ${result.handledErrorCount} handled error(s).`);
+    }
+  }
+
+  if (values.benchmark) {
+    const benchmarkReport = buildBenchmarkReport(
+      values.gatekeeper ? `${network} + Gatekeeper` : network,
+      workflow.nodes.filter((node) => node.repeat?.enabled && node.repeat.benchmark),
+      callTimings,
+    );
+    try {
+      await writeFile(
+        values.benchmark,
+        values.benchmark.endsWith(".csv")
+          ? `${formatBenchmarkCsv(benchmarkReport)}\n`
+          : `${JSON.stringify(benchmarkReport, null, 2)}\n`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      fail(`Could not write ${values.benchmark}: ${message}`);
+    }
+    console.error(`[run:workflow] Benchmark of ${benchmarkReport.nodes.length} node(s) written to ${values.benchmark}`);
+  }
+
+  if (!result.success) {
+    process.exitCode = 1;
+  }
+}
+
+void main();
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+
+import { getNextScheduledRunAt } from "@/lib/cron";
+import { checkBearerSecret } from "@/lib/routeAuth";
+import { readSchedules, summarizeSchedule, updateSchedules, type StoredSchedule } from "@/lib/scheduleStore";
+
+interface UpdateScheduleRequestBody {
+  enabled?: unknown;
+}
+
+interface ScheduleRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const runtime = "nodejs";
+
+function scheduleNotFound(id: string) {
+  return NextResponse.json({ error: `Schedule ${id} was not found.` }, { status: 404 });
+}
+
+/** The schedule with its workflow and recent runs. Requires the CRON_SECRET bearer token. */
+export async function GET(request: Request, { params }: ScheduleRouteContext) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const schedule = (await readSchedules()).find((candidate) => candidate.id === id);
+  if (!schedule) {
+    return scheduleNotFound(id);
+  }
+  return NextResponse.json({ schedule: { ...summarizeSchedule(schedule), workflow: schedule.workflow, runs: schedule.runs } });
+}
+
+/** Turns a schedule on or off. Enabling it counts the next run from now. Requires the CRON_SECRET bearer token. */
+export async function PATCH(request: Request, { params }: ScheduleRouteContext) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  let body: UpdateScheduleRequestBody;
+  try {
+    body = (await request.json()) as UpdateScheduleRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const { enabled } = body;
+  if (typeof enabled !== "boolean") {
+    return NextResponse.json({ error: "enabled must be a boolean." }, { status: 400 });
+  }
+
+  const now = new Date();
+  const updated = await updateSchedules((schedules) => {
+    let match: StoredSchedule | undefined;
+    const next = schedules.map((candidate) => {
+      if (candidate.id !== id) {
+        return candidate;
+      }
+      const schedule = { ...candidate.workflow.schedule, enabled };
+      match = {
+        ...candidate,
+        workflow: { ...candidate.workflow, schedule },
+        updatedAt: now.toISOString(),
+        nextRunAt: getNextScheduledRunAt(schedule, now)?.toISOString(),
+      };
+      return match;
+    });
+    return { schedules: next, result: match };
+  });
+
+  if (!updated) {
+    return scheduleNotFound(id);
+  }
+  return NextResponse.json({ schedule: summarizeSchedule(updated) });
+}
+
+/** Requires the CRON_SECRET bearer token. */
+export async function DELETE(request: Request, { params }: ScheduleRouteContext) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const removed = await updateSchedules((schedules) => ({
+    schedules: schedules.filter((candidate) => candidate.id !== id),
+    result: schedules.some((candidate) => candidate.id === id),
+  }));
+
+  if (!removed) {
+    return scheduleNotFound(id);
+  }
+  return NextResponse.json({ deleted: id });
+}
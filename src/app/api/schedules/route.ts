@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+
+import { getNextScheduledRunAt } from "@/lib/cron";
+import { checkBearerSecret } from "@/lib/routeAuth";
+import { readSchedules, summarizeSchedule, updateSchedules, type StoredSchedule } from "@/lib/scheduleStore";
+import { formatZodError, parseWorkflowImport } from "@/lib/workflowSchema";
+
+interface CreateScheduleRequestBody {
+  workflowExport?: unknown;
+}
+
+export const runtime = "nodejs";
+
+/** Requires the CRON_SECRET bearer token. */
+export async function GET(request: Request) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const schedules = await readSchedules();
+  return NextResponse.json({ schedules: schedules.map(summarizeSchedule) });
+}
+
+/**
+ * Saves a workflow with a `schedule` block. A schedule with the same name is replaced and keeps its runs.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: Request) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  let body: CreateScheduleRequestBody;
+  try {
+    body = (await request.json()) as CreateScheduleRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseWorkflowImport(body.workflowExport);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid workflowExport.", issues: formatZodError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const { schedule } = parsed.data;
+  if (!schedule) {
+    return NextResponse.json({ error: "workflowExport has no schedule." }, { status: 400 });
+  }
+
+  const now = new Date();
+  const workflow = {
+    ...parsed.data,
+    schedule,
+    nodes: parsed.data.nodes.map((node) => ({ ...node, output: undefined })),
+  };
+  const saved = await updateSchedules((schedules) => {
+    const existing = schedules.find((candidate) => candidate.workflow.schedule.name === schedule.name);
+    const stored: StoredSchedule = {
+      id: existing?.id ?? crypto.randomUUID(),
+      workflow,
+      createdAt: existing?.createdAt ?? now.toISOString(),
+      updatedAt: now.toISOString(),
+      nextRunAt: getNextScheduledRunAt(schedule, now)?.toISOString(),
+      runs: existing?.runs ?? [],
+    };
+    return {
+      schedules: existing
+        ? schedules.map((candidate) => (candidate.id === existing.id ? stored : candidate))
+        : [...schedules, stored],
+      result: { stored, created: !existing },
+    };
+  });
+
+  return NextResponse.json({ schedule: summarizeSchedule(saved.stored) }, { status: saved.created ? 201 : 200 });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { runDueSchedules } from "@/lib/scheduleRunner";
+import { checkBearerSecret } from "@/lib/routeAuth";
+
+export const runtime = "nodejs";
+
+/**
+ * Runs the schedules that are due, for hosts where the in-process ticker does not stay alive (e.g. serverless).
+ * Call it every minute from an external cron with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function tick(request: Request) {
+  const unauthorized = checkBearerSecret(request, "CRON_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const started = await runDueSchedules({ apiKey: process.env.HELIUS_API_KEY ?? "" });
+  return NextResponse.json({ started });
+}
+
+export { tick as GET, tick as POST };
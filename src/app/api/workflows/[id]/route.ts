@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+
+import { checkBearerSecret } from "@/lib/routeAuth";
+import {
+  addWorkflowVersion,
+  getWorkflowVersion,
+  readStoredWorkflows,
+  summarizeStoredWorkflow,
+  toStoredWorkflowExport,
+  updateStoredWorkflows,
+  type StoredWorkflow,
+} from "@/lib/storedWorkflows";
+import { formatZodError, parseWorkflowImport, type WorkflowExport } from "@/lib/workflowSchema";
+
+interface UpdateWorkflowRequestBody {
+  name?: unknown;
+  description?: unknown;
+  workflowExport?: unknown;
+}
+
+interface StoredWorkflowRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const runtime = "nodejs";
+
+function workflowNotFound(id: string) {
+  return NextResponse.json({ error: `Workflow ${id} was not found.` }, { status: 404 });
+}
+
+/**
+ * The stored workflow with its version list and recent triggered runs. `workflowExport` is the latest version, or
+ * the one picked with `?version=`. Requires the WORKFLOW_LIBRARY_SECRET bearer token; share links use
+ * `/api/workflows/shared/<token>` instead.
+ */
+export async function GET(request: Request, { params }: StoredWorkflowRouteContext) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const stored = (await readStoredWorkflows()).find((candidate) => candidate.id === id);
+  if (!stored) {
+    return workflowNotFound(id);
+  }
+
+  const requestedVersion = new URL(request.url).searchParams.get("version");
+  const version = requestedVersion ? Number(requestedVersion) : stored.version;
+  const workflowExport = getWorkflowVersion(stored, version);
+  if (!workflowExport) {
+    return NextResponse.json({ error: `Workflow ${stored.name} has no version ${requestedVersion}.` }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    workflow: {
+      ...summarizeStoredWorkflow(stored),
+      workflowExport,
+      exportVersion: version,
+      versions: [
+        { version: stored.version, savedAt: stored.savedAt, nodeCount: stored.workflow.nodes.length },
+        ...stored.history.map((entry) => ({
+          version: entry.version,
+          savedAt: entry.savedAt,
+          nodeCount: entry.workflow.nodes.length,
+        })),
+      ],
+      runs: stored.runs,
+    },
+  });
+}
+
+/**
+ * Renames the workflow, changes its description, and/or saves a new version. The id, and so the share link and
+ * trigger URL, stays the same. Requires the WORKFLOW_LIBRARY_SECRET bearer token.
+ */
+export async function PUT(request: Request, { params }: StoredWorkflowRouteContext) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  let body: UpdateWorkflowRequestBody;
+  try {
+    body = (await request.json()) as UpdateWorkflowRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : undefined;
+  if (name === "") {
+    return NextResponse.json({ error: "name must not be empty." }, { status: 400 });
+  }
+  if (body.description !== undefined && typeof body.description !== "string") {
+    return NextResponse.json({ error: "description must be a string." }, { status: 400 });
+  }
+
+  let workflow: WorkflowExport | undefined;
+  if (body.workflowExport !== undefined) {
+    const parsed = parseWorkflowImport(body.workflowExport);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid workflowExport.", issues: formatZodError(parsed.error) },
+        { status: 400 },
+      );
+    }
+    workflow = toStoredWorkflowExport(parsed.data);
+  }
+
+  const now = new Date().toISOString();
+  const updated = await updateStoredWorkflows<{ match?: StoredWorkflow; conflict?: boolean }>((workflows) => {
+    if (name && workflows.some((candidate) => candidate.id !== id && candidate.name === name)) {
+      return { workflows, result: { conflict: true } };
+    }
+
+    let match: StoredWorkflow | undefined;
+    const next = workflows.map((candidate) => {
+      if (candidate.id !== id) {
+        return candidate;
+      }
+      match = {
+        ...(workflow ? addWorkflowVersion(candidate, workflow, now) : candidate),
+        name: name ?? candidate.name,
+        description:
+          typeof body.description === "string" ? body.description.trim() || undefined : candidate.description,
+        updatedAt: now,
+      };
+      return match;
+    });
+    return { workflows: next, result: { match } };
+  });
+
+  if (updated.conflict) {
+    return NextResponse.json({ error: `A workflow named ${name} already exists.` }, { status: 409 });
+  }
+  if (!updated.match) {
+    return workflowNotFound(id);
+  }
+  return NextResponse.json({ workflow: summarizeStoredWorkflow(updated.match) });
+}
+
+/** Requires the WORKFLOW_LIBRARY_SECRET bearer token. */
+export async function DELETE(request: Request, { params }: StoredWorkflowRouteContext) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const removed = await updateStoredWorkflows((workflows) => ({
+    workflows: workflows.filter((candidate) => candidate.id !== id),
+    result: workflows.some((candidate) => candidate.id === id),
+  }));
+
+  if (!removed) {
+    return workflowNotFound(id);
+  }
+  return NextResponse.json({ deleted: id });
+}
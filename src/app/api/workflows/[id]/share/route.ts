@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { checkBearerSecret } from "@/lib/routeAuth";
+import { createShareToken, updateStoredWorkflows } from "@/lib/storedWorkflows";
+
+interface ShareRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const runtime = "nodejs";
+
+/**
+ * The workflow's share token, created on first use; `/?share=<token>` opens the workflow for anyone with the link.
+ * Requires the WORKFLOW_LIBRARY_SECRET bearer token.
+ */
+export async function POST(request: Request, { params }: ShareRouteContext) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const shareToken = await updateStoredWorkflows<string | undefined>((workflows) => {
+    const stored = workflows.find((candidate) => candidate.id === id);
+    if (!stored || stored.shareToken) {
+      return { workflows, result: stored?.shareToken };
+    }
+    const token = createShareToken();
+    return {
+      workflows: workflows.map((candidate) => (candidate.id === id ? { ...candidate, shareToken: token } : candidate)),
+      result: token,
+    };
+  });
+
+  if (!shareToken) {
+    return NextResponse.json({ error: `Workflow ${id} was not found.` }, { status: 404 });
+  }
+  return NextResponse.json({ shareToken });
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+
+import { isRpcNetwork } from "@/lib/heliusRpc";
+import { runServerWorkflow } from "@/lib/serverRun";
+import {
+  MAX_TRIGGERED_RUNS_KEPT,
+  hasTriggerNode,
+  readStoredWorkflows,
+  updateStoredWorkflows,
+} from "@/lib/storedWorkflows";
+import { isTriggerRequestAuthorized } from "@/lib/webhookAuth";
+
+interface TriggerRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Triggered runs answer within one request, so they get a much shorter deadline than scheduled runs. */
+const TRIGGERED_RUN_DEADLINE_MS = 60_000;
+
+export const runtime = "nodejs";
+
+/**
+ * Runs a stored workflow with the JSON request body as its Trigger node's output. Authenticated with
+ * WORKFLOW_TRIGGER_SECRET; `?network=` and `?gatekeeper=true` pick where the run's RPC calls go.
+ */
+export async function POST(request: Request, { params }: TriggerRouteContext) {
+  const { id } = await params;
+  const secret = process.env.WORKFLOW_TRIGGER_SECRET ?? "";
+  if (!secret) {
+    return NextResponse.json({ error: "Missing WORKFLOW_TRIGGER_SECRET on the server." }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+  if (!isTriggerRequestAuthorized(request.headers, rawBody, secret)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody) as unknown;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const network = searchParams.get("network") ?? "mainnet";
+  if (!isRpcNetwork(network)) {
+    return NextResponse.json({ error: "network must be one of mainnet, devnet or testnet." }, { status: 400 });
+  }
+
+  const stored = (await readStoredWorkflows()).find((candidate) => candidate.id === id);
+  if (!stored) {
+    return NextResponse.json({ error: `Workflow ${id} was not found.` }, { status: 404 });
+  }
+  if (!hasTriggerNode(stored.workflow)) {
+    return NextResponse.json({ error: `Workflow ${stored.name} has no Trigger node.` }, { status: 400 });
+  }
+
+  const run = await runServerWorkflow(
+    stored.workflow,
+    { apiKey: process.env.HELIUS_API_KEY ?? "" },
+    {
+      network,
+      gatekeeperEnabled: searchParams.get("gatekeeper") === "true",
+      deadlineMs: TRIGGERED_RUN_DEADLINE_MS,
+      trigger: { body, receivedAt: new Date().toISOString() },
+    },
+  );
+  await updateStoredWorkflows((workflows) => ({
+    workflows: workflows.map((candidate) =>
+      candidate.id === id
+        ? { ...candidate, runs: [run, ...candidate.runs].slice(0, MAX_TRIGGERED_RUNS_KEPT) }
+        : candidate,
+    ),
+    result: undefined,
+  }));
+
+  return NextResponse.json({ run });
+}
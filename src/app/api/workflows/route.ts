@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+
+import { checkBearerSecret } from "@/lib/routeAuth";
+import {
+  addWorkflowVersion,
+  matchesWorkflowQuery,
+  readStoredWorkflows,
+  summarizeStoredWorkflow,
+  toStoredWorkflowExport,
+  updateStoredWorkflows,
+  type StoredWorkflow,
+} from "@/lib/storedWorkflows";
+import { formatZodError, parseWorkflowImport } from "@/lib/workflowSchema";
+
+interface SaveWorkflowRequestBody {
+  name?: unknown;
+  description?: unknown;
+  workflowExport?: unknown;
+}
+
+export const runtime = "nodejs";
+
+/**
+ * Stored workflows, most recently updated first. `?q=` filters by name, description and node names or methods.
+ * Requires the WORKFLOW_LIBRARY_SECRET bearer token.
+ */
+export async function GET(request: Request) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  const workflows = (await readStoredWorkflows())
+    .filter((stored) => !query || matchesWorkflowQuery(stored, query))
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+  return NextResponse.json({ workflows: workflows.map(summarizeStoredWorkflow) });
+}
+
+/**
+ * Saves a named workflow. Saving under an existing name adds a new version of it. Requires
+ * `Authorization: Bearer $WORKFLOW_LIBRARY_SECRET`, like every library write.
+ */
+export async function POST(request: Request) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_LIBRARY_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  let body: SaveWorkflowRequestBody;
+  try {
+    body = (await request.json()) as SaveWorkflowRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json({ error: "name is required." }, { status: 400 });
+  }
+  if (body.description !== undefined && typeof body.description !== "string") {
+    return NextResponse.json({ error: "description must be a string." }, { status: 400 });
+  }
+  const description = body.description?.trim() || undefined;
+
+  const parsed = parseWorkflowImport(body.workflowExport);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid workflowExport.", issues: formatZodError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const now = new Date().toISOString();
+  const workflow = toStoredWorkflowExport(parsed.data);
+  const saved = await updateStoredWorkflows((workflows) => {
+    const existing = workflows.find((candidate) => candidate.name === name);
+    if (existing) {
+      const stored = {
+        ...addWorkflowVersion(existing, workflow, now),
+        description: description ?? existing.description,
+      };
+      return {
+        workflows: workflows.map((candidate) => (candidate.id === existing.id ? stored : candidate)),
+        result: { stored, created: false },
+      };
+    }
+
+    const stored: StoredWorkflow = {
+      id: crypto.randomUUID(),
+      name,
+      description,
+      workflow,
+      version: 1,
+      savedAt: now,
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+      runs: [],
+    };
+    return { workflows: [...workflows, stored], result: { stored, created: true } };
+  });
+
+  return NextResponse.json({ workflow: summarizeStoredWorkflow(saved.stored) }, { status: saved.created ? 201 : 200 });
+}
@@ -0,0 +1,146 @@
+import { NextResponse } from "next/server";
+
+import { fetchPublicWebhook } from "@/lib/alertWebhookGuard";
+import { isRpcNetwork } from "@/lib/heliusRpc";
+import { checkBearerSecret } from "@/lib/routeAuth";
+import {
+  normalizeExecutionConcurrency,
+  runWorkflow,
+  type WorkflowExecutionEvent,
+} from "@/lib/workflowExecutor";
+import { formatZodError, parseWorkflowImport } from "@/lib/workflowSchema";
+import { resolveWorkflowVariables } from "@/lib/workflowVariables";
+
+interface RunRequestBody {
+  workflowExport?: unknown;
+  network?: unknown;
+  gatekeeperEnabled?: unknown;
+  startIndex?: unknown;
+  endIndexExclusive?: unknown;
+  concurrency?: unknown;
+  batchJsonRpc?: unknown;
+  deadlineMs?: unknown;
+  variables?: unknown;
+}
+
+export const runtime = "nodejs";
+
+function readOptionalIndex(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) ? value : undefined;
+}
+
+function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Runs a posted workflow with the server's API key. Requires `Authorization: Bearer $WORKFLOW_RUN_SECRET`. */
+export async function POST(request: Request) {
+  const unauthorized = checkBearerSecret(request, "WORKFLOW_RUN_SECRET");
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  let body: RunRequestBody;
+  try {
+    body = (await request.json()) as RunRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseWorkflowImport(body.workflowExport);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid workflowExport.", issues: formatZodError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const network = body.network ?? "mainnet";
+  if (!isRpcNetwork(network)) {
+    return NextResponse.json({ error: "network must be one of mainnet, devnet or testnet." }, { status: 400 });
+  }
+
+  const variables = body.variables ?? {};
+  if (typeof variables !== "object" || variables === null || Array.isArray(variables)) {
+    return NextResponse.json({ error: "variables must be an object of variable names to values." }, { status: 400 });
+  }
+  try {
+    resolveWorkflowVariables(parsed.data.variables ?? [], variables as Record<string, unknown>);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid variables." },
+      { status: 400 },
+    );
+  }
+
+  const apiKey = process.env.HELIUS_API_KEY ?? "";
+  if (!apiKey.trim()) {
+    return NextResponse.json({ error: "Missing HELIUS_API_KEY on the server." }, { status: 500 });
+  }
+
+  const workflow = parsed.data;
+  const encoder = new TextEncoder();
+  let isStreamClosed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (isStreamClosed) {
+          return;
+        }
+        controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+      };
+
+      try {
+        const result = await runWorkflow(
+          workflow,
+          {
+            network,
+            apiKey,
+            gatekeeperEnabled: body.gatekeeperEnabled === true,
+            fetchAlertWebhook: fetchPublicWebhook,
+          },
+          {
+            startIndex: readOptionalIndex(body.startIndex),
+            endIndexExclusive: readOptionalIndex(body.endIndexExclusive),
+            concurrency: normalizeExecutionConcurrency(body.concurrency),
+            batchJsonRpc: body.batchJsonRpc !== false,
+            deadlineMs: typeof body.deadlineMs === "number" && body.deadlineMs > 0 ? body.deadlineMs : undefined,
+            variables: variables as Record<string, unknown>,
+            signal: request.signal,
+            onEvent: (event: WorkflowExecutionEvent) => send(event.type, event),
+          },
+        );
+
+        send("run-complete", {
+          success: result.success,
+          canceled: result.canceled ?? false,
+          timedOut: result.timedOut ?? false,
+          failedNodeId: result.failedNodeId,
+          failedNodeName: result.failedNodeName,
+          errorMessage: result.errorMessage,
+          handledErrorCount: result.handledErrorCount,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown server error.";
+        send("run-error", { error: message });
+      } finally {
+        if (!isStreamClosed) {
+          isStreamClosed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      isStreamClosed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { getWorkflowVersion, readStoredWorkflows, toSharedWorkflowExport } from "@/lib/storedWorkflows";
+import { timingSafeStringEqual } from "@/lib/webhookAuth";
+
+interface SharedWorkflowRouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export const runtime = "nodejs";
+
+/**
+ * The workflow a share link points at, latest version or `?version=`, without runs and with Alert webhook URLs
+ * removed. Needs no secret: the token itself is the credential.
+ */
+export async function GET(request: Request, { params }: SharedWorkflowRouteContext) {
+  const { token } = await params;
+  const stored = (await readStoredWorkflows()).find(
+    (candidate) => candidate.shareToken !== undefined && timingSafeStringEqual(token, candidate.shareToken),
+  );
+  if (!stored) {
+    return NextResponse.json({ error: "This share link is not valid." }, { status: 404 });
+  }
+
+  const requestedVersion = new URL(request.url).searchParams.get("version");
+  const version = requestedVersion ? Number(requestedVersion) : stored.version;
+  const workflowExport = getWorkflowVersion(stored, version);
+  if (!workflowExport) {
+    return NextResponse.json({ error: `Workflow ${stored.name} has no version ${requestedVersion}.` }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    workflow: {
+      name: stored.name,
+      description: stored.description,
+      exportVersion: version,
+      workflowExport: toSharedWorkflowExport(workflowExport),
+    },
+  });
+}
@@ -4,23 +4,44 @@ import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import {
   BotMessageSquare,
   BookOpen,
+  CalendarClock,
+  ChartColumn,
+  ChartNoAxesGantt,
   ChevronDown,
+  Columns3,
+  GitCompare,
+  History,
   KeyRound,
+  Library,
   PanelRightClose,
   Play,
   Plus,
   RotateCcw,
   Send,
   Search,
+  Server,
   Square,
   StepForward,
   ToggleLeft,
   ToggleRight,
+  Variable,
+  Vault,
 } from "lucide-react";
 
+import { AutosaveControls } from "@/components/AutosaveControls";
+import { BenchmarkPanel } from "@/components/BenchmarkPanel";
+import { CredentialsPanel } from "@/components/CredentialsPanel";
+import { EndpointProfilesPanel } from "@/components/EndpointProfilesPanel";
 import { ImportExport } from "@/components/ImportExport";
+import { MatrixRunPanel } from "@/components/MatrixRunPanel";
 import { NodeGraphCanvas, type NodeGraphConnection } from "@/components/NodeGraphCanvas";
 import { NodeSettingsDialog } from "@/components/NodeSettingsDialog";
+import { RunDiffPanel, type OutputSnapshot } from "@/components/RunDiffPanel";
+import { RunHistoryPanel } from "@/components/RunHistoryPanel";
+import { SchedulesPanel } from "@/components/SchedulesPanel";
+import { TimelinePanel, type TimelineSource } from "@/components/TimelinePanel";
+import { VariablesPanel } from "@/components/VariablesPanel";
+import { WorkflowLibraryPanel } from "@/components/WorkflowLibraryPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { QuickTooltip } from "@/components/ui/quick-tooltip";
@@ -30,11 +51,64 @@ import {
   type MethodCategoryId,
   type MethodRegistryEntry,
 } from "@/lib/methodRegistry";
-import { getByPath } from "@/lib/path";
+import { readJsonResponse } from "@/lib/apiResponse";
+import { ERROR_HANDLER_METHOD } from "@/lib/customNodes";
+import { readEndpointProfiles, resolveEndpointApiKey, writeEndpointProfiles } from "@/lib/endpointProfiles";
+import type { RpcEndpointProfile, RpcNetwork } from "@/lib/heliusRpc";
+import { getMatrixTargets, type MatrixColumn, type MatrixTarget, runWorkflowMatrix } from "@/lib/matrixRun";
+import {
+  clearRuns,
+  createRunRecorder,
+  deleteRun,
+  getRunOutputs,
+  listRuns,
+  MAX_TIMELINE_CALLS,
+  saveRun,
+  toCallTiming,
+  type RunRecord,
+} from "@/lib/runHistory";
+import {
+  buildDependencyExecutionOrder,
+  calculatePlannedCallCounts,
+  getNodeTemplatePlaceholders,
+  type PlannedCallCount,
+  wouldCreateReferenceCycle,
+} from "@/lib/workflowGraph";
+import {
+  createVaultKey,
+  type Credentials,
+  encryptVault,
+  readStoredVault,
+  removeStoredVault,
+  unlockVault,
+  type VaultKey,
+  writeStoredVault,
+} from "@/lib/secretsVault";
+import {
+  DEFAULT_EXECUTION_CONCURRENCY,
+  describeRunResult,
+  MAX_EXECUTION_CONCURRENCY,
+  normalizeExecutionConcurrency,
+  type NodeCallTiming,
+  runWorkflow,
+  type WorkflowExecutionEvent,
+  type WorkflowRunResult,
+} from "@/lib/workflowExecutor";
+import {
+  AUTOSAVE_DEBOUNCE_MS,
+  type AutosaveResult,
+  type AutosaveSettings,
+  type AutosaveSnapshot,
+  clearAutosave,
+  hasAutosavedWork,
+  readAutosave,
+  readAutosaveSettings,
+  writeAutosave,
+  writeAutosaveSettings,
+} from "@/lib/workflowAutosave";
+import type { WorkflowExport } from "@/lib/workflowSchema";
 import { useWorkflowStore } from "@/store/workflowStore";
-import type { RepeatUnit, WorkflowNode } from "@/store/workflowStore";
-
-type RpcNetwork = "mainnet" | "devnet" | "testnet";
+import type { WorkflowNode } from "@/store/workflowStore";
 
 interface MethodCategory {
   id: MethodCategoryId;
@@ -71,16 +145,6 @@ interface ChatResponsePayload {
   availabilityError?: string;
 }
 
-interface RunRangeResult {
-  success: boolean;
-  canceled?: boolean;
-  failedNodeId?: string;
-  failedNodeName?: string;
-  errorMessage?: string;
-}
-
-type PlannedCallCount = number | null;
-
 function readNonEmptyString(value: unknown): string | undefined {
   if (typeof value !== "string") {
     return undefined;
@@ -155,575 +219,26 @@ function toWorkflowParamValue(
   };
 }
 
-const DEFAULT_HELIUS_RPC_URLS: Record<RpcNetwork, string> = {
-  mainnet: "https://mainnet.helius-rpc.com",
-  devnet: "https://devnet.helius-rpc.com",
-  testnet: "https://testnet.helius-rpc.com",
-};
-const DEFAULT_HELIUS_HTTP_URLS: Record<RpcNetwork, string> = {
-  mainnet: "https://api.helius.xyz",
-  devnet: "https://api-devnet.helius.xyz",
-  testnet: "https://api-testnet.helius.xyz",
-};
-const GATEKEEPER_RPC_URL = "https://beta.helius-rpc.com/";
 const SESSION_STORAGE_API_KEY = "helius-flow:api-key";
-
-function resolveParamValue(
-  paramValue: WorkflowNode["params"][number]["value"],
-  outputsByNodeId: Map<string, unknown>,
-): unknown {
-  if (paramValue.type === "literal") {
-    return paramValue.value;
-  }
-
-  const sourceOutput = outputsByNodeId.get(paramValue.nodeId);
-  if (sourceOutput === undefined) {
-    throw new Error(`Reference node ${paramValue.nodeId} has no output`);
-  }
-
-  const value = getByPath(sourceOutput, paramValue.path);
-  if (value === undefined) {
-    throw new Error(`Reference path not found: ${paramValue.path}`);
-  }
-
-  return value;
-}
-
-function parseRawParams(raw: string): unknown {
-  return JSON.parse(raw) as unknown;
-}
-
-function pruneNullish(value: unknown): unknown {
-  if (value === null || value === undefined) {
-    return undefined;
-  }
-
-  if (Array.isArray(value)) {
-    return value
-      .map((entry) => pruneNullish(entry))
-      .filter((entry) => entry !== undefined);
-  }
-
-  if (typeof value === "object") {
-    const input = value as Record<string, unknown>;
-    const next: Record<string, unknown> = {};
-
-    for (const [key, entry] of Object.entries(input)) {
-      const cleaned = pruneNullish(entry);
-      if (cleaned !== undefined) {
-        next[key] = cleaned;
-      }
-    }
-
-    return next;
-  }
-
-  return value;
-}
-
-function setByDotPath(target: Record<string, unknown>, path: string, value: unknown): void {
-  const parts = path.split(".");
-  let cursor: Record<string, unknown> = target;
-
-  for (let index = 0; index < parts.length; index += 1) {
-    const key = parts[index];
-    if (!key) {
-      continue;
-    }
-
-    if (index === parts.length - 1) {
-      cursor[key] = value;
-      return;
-    }
-
-    const existing = cursor[key];
-    if (typeof existing === "object" && existing !== null && !Array.isArray(existing)) {
-      cursor = existing as Record<string, unknown>;
-      continue;
-    }
-
-    const next: Record<string, unknown> = {};
-    cursor[key] = next;
-    cursor = next;
-  }
-}
-
-function getNodeParams(node: WorkflowNode, outputsByNodeId: Map<string, unknown>): unknown {
-  const entry = getMethodEntry(node.method);
-
-  if (entry?.params?.kind === "table") {
-    if (entry.jsonrpcParamsStyle === "object") {
-      const paramsObject: Record<string, unknown> = {};
-
-      entry.params.fields.forEach((field) => {
-        const binding = node.params.find((param) => param.name === field.name);
-        if (!binding) {
-          return;
-        }
-
-        const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId));
-        if (value === undefined) {
-          return;
-        }
-
-        setByDotPath(paramsObject, field.name, value);
-      });
-
-      return paramsObject;
-    }
-
-    const args: unknown[] = [];
-    const options: Record<string, unknown> = {};
-    const isTokenAccountsFilterMethod =
-      node.method === "getTokenAccountsByOwner" ||
-      node.method === "getTokenAccountsByOwnerV2" ||
-      node.method === "getTokenAccountsByDelegate";
-    const tokenAccountFilter: Record<string, unknown> = {};
-
-    entry.params.fields.forEach((field, index) => {
-      const binding = node.params.find((param) => param.name === field.name);
-      if (!binding) {
-        return;
-      }
-
-      const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId));
-      if (value === undefined) {
-        return;
-      }
-
-      // Convention used by our registry: first required field is primary positional arg, others are config options.
-      if (index === 0 && field.required) {
-        args.push(value);
-        return;
-      }
-
-      if (isTokenAccountsFilterMethod && (field.name === "mint" || field.name === "programId")) {
-        tokenAccountFilter[field.name] = value;
-        return;
-      }
-
-      setByDotPath(options, field.name, value);
-    });
-
-    if (isTokenAccountsFilterMethod && Object.keys(tokenAccountFilter).length > 0) {
-      args.push(tokenAccountFilter);
-    }
-
-    const cleanedOptions = pruneNullish(options);
-    if (
-      cleanedOptions &&
-      typeof cleanedOptions === "object" &&
-      !Array.isArray(cleanedOptions) &&
-      Object.keys(cleanedOptions as Record<string, unknown>).length > 0
-    ) {
-      args.push(cleanedOptions);
-    }
-
-    return args;
-  }
-
-  const raw = parseRawParams(node.rawParamsJson);
-  const cleaned = pruneNullish(raw);
-  return cleaned === undefined ? [] : cleaned;
-}
-
-function getNodeHttpParams(node: WorkflowNode, outputsByNodeId: Map<string, unknown>): Record<string, unknown> {
-  const entry = getMethodEntry(node.method);
-
-  if (entry?.params?.kind !== "table") {
-    throw new Error("HTTP methods require table-style params schema in the registry.");
-  }
-
-  const params: Record<string, unknown> = {};
-
-  entry.params.fields.forEach((field) => {
-    const binding = node.params.find((param) => param.name === field.name);
-    if (!binding) {
-      return;
-    }
-
-    const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId));
-    if (value === undefined) {
-      return;
-    }
-
-    params[field.name] = value;
-  });
-
-  return params;
-}
-
-function parseRpcResponse(text: string): unknown {
-  try {
-    return JSON.parse(text) as unknown;
-  } catch {
-    return text;
-  }
-}
-
-function buildHeliusJsonRpcUrl(apiKey: string, network: RpcNetwork, gatekeeperEnabled: boolean): string {
-  const configured = process.env.NEXT_PUBLIC_HELIUS_RPC_URL;
-  const baseUrl = gatekeeperEnabled ? GATEKEEPER_RPC_URL : configured ?? DEFAULT_HELIUS_RPC_URLS[network];
-
-  const url = new URL(baseUrl);
-  if (apiKey.trim()) {
-    url.searchParams.set("api-key", apiKey.trim());
-  }
-  return url.toString();
-}
-
-function appendQueryValue(searchParams: URLSearchParams, key: string, value: unknown): void {
-  if (value === undefined || value === null) {
-    return;
-  }
-
-  if (Array.isArray(value)) {
-    value.forEach((entry) => appendQueryValue(searchParams, key, entry));
-    return;
-  }
-
-  if (typeof value === "object") {
-    searchParams.set(key, JSON.stringify(value));
-    return;
-  }
-
-  searchParams.set(key, String(value));
-}
-
-function buildHeliusHttpUrl(
-  apiKey: string,
-  network: RpcNetwork,
-  entry: MethodRegistryEntry,
-  params: Record<string, unknown>,
-  includeQueryParams = true,
-): string {
-  if (!entry.http) {
-    throw new Error("Missing HTTP config for method.");
-  }
-
-  const baseUrl =
-    network === "mainnet"
-      ? entry.http.mainnetBaseUrl ?? DEFAULT_HELIUS_HTTP_URLS.mainnet
-      : network === "devnet"
-        ? entry.http.devnetBaseUrl ?? DEFAULT_HELIUS_HTTP_URLS.devnet
-        : DEFAULT_HELIUS_HTTP_URLS.testnet;
-
-  const unresolvedPath = entry.http.path;
-  const remainingParams: Record<string, unknown> = { ...params };
-  const resolvedPath = unresolvedPath.replace(/\{([^}]+)\}/g, (_, token: string) => {
-    const value = remainingParams[token];
-    if (value === undefined || value === null) {
-      throw new Error(`Missing required path param: ${token}`);
-    }
-    delete remainingParams[token];
-    return encodeURIComponent(String(value));
-  });
-
-  const url = /^https?:\/\//.test(resolvedPath)
-    ? new URL(resolvedPath)
-    : new URL(resolvedPath.replace(/^\//, ""), `${baseUrl.replace(/\/$/, "")}/`);
-
-  if (apiKey.trim()) {
-    url.searchParams.set("api-key", apiKey.trim());
-  }
-
-  if (includeQueryParams) {
-    for (const [key, value] of Object.entries(remainingParams)) {
-      appendQueryValue(url.searchParams, key, value);
-    }
-  }
-
-  return url.toString();
-}
+const ENDPOINT_OPTION_PREFIX = "endpoint:";
 
 function getMethodCategoryId(entry: MethodRegistryEntry): MethodCategoryId {
   return entry.category ?? "solana-rpc-apis";
 }
 
-function getCustomNodeOutput(node: WorkflowNode, outputsByNodeId: Map<string, unknown>): unknown {
-  const valueParam = node.params.find((param) => param.name === "value");
-  if (!valueParam) {
-    return null;
-  }
-
-  return resolveParamValue(valueParam.value, outputsByNodeId);
-}
-
-function referencesAnyNode(node: WorkflowNode, nodeIds: Set<string>): boolean {
-  return node.params.some((param) => param.value.type === "ref" && nodeIds.has(param.value.nodeId));
-}
-
-function buildReferenceAdjacency(
-  nodeIds: string[],
-  nodes: Record<string, WorkflowNode>,
-): Map<string, Set<string>> {
-  const nodeIdSet = new Set<string>(nodeIds);
-  const adjacency = new Map<string, Set<string>>();
-
-  for (const nodeId of nodeIds) {
-    const node = nodes[nodeId];
-    if (!node) {
-      continue;
-    }
-
-    for (const param of node.params) {
-      if (param.value.type !== "ref") {
-        continue;
-      }
-
-      const sourceNodeId = param.value.nodeId;
-      if (!nodeIdSet.has(sourceNodeId)) {
-        continue;
-      }
-
-      const targets = adjacency.get(sourceNodeId) ?? new Set<string>();
-      targets.add(node.id);
-      adjacency.set(sourceNodeId, targets);
-    }
-  }
-
-  return adjacency;
-}
-
-function hasReferencePath(
-  adjacency: Map<string, Set<string>>,
-  fromNodeId: string,
-  toNodeId: string,
-): boolean {
-  if (fromNodeId === toNodeId) {
-    return true;
-  }
-
-  const visited = new Set<string>();
-  const stack: string[] = [fromNodeId];
-
-  while (stack.length > 0) {
-    const current = stack.pop();
-    if (!current || visited.has(current)) {
-      continue;
-    }
-
-    visited.add(current);
-    const next = adjacency.get(current);
-    if (!next) {
-      continue;
-    }
-
-    for (const candidate of next) {
-      if (candidate === toNodeId) {
-        return true;
-      }
-      if (!visited.has(candidate)) {
-        stack.push(candidate);
-      }
-    }
-  }
-
-  return false;
-}
-
-function wouldCreateReferenceCycle(
-  nodes: Record<string, WorkflowNode>,
-  targetNodeId: string,
-  sourceNodeId: string,
-): boolean {
-  if (targetNodeId === sourceNodeId) {
-    return true;
-  }
-
-  const nodeIds = Object.keys(nodes);
-  const adjacency = buildReferenceAdjacency(nodeIds, nodes);
-  return hasReferencePath(adjacency, targetNodeId, sourceNodeId);
-}
-
-function buildDependencyExecutionOrder(
-  order: string[],
-  nodes: Record<string, WorkflowNode>,
-): { orderedNodeIds: string[]; hasCycle: boolean } {
-  const orderedNodeIds = order.filter((nodeId) => Boolean(nodes[nodeId]));
-  const indexByNodeId = new Map<string, number>(
-    orderedNodeIds.map((nodeId, index) => [nodeId, index]),
-  );
-  const adjacency = buildReferenceAdjacency(orderedNodeIds, nodes);
-  const indegreeByNodeId = new Map<string, number>(orderedNodeIds.map((nodeId) => [nodeId, 0]));
-
-  for (const targets of adjacency.values()) {
-    for (const targetNodeId of targets) {
-      indegreeByNodeId.set(targetNodeId, (indegreeByNodeId.get(targetNodeId) ?? 0) + 1);
-    }
-  }
-
-  const queue: string[] = orderedNodeIds.filter((nodeId) => (indegreeByNodeId.get(nodeId) ?? 0) === 0);
-  queue.sort((a, b) => (indexByNodeId.get(a) ?? 0) - (indexByNodeId.get(b) ?? 0));
-
-  const result: string[] = [];
-  while (queue.length > 0) {
-    const nodeId = queue.shift();
-    if (!nodeId) {
-      continue;
-    }
-
-    result.push(nodeId);
-    const targets = adjacency.get(nodeId);
-    if (!targets) {
-      continue;
-    }
-
-    for (const targetNodeId of targets) {
-      const nextInDegree = (indegreeByNodeId.get(targetNodeId) ?? 0) - 1;
-      indegreeByNodeId.set(targetNodeId, nextInDegree);
-
-      if (nextInDegree === 0) {
-        queue.push(targetNodeId);
-      }
-    }
-
-    queue.sort((a, b) => (indexByNodeId.get(a) ?? 0) - (indexByNodeId.get(b) ?? 0));
-  }
-
-  return {
-    orderedNodeIds: result.length === orderedNodeIds.length ? result : orderedNodeIds,
-    hasCycle: result.length !== orderedNodeIds.length,
-  };
-}
-
-function getReferencedDownstreamNodeIds(
-  executionOrder: string[],
-  nodes: Record<string, WorkflowNode>,
-  sourceNodeId: string,
-  includedNodeIds: Set<string>,
-): string[] {
-  const sourceIds = new Set<string>([sourceNodeId]);
-  const referencedNodeIds: string[] = [];
-
-  for (const nodeId of executionOrder) {
-    if (!includedNodeIds.has(nodeId) || nodeId === sourceNodeId) {
-      continue;
-    }
-
-    const node = nodes[nodeId];
-
-    if (!node || !referencesAnyNode(node, sourceIds)) {
-      continue;
-    }
-
-    sourceIds.add(nodeId);
-    referencedNodeIds.push(nodeId);
-  }
-
-  return referencedNodeIds;
-}
-
-function repeatIntervalToMs(interval: number, unit: RepeatUnit): number {
-  if (unit === "minutes") {
-    return interval * 60_000;
-  }
-  if (unit === "seconds") {
-    return interval * 1_000;
-  }
-  return interval;
-}
-
-function sleepWithSignal(durationMs: number, signal: AbortSignal): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (signal.aborted) {
-      reject(new DOMException("Execution stopped.", "AbortError"));
-      return;
-    }
-
-    const timeoutId = window.setTimeout(() => {
-      signal.removeEventListener("abort", onAbort);
-      resolve();
-    }, durationMs);
-
-    const onAbort = () => {
-      window.clearTimeout(timeoutId);
-      signal.removeEventListener("abort", onAbort);
-      reject(new DOMException("Execution stopped.", "AbortError"));
-    };
-
-    signal.addEventListener("abort", onAbort);
-  });
-}
-
-function isAbortError(error: unknown): boolean {
-  return error instanceof DOMException && error.name === "AbortError";
-}
-
-function addPlannedCallCount(
-  callCountsByNodeId: Map<string, PlannedCallCount>,
-  nodeId: string,
-  count: number,
-): void {
-  const existing = callCountsByNodeId.get(nodeId);
-  if (existing === null) {
-    return;
-  }
-  if (existing === undefined) {
-    callCountsByNodeId.set(nodeId, count);
-    return;
-  }
-  callCountsByNodeId.set(nodeId, existing + count);
-}
-
-function setPlannedCallCountInfinite(callCountsByNodeId: Map<string, PlannedCallCount>, nodeId: string): void {
-  callCountsByNodeId.set(nodeId, null);
-}
-
-function calculatePlannedCallCounts(
-  executionOrder: string[],
-  nodes: Record<string, WorkflowNode>,
-  includedNodeIds: Set<string>,
-): Map<string, PlannedCallCount> {
-  const callCountsByNodeId = new Map<string, PlannedCallCount>();
-  const skippedNodeIds = new Set<string>();
-
-  for (const nodeId of executionOrder) {
-    if (!includedNodeIds.has(nodeId) || skippedNodeIds.has(nodeId)) {
-      continue;
-    }
-
-    const node = nodes[nodeId];
-    if (!node) {
-      continue;
-    }
-
-    if (!node.repeat.enabled) {
-      addPlannedCallCount(callCountsByNodeId, nodeId, 1);
-      continue;
-    }
-
-    const downstreamNodeIds = getReferencedDownstreamNodeIds(executionOrder, nodes, nodeId, includedNodeIds);
-    const repeatCount = Math.max(1, Math.floor(node.repeat.count));
-    const loopCount = Math.max(0, Math.floor(node.repeat.loopCount));
-
-    if (loopCount === 0) {
-      setPlannedCallCountInfinite(callCountsByNodeId, nodeId);
-      for (const downstreamNodeId of downstreamNodeIds) {
-        setPlannedCallCountInfinite(callCountsByNodeId, downstreamNodeId);
-      }
-      break;
-    }
-
-    const totalCalls = repeatCount * loopCount;
-    addPlannedCallCount(callCountsByNodeId, nodeId, totalCalls);
-    for (const downstreamNodeId of downstreamNodeIds) {
-      addPlannedCallCount(callCountsByNodeId, downstreamNodeId, totalCalls);
-      skippedNodeIds.add(downstreamNodeId);
-    }
-  }
-
-  return callCountsByNodeId;
-}
-
 export default function HomePage() {
   const apiKey = useWorkflowStore((state) => state.apiKey);
   const order = useWorkflowStore((state) => state.order);
   const nodes = useWorkflowStore((state) => state.nodes);
   const selectedNodeId = useWorkflowStore((state) => state.selectedNodeId);
   const includeOutputsOnExport = useWorkflowStore((state) => state.includeOutputsOnExport);
+  const variables = useWorkflowStore((state) => state.variables);
+  const credentialName = useWorkflowStore((state) => state.credentialName);
 
   const setApiKey = useWorkflowStore((state) => state.setApiKey);
+  const setCredentialName = useWorkflowStore((state) => state.setCredentialName);
+  const schedule = useWorkflowStore((state) => state.schedule);
+  const setSchedule = useWorkflowStore((state) => state.setSchedule);
   const addNode = useWorkflowStore((state) => state.addNode);
   const removeNode = useWorkflowStore((state) => state.removeNode);
   const renameNode = useWorkflowStore((state) => state.renameNode);
@@ -732,9 +247,17 @@ export default function HomePage() {
   const setParamValue = useWorkflowStore((state) => state.setParamValue);
   const setRawParamsJson = useWorkflowStore((state) => state.setRawParamsJson);
   const setNodeRepeat = useWorkflowStore((state) => state.setNodeRepeat);
+  const setNodeRetry = useWorkflowStore((state) => state.setNodeRetry);
+  const setNodeOnError = useWorkflowStore((state) => state.setNodeOnError);
+  const setNodeTimeout = useWorkflowStore((state) => state.setNodeTimeout);
+  const addVariable = useWorkflowStore((state) => state.addVariable);
+  const updateVariable = useWorkflowStore((state) => state.updateVariable);
+  const removeVariable = useWorkflowStore((state) => state.removeVariable);
   const setNodeStatus = useWorkflowStore((state) => state.setNodeStatus);
+  const setNodeRetryAttempt = useWorkflowStore((state) => state.setNodeRetryAttempt);
   const setNodeOutput = useWorkflowStore((state) => state.setNodeOutput);
   const clearOutputs = useWorkflowStore((state) => state.clearOutputs);
+  const restoreNodeResults = useWorkflowStore((state) => state.restoreNodeResults);
   const exportWorkflow = useWorkflowStore((state) => state.exportWorkflow);
   const importWorkflow = useWorkflowStore((state) => state.importWorkflow);
   const setIncludeOutputsOnExport = useWorkflowStore((state) => state.setIncludeOutputsOnExport);
@@ -753,18 +276,69 @@ export default function HomePage() {
   const [editingNodeId, setEditingNodeId] = useState<string>();
   const [showInstructions, setShowInstructions] = useState(false);
   const [network, setNetwork] = useState<RpcNetwork>("mainnet");
+  const [endpointProfiles, setEndpointProfiles] = useState<RpcEndpointProfile[]>([]);
+  const [endpointProfileId, setEndpointProfileId] = useState<string>();
+  const [showEndpoints, setShowEndpoints] = useState(false);
+  const [showMatrix, setShowMatrix] = useState(false);
   const [gatekeeperEnabled, setGatekeeperEnabled] = useState(false);
+  const [executionConcurrency, setExecutionConcurrency] = useState(DEFAULT_EXECUTION_CONCURRENCY);
+  const [runDeadlineSeconds, setRunDeadlineSeconds] = useState(0);
   const [hasLoadedApiKeyFromSession, setHasLoadedApiKeyFromSession] = useState(false);
   const [nodeCallCounts, setNodeCallCounts] = useState<Record<string, number>>({});
   const [nodeCallTargets, setNodeCallTargets] = useState<Record<string, PlannedCallCount>>({});
+  const [showRunHistory, setShowRunHistory] = useState(false);
+  const [showRunDiff, setShowRunDiff] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [autosaveSettings, setAutosaveSettings] = useState<AutosaveSettings>({
+    includeApiKey: false,
+    includeLargeOutputs: false,
+  });
+  const [pendingAutosave, setPendingAutosave] = useState<AutosaveSnapshot>();
+  // Restoring an autosave replaces a workflow opened from a share link, so the prompt says so.
+  const [sharedWorkflowLabel, setSharedWorkflowLabel] = useState<string>();
+  const [isLoadingSharedWorkflow, setIsLoadingSharedWorkflow] = useState(false);
+  const [isAutosaveActive, setIsAutosaveActive] = useState(false);
+  const [lastAutosave, setLastAutosave] = useState<AutosaveResult>();
+  const [showVariables, setShowVariables] = useState(false);
+  const [variableOverrides, setVariableOverrides] = useState<Record<string, string>>({});
+  const [showCredentials, setShowCredentials] = useState(false);
+  const [hasStoredVault, setHasStoredVault] = useState(false);
+  const [vaultKey, setVaultKey] = useState<VaultKey>();
+  const [credentials, setCredentials] = useState<Credentials>();
+  const [vaultError, setVaultError] = useState<string>();
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+  const [callTimings, setCallTimings] = useState<NodeCallTiming[]>([]);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [runHistoryError, setRunHistoryError] = useState<string>();
   const activeExecutionAbortControllerRef = useRef<AbortController | null>(null);
 
+  const refreshRunHistory = async () => {
+    try {
+      setRunHistory(await listRuns());
+      setRunHistoryError(undefined);
+    } catch (error) {
+      setRunHistoryError(error instanceof Error ? error.message : "Could not load run history.");
+    }
+  };
+
+  useEffect(() => {
+    void refreshRunHistory();
+  }, []);
+
   useEffect(() => {
     if (gatekeeperEnabled && network === "testnet") {
       setNetwork("mainnet");
     }
   }, [gatekeeperEnabled, network]);
 
+  useEffect(() => {
+    setHasStoredVault(Boolean(readStoredVault()));
+    setEndpointProfiles(readEndpointProfiles());
+  }, []);
+
   useEffect(() => {
     const storedApiKey = window.sessionStorage.getItem(SESSION_STORAGE_API_KEY);
     if (storedApiKey) {
@@ -773,6 +347,83 @@ export default function HomePage() {
     setHasLoadedApiKeyFromSession(true);
   }, [setApiKey]);
 
+  useEffect(() => {
+    setAutosaveSettings(readAutosaveSettings());
+    const snapshot = readAutosave();
+    if (snapshot && hasAutosavedWork(snapshot)) {
+      setPendingAutosave(snapshot);
+      return;
+    }
+    setIsAutosaveActive(true);
+  }, []);
+
+  // Autosave waits until a pending snapshot is restored or discarded, so the empty canvas does not replace it.
+  useEffect(() => {
+    if (!isAutosaveActive) {
+      return;
+    }
+
+    let timeoutId: number | undefined;
+    const save = () => {
+      timeoutId = undefined;
+      const state = useWorkflowStore.getState();
+      try {
+        setLastAutosave(writeAutosave(state.exportWorkflow(true), state.apiKey, autosaveSettings));
+      } catch {
+        setLastAutosave(undefined);
+      }
+    };
+    const flush = () => {
+      if (timeoutId !== undefined) {
+        window.clearTimeout(timeoutId);
+        save();
+      }
+    };
+
+    save();
+    const unsubscribe = useWorkflowStore.subscribe(() => {
+      window.clearTimeout(timeoutId);
+      timeoutId = window.setTimeout(save, AUTOSAVE_DEBOUNCE_MS);
+    });
+    window.addEventListener("pagehide", flush);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [isAutosaveActive, autosaveSettings]);
+
+  useEffect(() => {
+    const searchParams = new URLSearchParams(window.location.search);
+    const shareToken = searchParams.get("share");
+    if (!shareToken) {
+      return;
+    }
+
+    const version = searchParams.get("version");
+    const versionQuery = version ? `?version=${encodeURIComponent(version)}` : "";
+    const loadSharedWorkflow = async () => {
+      setIsLoadingSharedWorkflow(true);
+      try {
+        const response = await fetch(`/api/workflows/shared/${encodeURIComponent(shareToken)}${versionQuery}`);
+        const data = await readJsonResponse<{
+          workflow: { name: string; exportVersion: number; workflowExport: WorkflowExport };
+        }>(response);
+        const label = `${data.workflow.name} v${data.workflow.exportVersion}`;
+        importWorkflow(data.workflow.workflowExport);
+        setSharedWorkflowLabel(label);
+        setStatusMessage(`Opened shared workflow ${label}.`);
+      } catch (error) {
+        setStatusMessage(
+          `Could not open the shared workflow: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      } finally {
+        setIsLoadingSharedWorkflow(false);
+      }
+    };
+    void loadSharedWorkflow();
+  }, [importWorkflow]);
+
   useEffect(() => {
     if (!hasLoadedApiKeyFromSession) {
       return;
@@ -802,6 +453,45 @@ export default function HomePage() {
     () => order.map((nodeId) => nodes[nodeId]).filter((node): node is WorkflowNode => Boolean(node)),
     [order, nodes],
   );
+  const nodeLabels = useMemo(() => orderedNodes.map((node) => ({ id: node.id, name: node.name })), [orderedNodes]);
+  const benchmarkNodeLabels = useMemo(
+    () =>
+      orderedNodes
+        .filter((node) => node.repeat.enabled && node.repeat.benchmark)
+        .map((node) => ({ id: node.id, name: node.name })),
+    [orderedNodes],
+  );
+  const outputSnapshots = useMemo<OutputSnapshot[]>(() => {
+    const currentOutputs: Record<string, unknown> = {};
+    for (const node of orderedNodes) {
+      if (node.output !== undefined) {
+        currentOutputs[node.id] = node.output;
+      }
+    }
+
+    const snapshots: OutputSnapshot[] = runHistory.map((run) => ({
+      id: run.id,
+      label: `Run ${new Date(run.startedAt).toLocaleString()} (${run.network})`,
+      outputs: getRunOutputs(run),
+    }));
+    if (Object.keys(currentOutputs).length > 0) {
+      snapshots.unshift({ id: "current", label: "Current outputs", outputs: currentOutputs });
+    }
+    return snapshots;
+  }, [orderedNodes, runHistory]);
+  const timelineSources = useMemo<TimelineSource[]>(() => {
+    const sources: TimelineSource[] = runHistory
+      .filter((run) => (run.timeline?.length ?? 0) > 0)
+      .map((run) => ({
+        id: run.id,
+        label: `Run ${new Date(run.startedAt).toLocaleString()} (${run.network})`,
+        timings: run.timeline ?? [],
+      }));
+    if (callTimings.length > 0) {
+      sources.unshift({ id: "latest", label: "Latest run", timings: callTimings });
+    }
+    return sources;
+  }, [callTimings, runHistory]);
   const dependencyExecutionPlan = useMemo(
     () => buildDependencyExecutionOrder(order, nodes),
     [order, nodes],
@@ -845,12 +535,39 @@ export default function HomePage() {
           toNodeId: node.id,
           paramName: param.name,
           path: param.value.path,
+          kind: "reference",
+        });
+      }
+
+      for (const { paramName, placeholder } of getNodeTemplatePlaceholders(node)) {
+        if (placeholder.kind !== "ref" || !nodes[placeholder.nodeId]) {
+          continue;
+        }
+
+        connections.push({
+          id: `${placeholder.nodeId}-${node.id}-${paramName}-${placeholder.path}-${connections.length}`,
+          fromNodeId: placeholder.nodeId,
+          toNodeId: node.id,
+          paramName,
+          path: placeholder.path,
+          kind: "reference",
+        });
+      }
+
+      if (node.onError.mode === "handler") {
+        connections.push({
+          id: `error-${node.id}-${node.onError.handlerNodeId}`,
+          fromNodeId: node.id,
+          toNodeId: node.onError.handlerNodeId,
+          paramName: "error handler",
+          path: "error",
+          kind: "error",
         });
       }
     }
 
     return connections;
-  }, [orderedNodes]);
+  }, [nodes, orderedNodes]);
   const callTargetByNodeId = useMemo<Record<string, number | null>>(() => {
     const targets: Record<string, number | null> = {};
 
@@ -894,6 +611,13 @@ export default function HomePage() {
         output: candidate.output,
       }));
   }, [editingNode, nodes, orderedNodes]);
+  const errorHandlerNodes = useMemo(
+    () =>
+      orderedNodes
+        .filter((candidate) => candidate.method === ERROR_HANDLER_METHOD)
+        .map((candidate) => ({ id: candidate.id, name: candidate.name })),
+    [orderedNodes],
+  );
 
   const methodEntries = useMemo(() => getMethodEntries(), []);
   const methodCategories = useMemo<MethodCategory[]>(
@@ -963,7 +687,13 @@ export default function HomePage() {
     [activeMethod, methodEntries],
   );
 
-  const hasHeliusApiKey = apiKey.trim().length > 0;
+  const selectedEndpoint = endpointProfiles.find((profile) => profile.id === endpointProfileId);
+  const matrixTargets = useMemo(() => getMatrixTargets(endpointProfiles), [endpointProfiles]);
+  const networkLabel = selectedEndpoint?.name ?? network;
+
+  // A workflow that names a credential runs with it; otherwise the session key is used.
+  const runApiKey = credentialName ? credentials?.[credentialName] : apiKey;
+  const hasHeliusApiKey = Boolean(runApiKey?.trim());
   const isBotInputDisabled = isBotReplying || isBotTesting || isExecuting || !hasHeliusApiKey;
 
   const requestChatPlan = async (
@@ -1150,7 +880,7 @@ export default function HomePage() {
                 "The workflow validation run failed. Provide a corrected replacement plan for the recently added nodes.",
                 `Failed node: ${initialRun.failedNodeName ?? "unknown"}`,
                 `Error: ${initialRun.errorMessage ?? "unknown error"}`,
-                `Network: ${network}`,
+                `Network: ${networkLabel}`,
                 `Recently added nodes: ${JSON.stringify(recentNodes)}`,
                 "Return corrected proposedNodes only.",
               ].join("\n");
@@ -1208,294 +938,235 @@ export default function HomePage() {
     }
   };
 
-  const executeSingleNode = async (
-    nodeId: string,
-    outputsByNodeId: Map<string, unknown>,
-    signal: AbortSignal,
-  ): Promise<RunRangeResult> => {
-    const node = useWorkflowStore.getState().nodes[nodeId];
-    if (!node) {
-      return { success: true };
+  const handleExecutionEvent = (event: WorkflowExecutionEvent) => {
+    if (event.type === "run-planned") {
+      const initialCallCounts: Record<string, number> = {};
+      for (const nodeId of Object.keys(event.callTargets)) {
+        initialCallCounts[nodeId] = 0;
+      }
+      setNodeCallTargets(event.callTargets);
+      setNodeCallCounts(initialCallCounts);
+      setCallTimings([]);
+      return;
     }
 
-    if (signal.aborted) {
-      return {
-        success: false,
-        canceled: true,
-        failedNodeId: node.id,
-        failedNodeName: node.name,
-        errorMessage: "Execution stopped by user.",
-      };
+    if (event.type === "node-timing") {
+      const timing = toCallTiming(event);
+      setCallTimings((prev) => [...prev.slice(-(MAX_TIMELINE_CALLS - 1)), timing]);
+      return;
     }
 
-    setNodeCallCounts((prev) => ({
-      ...prev,
-      [node.id]: (prev[node.id] ?? 0) + 1,
-    }));
-    setNodeStatus(node.id, "running");
-
-    try {
-      const methodEntry = getMethodEntry(node.method);
-      const transport = methodEntry?.transport ?? "jsonrpc";
-      const apiKeyValue = useWorkflowStore.getState().apiKey;
-
-      let response: Response;
-
-      if (transport === "custom") {
-        const output = getCustomNodeOutput(node, outputsByNodeId);
-        setNodeOutput(node.id, output);
-        outputsByNodeId.set(node.id, output);
-        setNodeStatus(node.id, "success");
-        return { success: true };
-      }
+    if (event.type === "node-call") {
+      setNodeCallCounts((prev) => ({
+        ...prev,
+        [event.nodeId]: (prev[event.nodeId] ?? 0) + 1,
+      }));
+      return;
+    }
 
-      if (transport === "http") {
-        if (!methodEntry?.http) {
-          throw new Error(`Method ${node.method} is marked as HTTP but has no HTTP config.`);
-        }
+    if (event.type === "node-status") {
+      setNodeStatus(event.nodeId, event.status, event.error);
+      return;
+    }
 
-        const httpParams = getNodeHttpParams(node, outputsByNodeId);
-        const shouldUsePost = gatekeeperEnabled || methodEntry.http.method === "POST";
-        const url = buildHeliusHttpUrl(apiKeyValue, network, methodEntry, httpParams, !shouldUsePost);
+    if (event.type === "node-retry") {
+      setNodeRetryAttempt(event.nodeId, { attempt: event.attempt, maxAttempts: event.maxAttempts });
+      return;
+    }
 
-        if (shouldUsePost) {
-          response = await fetch(url, {
-            method: "POST",
-            headers: {
-              "content-type": "application/json",
-            },
-            body: JSON.stringify(httpParams),
-            signal,
-          });
-        } else {
-          response = await fetch(url, {
-            method: "GET",
-            signal,
-          });
-        }
-      } else {
-        const params = getNodeParams(node, outputsByNodeId);
+    if (event.type === "node-output") {
+      setNodeOutput(event.nodeId, event.output);
+    }
+  };
 
-        response = await fetch(buildHeliusJsonRpcUrl(apiKeyValue, network, gatekeeperEnabled), {
-          method: "POST",
-          headers: {
-            "content-type": "application/json",
-          },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: "1",
-            method: node.method,
-            params,
-          }),
-          signal,
-        });
-      }
+  const restoreAutosave = () => {
+    if (!pendingAutosave) {
+      return;
+    }
+    importWorkflow(pendingAutosave.workflow);
+    if (pendingAutosave.apiKey && !apiKey.trim()) {
+      setApiKey(pendingAutosave.apiKey);
+    }
+    setStatusMessage(`Restored the session autosaved ${new Date(pendingAutosave.savedAt).toLocaleString()}.`);
+    setPendingAutosave(undefined);
+    setIsAutosaveActive(true);
+  };
 
-      const text = await response.text();
-      const parsed = parseRpcResponse(text);
-      setNodeOutput(node.id, parsed);
+  const discardAutosave = () => {
+    clearAutosave();
+    setPendingAutosave(undefined);
+    setIsAutosaveActive(true);
+  };
 
-      if (!response.ok) {
-        const message =
-          typeof parsed === "object" && parsed !== null && "error" in parsed
-            ? String((parsed as { error: unknown }).error)
-            : `Request failed with status ${response.status}`;
-        setNodeStatus(node.id, "error", message);
-        return {
-          success: false,
-          failedNodeId: node.id,
-          failedNodeName: node.name,
-          errorMessage: message,
-        };
-      }
+  const changeAutosaveSettings = (settings: AutosaveSettings) => {
+    writeAutosaveSettings(settings);
+    setAutosaveSettings(settings);
+  };
 
-      if (typeof parsed === "object" && parsed !== null && "error" in parsed) {
-        const rpcError = (parsed as { error?: unknown }).error;
-        const message = typeof rpcError === "string" ? rpcError : JSON.stringify(rpcError);
-        setNodeStatus(node.id, "error", message);
-        return {
-          success: false,
-          failedNodeId: node.id,
-          failedNodeName: node.name,
-          errorMessage: message,
-        };
-      }
+  const openStoredWorkflow = (workflow: WorkflowExport, label: string) => {
+    importWorkflow(workflow);
+    setStatusMessage(`Opened ${label} from the workflow library.`);
+  };
 
-      outputsByNodeId.set(node.id, parsed);
-      setNodeStatus(node.id, "success");
-      return { success: true };
-    } catch (error) {
-      if (isAbortError(error)) {
-        setNodeStatus(node.id, "idle");
-        return {
-          success: false,
-          canceled: true,
-          failedNodeId: node.id,
-          failedNodeName: node.name,
-          errorMessage: "Execution stopped by user.",
-        };
-      }
+  const resolveRunApiKey = (): { apiKey: string } | { errorMessage: string } => {
+    const { credentialName: runCredentialName, apiKey: sessionApiKey } = useWorkflowStore.getState();
+    if (!runCredentialName) {
+      return { apiKey: sessionApiKey };
+    }
 
-      const message = error instanceof Error ? error.message : "Unknown execution error";
-      setNodeStatus(node.id, "error", message);
-      return {
-        success: false,
-        failedNodeId: node.id,
-        failedNodeName: node.name,
-        errorMessage: message,
-      };
+    const credentialApiKey = credentials?.[runCredentialName];
+    if (credentialApiKey !== undefined) {
+      return { apiKey: credentialApiKey };
     }
+    return {
+      errorMessage: credentials
+        ? `Credential "${runCredentialName}" is not in the vault.`
+        : `Unlock the vault to run with credential "${runCredentialName}".`,
+    };
   };
 
-  const runRange = async (startIndex: number, endIndexExclusive: number): Promise<RunRangeResult> => {
-    const state = useWorkflowStore.getState();
-    const orderSnapshot = [...state.order];
-    const boundedEnd = Math.min(endIndexExclusive, orderSnapshot.length);
-    const executionController = new AbortController();
-    activeExecutionAbortControllerRef.current = executionController;
-
-    if (startIndex < 0 || startIndex > boundedEnd) {
-      return {
-        success: false,
-        errorMessage: "Invalid start index for execution.",
-      };
+  const runMatrix = async (targets: MatrixTarget[], signal: AbortSignal): Promise<MatrixColumn[]> => {
+    // Endpoint targets use their own credentials, so the Helius key is only needed for Helius targets.
+    const resolvedApiKey = targets.some((target) => !target.endpoint) ? resolveRunApiKey() : { apiKey: "" };
+    if ("errorMessage" in resolvedApiKey) {
+      throw new Error(resolvedApiKey.errorMessage);
     }
 
-    const dependencyPlan = buildDependencyExecutionOrder(orderSnapshot, state.nodes);
-    if (dependencyPlan.hasCycle) {
-      setStatusMessage("Circular reference detected. Remove cyclic references before running.");
-      return {
-        success: false,
-        errorMessage: "Circular reference detected. Remove cyclic references before running.",
-      };
-    }
+    const workflow = exportWorkflow(false);
+    return runWorkflowMatrix(
+      workflow,
+      targets,
+      { apiKey: resolvedApiKey.apiKey, credentials },
+      {
+        concurrency: executionConcurrency,
+        deadlineMs: runDeadlineSeconds * 1000,
+        variables: Object.fromEntries(
+          Object.entries(variableOverrides).filter(([name]) =>
+            workflow.variables?.some((variable) => variable.name === name),
+          ),
+        ),
+        signal,
+      },
+    );
+  };
 
-    const includedNodeIds = new Set<string>(orderSnapshot.slice(startIndex, boundedEnd));
-    const executionOrder = dependencyPlan.orderedNodeIds.filter((nodeId) => includedNodeIds.has(nodeId));
-    const plannedCallCounts = calculatePlannedCallCounts(executionOrder, state.nodes, includedNodeIds);
-    const initialCallTargets: Record<string, PlannedCallCount> = {};
-    const initialCallCounts: Record<string, number> = {};
-    for (const nodeId of orderSnapshot) {
-      initialCallTargets[nodeId] = plannedCallCounts.get(nodeId) ?? 0;
-      initialCallCounts[nodeId] = 0;
-    }
-    setNodeCallTargets(initialCallTargets);
-    setNodeCallCounts(initialCallCounts);
-
-    const outputsByNodeId = new Map<string, unknown>();
-    for (const nodeId of orderSnapshot) {
-      const output = state.nodes[nodeId]?.output;
-      if (output !== undefined) {
-        outputsByNodeId.set(nodeId, output);
-      }
+  const runRange = async (startIndex: number, endIndexExclusive: number): Promise<WorkflowRunResult> => {
+    // An endpoint profile is sent the key of its own credential, never the Helius key.
+    const resolvedApiKey = selectedEndpoint ? resolveEndpointApiKey(selectedEndpoint, credentials) : resolveRunApiKey();
+    if ("errorMessage" in resolvedApiKey) {
+      setStatusMessage(resolvedApiKey.errorMessage);
+      return { success: false, errorMessage: resolvedApiKey.errorMessage, outputs: {}, handledErrorCount: 0 };
     }
 
-    const skippedNodeIds = new Set<string>();
+    const executionController = new AbortController();
+    activeExecutionAbortControllerRef.current = executionController;
     setStatusMessage("");
     setIsExecuting(true);
 
     try {
-      for (const nodeId of executionOrder) {
-        if (executionController.signal.aborted) {
-          return {
-            success: false,
-            canceled: true,
-            errorMessage: "Execution stopped by user.",
-          };
-        }
-
-        if (skippedNodeIds.has(nodeId)) {
-          continue;
-        }
-
-        const node = useWorkflowStore.getState().nodes[nodeId];
-        if (!node) {
-          continue;
-        }
-
-        if (!node.repeat.enabled) {
-          const singleResult = await executeSingleNode(nodeId, outputsByNodeId, executionController.signal);
-          if (!singleResult.success) {
-            if (singleResult.canceled) {
-              setStatusMessage("Execution stopped.");
-            } else {
-              setStatusMessage(
-                `Execution stopped at ${singleResult.failedNodeName ?? "node"}: ${singleResult.errorMessage ?? "unknown error"}`,
-              );
-            }
-            return singleResult;
-          }
-          continue;
-        }
-
-        const downstreamNodeIds = getReferencedDownstreamNodeIds(
-          executionOrder,
-          useWorkflowStore.getState().nodes,
-          nodeId,
-          includedNodeIds,
-        );
-        const repeatCount = Math.max(1, Math.floor(node.repeat.count));
-        const loopCount = Math.max(0, Math.floor(node.repeat.loopCount));
-        const repeatDelayMs = repeatIntervalToMs(Math.max(0, Math.floor(node.repeat.interval)), node.repeat.unit);
-        let globalIteration = 0;
-
-        for (let cycle = 0; loopCount === 0 || cycle < loopCount; cycle += 1) {
-          for (let iteration = 0; iteration < repeatCount; iteration += 1) {
-            if (globalIteration > 0 && repeatDelayMs > 0) {
-              await sleepWithSignal(repeatDelayMs, executionController.signal);
-            }
-
-            const nodeResult = await executeSingleNode(nodeId, outputsByNodeId, executionController.signal);
-            if (!nodeResult.success) {
-              if (nodeResult.canceled) {
-                setStatusMessage("Execution stopped.");
-              } else {
-                setStatusMessage(
-                  `Execution stopped at ${nodeResult.failedNodeName ?? "node"}: ${nodeResult.errorMessage ?? "unknown error"}`,
-                );
-              }
-              return nodeResult;
-            }
-
-            for (const downstreamNodeId of downstreamNodeIds) {
-              const downstreamResult = await executeSingleNode(downstreamNodeId, outputsByNodeId, executionController.signal);
-              if (!downstreamResult.success) {
-                if (downstreamResult.canceled) {
-                  setStatusMessage("Execution stopped.");
-                } else {
-                  setStatusMessage(
-                    `Execution stopped at ${downstreamResult.failedNodeName ?? "node"}: ${downstreamResult.errorMessage ?? "unknown error"}`,
-                  );
-                }
-                return downstreamResult;
-              }
-            }
-
-            globalIteration += 1;
-          }
-        }
-
-        for (const downstreamNodeId of downstreamNodeIds) {
-          skippedNodeIds.add(downstreamNodeId);
-        }
-      }
-    } catch (error) {
-      if (isAbortError(error)) {
-        return {
-          success: false,
-          canceled: true,
-          errorMessage: "Execution stopped by user.",
-        };
-      }
-      throw error;
+      const workflow = exportWorkflow(true);
+      const recorder = createRunRecorder(
+        workflow,
+        gatekeeperEnabled && !selectedEndpoint ? `${networkLabel} + Gatekeeper` : networkLabel,
+      );
+      const result = await runWorkflow(
+        workflow,
+        {
+          network,
+          apiKey: selectedEndpoint ? "" : resolvedApiKey.apiKey,
+          gatekeeperEnabled: gatekeeperEnabled && !selectedEndpoint,
+          endpoint: selectedEndpoint,
+          endpointApiKey: selectedEndpoint ? resolvedApiKey.apiKey : undefined,
+        },
+        {
+          startIndex,
+          endIndexExclusive,
+          concurrency: executionConcurrency,
+          deadlineMs: runDeadlineSeconds * 1000,
+          // Overrides for variables that were removed or renamed since they were typed are dropped.
+          variables: Object.fromEntries(
+            Object.entries(variableOverrides).filter(([name]) =>
+              workflow.variables?.some((variable) => variable.name === name),
+            ),
+          ),
+          signal: executionController.signal,
+          onEvent: (event) => {
+            recorder.record(event);
+            handleExecutionEvent(event);
+          },
+        },
+      );
+      setStatusMessage(describeRunResult(result));
+      void saveRun(recorder.finish(result))
+        .then(refreshRunHistory)
+        .catch((error: unknown) => {
+          setRunHistoryError(error instanceof Error ? error.message : "Could not save run.");
+        });
+      return result;
     } finally {
       if (activeExecutionAbortControllerRef.current === executionController) {
         activeExecutionAbortControllerRef.current = null;
       }
       setIsExecuting(false);
     }
+  };
+
+  const saveEndpointProfiles = (nextProfiles: RpcEndpointProfile[]) => {
+    writeEndpointProfiles(nextProfiles);
+    setEndpointProfiles(nextProfiles);
+  };
+
+  const runVaultAction = async (action: () => Promise<void>) => {
+    setVaultError(undefined);
+    setIsVaultBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : "Vault operation failed.");
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  const createCredentialVault = (passphrase: string) =>
+    void runVaultAction(async () => {
+      const key = await createVaultKey(passphrase);
+      writeStoredVault(await encryptVault(key, {}));
+      setHasStoredVault(true);
+      setVaultKey(key);
+      setCredentials({});
+    });
+
+  const unlockCredentialVault = (passphrase: string) =>
+    void runVaultAction(async () => {
+      const vault = readStoredVault();
+      if (!vault) {
+        throw new Error("No vault is stored in this browser.");
+      }
+      const unlocked = await unlockVault(vault, passphrase);
+      setVaultKey(unlocked.key);
+      setCredentials(unlocked.credentials);
+    });
+
+  const saveCredentials = (nextCredentials: Credentials) =>
+    void runVaultAction(async () => {
+      if (!vaultKey) {
+        throw new Error("Unlock the vault first.");
+      }
+      writeStoredVault(await encryptVault(vaultKey, nextCredentials));
+      setCredentials(nextCredentials);
+    });
+
+  const lockCredentialVault = () => {
+    setVaultKey(undefined);
+    setCredentials(undefined);
+    setVaultError(undefined);
+  };
 
-    return { success: true };
+  const resetCredentialVault = () => {
+    removeStoredVault();
+    setHasStoredVault(false);
+    lockCredentialVault();
   };
 
   const executeAll = async () => {
@@ -1517,6 +1188,38 @@ export default function HomePage() {
     setNodeCallTargets({});
   };
 
+  const restoreRun = (run: RunRecord) => {
+    restoreNodeResults(
+      run.nodes.map((record) => ({
+        nodeId: record.nodeId,
+        status: record.status,
+        output: record.response,
+        error: record.error,
+      })),
+    );
+    setNodeCallTargets({});
+    setNodeCallCounts(Object.fromEntries(run.nodes.map((record) => [record.nodeId, record.calls])));
+    setStatusMessage(`Restored outputs from the run at ${new Date(run.startedAt).toLocaleString()}.`);
+  };
+
+  const removeRun = async (runId: string) => {
+    try {
+      await deleteRun(runId);
+    } catch (error) {
+      setRunHistoryError(error instanceof Error ? error.message : "Could not delete run.");
+    }
+    await refreshRunHistory();
+  };
+
+  const removeAllRuns = async () => {
+    try {
+      await clearRuns();
+    } catch (error) {
+      setRunHistoryError(error instanceof Error ? error.message : "Could not clear run history.");
+    }
+    await refreshRunHistory();
+  };
+
   const executeFromSelected = async () => {
     if (!selectedNodeId) {
       setStatusMessage("Select a node first.");
@@ -1544,8 +1247,16 @@ export default function HomePage() {
               </label>
               <select
                 id="network-select"
-                value={network}
-                onChange={(event) => setNetwork(event.target.value as RpcNetwork)}
+                value={selectedEndpoint ? `${ENDPOINT_OPTION_PREFIX}${selectedEndpoint.id}` : network}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  if (value.startsWith(ENDPOINT_OPTION_PREFIX)) {
+                    setEndpointProfileId(value.slice(ENDPOINT_OPTION_PREFIX.length));
+                    return;
+                  }
+                  setEndpointProfileId(undefined);
+                  setNetwork(value as RpcNetwork);
+                }}
                 className="h-9 rounded-md border border-border px-2 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
               >
                 <option value="mainnet">Mainnet</option>
@@ -1553,7 +1264,64 @@ export default function HomePage() {
                 <option value="testnet" disabled={gatekeeperEnabled}>
                   Testnet
                 </option>
+                {endpointProfiles.length > 0 ? (
+                  <optgroup label="Custom endpoints">
+                    {endpointProfiles.map((profile) => (
+                      <option key={profile.id} value={`${ENDPOINT_OPTION_PREFIX}${profile.id}`}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
               </select>
+              <QuickTooltip content={showEndpoints ? "Hide endpoints" : "Manage custom endpoints"}>
+                <Button
+                  size="sm"
+                  className={showEndpoints ? "h-9 w-9 p-0 border-primary text-primary" : "h-9 w-9 p-0"}
+                  variant="outline"
+                  onClick={() => setShowEndpoints((value) => !value)}
+                  aria-label={showEndpoints ? "Hide endpoints" : "Manage custom endpoints"}
+                  aria-expanded={showEndpoints}
+                >
+                  <Server className="h-3.5 w-3.5" />
+                </Button>
+              </QuickTooltip>
+              <label
+                htmlFor="concurrency-input"
+                className="ml-2 text-xs font-semibold uppercase tracking-wide text-foreground/65"
+              >
+                Parallel
+              </label>
+              <Input
+                id="concurrency-input"
+                type="number"
+                min={1}
+                max={MAX_EXECUTION_CONCURRENCY}
+                className="h-9 w-16"
+                value={executionConcurrency}
+                disabled={isExecuting}
+                onChange={(event) => setExecutionConcurrency(normalizeExecutionConcurrency(event.target.value))}
+                aria-label="Maximum nodes running at the same time"
+              />
+              <label
+                htmlFor="deadline-input"
+                className="ml-2 text-xs font-semibold uppercase tracking-wide text-foreground/65"
+              >
+                Deadline
+              </label>
+              <Input
+                id="deadline-input"
+                type="number"
+                min={0}
+                className="h-9 w-20"
+                value={runDeadlineSeconds}
+                disabled={isExecuting}
+                onChange={(event) => {
+                  const seconds = Math.floor(Number(event.target.value));
+                  setRunDeadlineSeconds(Number.isFinite(seconds) && seconds > 0 ? seconds : 0);
+                }}
+                aria-label="Run deadline in seconds (0 for none)"
+              />
             </div>
           </div>
         </header>
@@ -1613,7 +1381,12 @@ export default function HomePage() {
                   <ol className="list-inside list-decimal space-y-1">
                     <li>Run a single node with `Run Node` or a sequence with `Run From Here` in node settings.</li>
                     <li>Use the node settings dialog output pane to inspect responses and errors.</li>
-                    <li>Status badges show `idle`, `running`, `success`, or `error` per node.</li>
+                    <li>Status badges show `idle`, `running`, `success`, `error`, or `skipped` per node.</li>
+                    <li>Add a `Condition` node and reference it from later nodes to skip them when the check is false.</li>
+                    <li>Add a `For Each` node over an array output; nodes referencing its `item` run once per element.</li>
+                    <li>Set `On error` in node settings to continue past failures or route them to an `Error Handler` node.</li>
+                    <li>Set a per-node `Timeout` in node settings, or a run `Deadline` in seconds in the header; 0 disables either.</li>
+                    <li>Add a `Transform` node to reshape an output with an expression such as `sum(input, (a) =&gt; a.lamports)`.</li>
                   </ol>
                 </div>
 
@@ -1643,13 +1416,47 @@ export default function HomePage() {
           <div className="flex flex-wrap items-end gap-4">
             <div className="min-w-64 flex-1">
               <label className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-foreground/65"><KeyRound className="mr-1 h-3 w-3 text-primary" />Helius API Key</label>
-              <Input
-                type="password"
-                autoComplete="off"
-                placeholder="Paste API key (session only)"
-                value={apiKey}
-                onChange={(event) => setApiKey(event.target.value)}
-              />
+              <div className="flex gap-2">
+                <select
+                  value={credentialName}
+                  onChange={(event) => setCredentialName(event.target.value)}
+                  className="h-9 w-40 shrink-0 rounded-md border border-border px-2 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+                  aria-label="Credential"
+                >
+                  <option value="">Session key</option>
+                  {Object.keys(credentials ?? {})
+                    .sort((a, b) => a.localeCompare(b))
+                    .map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  {credentialName && !credentials?.[credentialName] ? (
+                    <option value={credentialName}>
+                      {credentialName} ({credentials ? "missing" : "locked"})
+                    </option>
+                  ) : null}
+                </select>
+                {credentialName ? (
+                  <Input
+                    disabled
+                    value=""
+                    placeholder={
+                      credentials?.[credentialName]
+                        ? `Using credential ${credentialName}`
+                        : `Open the vault to use ${credentialName}`
+                    }
+                  />
+                ) : (
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    placeholder="Paste API key (session only)"
+                    value={apiKey}
+                    onChange={(event) => setApiKey(event.target.value)}
+                  />
+                )}
+              </div>
             </div>
 
             <QuickTooltip content="Execute all">
@@ -1702,6 +1509,114 @@ export default function HomePage() {
                 <RotateCcw className="h-3.5 w-3.5" />
               </Button>
             </QuickTooltip>
+            <QuickTooltip content={showCredentials ? "Hide credentials" : "Show credentials vault"}>
+              <Button
+                size="sm"
+                className={showCredentials ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowCredentials((value) => !value)}
+                aria-label={showCredentials ? "Hide credentials" : "Show credentials vault"}
+                aria-expanded={showCredentials}
+              >
+                <Vault className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showVariables ? "Hide variables" : "Show workflow variables"}>
+              <Button
+                size="sm"
+                className={showVariables ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowVariables((value) => !value)}
+                aria-label={showVariables ? "Hide variables" : "Show workflow variables"}
+                aria-expanded={showVariables}
+              >
+                <Variable className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showMatrix ? "Hide matrix run" : "Run across networks side by side"}>
+              <Button
+                size="sm"
+                className={showMatrix ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowMatrix((value) => !value)}
+                aria-label={showMatrix ? "Hide matrix run" : "Run across networks side by side"}
+                aria-expanded={showMatrix}
+              >
+                <Columns3 className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showRunHistory ? "Hide run history" : "Show run history"}>
+              <Button
+                size="sm"
+                className={showRunHistory ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowRunHistory((value) => !value)}
+                aria-label={showRunHistory ? "Hide run history" : "Show run history"}
+                aria-expanded={showRunHistory}
+              >
+                <History className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showRunDiff ? "Hide output comparison" : "Compare outputs between runs"}>
+              <Button
+                size="sm"
+                className={showRunDiff ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowRunDiff((value) => !value)}
+                aria-label={showRunDiff ? "Hide output comparison" : "Compare outputs between runs"}
+                aria-expanded={showRunDiff}
+              >
+                <GitCompare className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showTimeline ? "Hide timeline" : "Show execution timeline"}>
+              <Button
+                size="sm"
+                className={showTimeline ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowTimeline((value) => !value)}
+                aria-label={showTimeline ? "Hide timeline" : "Show execution timeline"}
+                aria-expanded={showTimeline}
+              >
+                <ChartNoAxesGantt className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showBenchmark ? "Hide benchmark" : "Show benchmark of repeat nodes"}>
+              <Button
+                size="sm"
+                className={showBenchmark ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowBenchmark((value) => !value)}
+                aria-label={showBenchmark ? "Hide benchmark" : "Show benchmark of repeat nodes"}
+                aria-expanded={showBenchmark}
+              >
+                <ChartColumn className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showSchedules ? "Hide schedules" : "Schedule server-side runs"}>
+              <Button
+                size="sm"
+                className={showSchedules ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowSchedules((value) => !value)}
+                aria-label={showSchedules ? "Hide schedules" : "Schedule server-side runs"}
+                aria-expanded={showSchedules}
+              >
+                <CalendarClock className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={showLibrary ? "Hide workflow library" : "Show workflow library"}>
+              <Button
+                size="sm"
+                className={showLibrary ? "h-8 w-8 p-0 border-primary text-primary" : "h-8 w-8 p-0"}
+                variant="outline"
+                onClick={() => setShowLibrary((value) => !value)}
+                aria-label={showLibrary ? "Hide workflow library" : "Show workflow library"}
+                aria-expanded={showLibrary}
+              >
+                <Library className="h-3.5 w-3.5" />
+              </Button>
+            </QuickTooltip>
 
             <ImportExport
               includeOutputs={includeOutputsOnExport}
@@ -1712,8 +1627,149 @@ export default function HomePage() {
           </div>
 
           {statusMessage ? <p className="mt-3 text-xs text-foreground/80">{statusMessage}</p> : null}
+          <AutosaveControls
+            pendingSnapshot={pendingAutosave}
+            sharedWorkflowLabel={sharedWorkflowLabel}
+            lastSave={lastAutosave}
+            settings={autosaveSettings}
+            disabled={isExecuting || isLoadingSharedWorkflow}
+            onSettingsChange={changeAutosaveSettings}
+            onRestore={restoreAutosave}
+            onDiscard={discardAutosave}
+          />
         </section>
 
+        {showSchedules ? (
+          <section className="panel-surface rounded-xl p-4">
+            <SchedulesPanel
+              schedule={schedule}
+              disabled={isExecuting}
+              onScheduleChange={setSchedule}
+              getWorkflowExport={() => exportWorkflow(false)}
+            />
+          </section>
+        ) : null}
+
+        {showLibrary ? (
+          <section className="panel-surface rounded-xl p-4">
+            <WorkflowLibraryPanel
+              disabled={isExecuting}
+              getWorkflowExport={() => exportWorkflow(false)}
+              onOpen={openStoredWorkflow}
+            />
+          </section>
+        ) : null}
+
+        {showEndpoints ? (
+          <section className="panel-surface rounded-xl p-4">
+            <EndpointProfilesPanel
+              profiles={endpointProfiles}
+              credentialNames={Object.keys(credentials ?? {}).sort((a, b) => a.localeCompare(b))}
+              disabled={isExecuting}
+              onSave={(profile) =>
+                saveEndpointProfiles(
+                  endpointProfiles.some((candidate) => candidate.id === profile.id)
+                    ? endpointProfiles.map((candidate) => (candidate.id === profile.id ? profile : candidate))
+                    : [...endpointProfiles, profile],
+                )
+              }
+              onDelete={(profileId) => {
+                saveEndpointProfiles(endpointProfiles.filter((profile) => profile.id !== profileId));
+                if (profileId === endpointProfileId) {
+                  setEndpointProfileId(undefined);
+                }
+              }}
+            />
+          </section>
+        ) : null}
+
+        {showCredentials ? (
+          <section className="panel-surface rounded-xl p-4">
+            <CredentialsPanel
+              hasStoredVault={hasStoredVault}
+              credentials={credentials}
+              error={vaultError}
+              busy={isVaultBusy}
+              onCreate={createCredentialVault}
+              onUnlock={unlockCredentialVault}
+              onLock={lockCredentialVault}
+              onReset={resetCredentialVault}
+              onSave={(name, value) => saveCredentials({ ...credentials, [name]: value })}
+              onDelete={(name) => {
+                const nextCredentials = { ...credentials };
+                delete nextCredentials[name];
+                saveCredentials(nextCredentials);
+              }}
+            />
+          </section>
+        ) : null}
+
+        {showVariables ? (
+          <section className="panel-surface rounded-xl p-4">
+            <VariablesPanel
+              variables={variables}
+              overrides={variableOverrides}
+              disabled={isExecuting}
+              onAdd={() => {
+                addVariable();
+              }}
+              onUpdate={updateVariable}
+              onRemove={removeVariable}
+              onOverrideChange={(name, value) => {
+                setVariableOverrides((previous) => {
+                  const next = { ...previous };
+                  if (value === "") {
+                    delete next[name];
+                  } else {
+                    next[name] = value;
+                  }
+                  return next;
+                });
+              }}
+            />
+          </section>
+        ) : null}
+
+        {showMatrix ? (
+          <section className="panel-surface rounded-xl p-4">
+            <MatrixRunPanel nodes={nodeLabels} targets={matrixTargets} disabled={isExecuting} onRun={runMatrix} />
+          </section>
+        ) : null}
+
+        {showRunHistory ? (
+          <section className="panel-surface rounded-xl p-4">
+            <RunHistoryPanel
+              runs={runHistory}
+              error={runHistoryError}
+              disabled={isExecuting}
+              onRestore={restoreRun}
+              onDelete={(runId) => void removeRun(runId)}
+              onClear={() => void removeAllRuns()}
+            />
+          </section>
+        ) : null}
+
+        {showTimeline ? (
+          <section className="panel-surface rounded-xl p-4">
+            <TimelinePanel nodes={nodeLabels} sources={timelineSources} />
+          </section>
+        ) : null}
+
+        {showBenchmark ? (
+          <section className="panel-surface rounded-xl p-4">
+            <BenchmarkPanel nodes={benchmarkNodeLabels} sources={timelineSources} />
+          </section>
+        ) : null}
+
+        {showRunDiff ? (
+          <section className="panel-surface rounded-xl p-4">
+            <RunDiffPanel
+              nodes={nodeLabels}
+              snapshots={outputSnapshots}
+            />
+          </section>
+        ) : null}
+
         <div>
           <div className="flex justify-end gap-2">
             <QuickTooltip
@@ -1728,6 +1784,7 @@ export default function HomePage() {
                 variant="outline"
                 className={gatekeeperEnabled ? "h-8 px-3 border-primary text-primary" : "h-8 px-3 text-foreground/60"}
                 onClick={() => setGatekeeperEnabled((value) => !value)}
+                disabled={Boolean(selectedEndpoint)}
                 aria-label="Toggle Gatekeeper endpoint"
               >
                 {gatekeeperEnabled ? (
@@ -2066,6 +2123,8 @@ export default function HomePage() {
         node={editingNode}
         methodEntry={editingNode ? getMethodEntry(editingNode.method) : undefined}
         sourceNodes={editingNodeSourceNodes}
+        variables={variables}
+        errorHandlerNodes={errorHandlerNodes}
         callCount={editingNode ? (nodeCallCounts[editingNode.id] ?? 0) : 0}
         callTarget={
           editingNode
@@ -2118,6 +2177,24 @@ export default function HomePage() {
           }
           setNodeRepeat(editingNode.id, value);
         }}
+        onRetryChange={(value) => {
+          if (!editingNode) {
+            return;
+          }
+          setNodeRetry(editingNode.id, value);
+        }}
+        onOnErrorChange={(value) => {
+          if (!editingNode) {
+            return;
+          }
+          setNodeOnError(editingNode.id, value);
+        }}
+        onTimeoutChange={(timeoutMs) => {
+          if (!editingNode) {
+            return;
+          }
+          setNodeTimeout(editingNode.id, timeoutMs);
+        }}
       />
     </div>
   );
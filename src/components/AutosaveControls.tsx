@@ -0,0 +1,81 @@
+"use client";
+
+import { History, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { AutosaveResult, AutosaveSettings, AutosaveSnapshot } from "@/lib/workflowAutosave";
+
+interface AutosaveControlsProps {
+  /** A snapshot from an earlier session that has not been restored or discarded yet. */
+  pendingSnapshot?: AutosaveSnapshot;
+  /** The workflow opened from a share link, if any; restoring the snapshot replaces it. */
+  sharedWorkflowLabel?: string;
+  lastSave?: AutosaveResult;
+  settings: AutosaveSettings;
+  disabled: boolean;
+  onSettingsChange: (settings: AutosaveSettings) => void;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export function AutosaveControls({
+  pendingSnapshot,
+  sharedWorkflowLabel,
+  lastSave,
+  settings,
+  disabled,
+  onSettingsChange,
+  onRestore,
+  onDiscard,
+}: AutosaveControlsProps) {
+  if (pendingSnapshot) {
+    const nodeCount = pendingSnapshot.workflow.nodes.length;
+    return (
+      <div className="mt-3 flex flex-wrap items-center gap-2 rounded-md border border-primary/60 px-3 py-2 text-xs">
+        <span className="text-foreground">
+          Restore the previous session? It has {nodeCount} node{nodeCount === 1 ? "" : "s"} and was autosaved{" "}
+          {new Date(pendingSnapshot.savedAt).toLocaleString()}.
+          {sharedWorkflowLabel
+            ? ` Restoring replaces the shared workflow ${sharedWorkflowLabel} that is open now.`
+            : ""}{" "}
+          Changes are not autosaved until you choose.
+        </span>
+        <Button size="sm" className="h-7 px-2" onClick={onRestore} disabled={disabled}>
+          <History className="h-3 w-3" />
+          Restore
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 px-2" onClick={onDiscard}>
+          <Trash2 className="h-3 w-3" />
+          Discard
+        </Button>
+      </div>
+    );
+  }
+
+  const omittedCount = lastSave?.omittedOutputCount ?? 0;
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-foreground/60">
+      <span>
+        {lastSave
+          ? `Autosaved ${new Date(lastSave.savedAt).toLocaleTimeString()} in this browser.`
+          : "Autosave is off: browser storage is full or unavailable."}
+        {omittedCount > 0 ? ` ${omittedCount} output${omittedCount === 1 ? " was" : "s were"} left out.` : ""}
+      </span>
+      <label className="flex items-center gap-1.5 text-foreground/80">
+        <Checkbox
+          checked={settings.includeApiKey}
+          onChange={(event) => onSettingsChange({ ...settings, includeApiKey: event.target.checked })}
+        />
+        Autosave API key (unencrypted)
+      </label>
+      <label className="flex items-center gap-1.5 text-foreground/80">
+        <Checkbox
+          checked={settings.includeLargeOutputs}
+          onChange={(event) => onSettingsChange({ ...settings, includeLargeOutputs: event.target.checked })}
+        />
+        Autosave large outputs
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChartColumn, Download } from "lucide-react";
+
+import type { TimelineSource } from "@/components/TimelinePanel";
+import { Button } from "@/components/ui/button";
+import { buildBenchmarkReport, formatBenchmarkCsv, type NodeBenchmark } from "@/lib/benchmark";
+import { cn } from "@/lib/utils";
+
+interface BenchmarkPanelProps {
+  /** Repeat nodes with benchmark mode on, in display order. */
+  nodes: Array<{ id: string; name: string }>;
+  sources: TimelineSource[];
+}
+
+function formatMs(value: number | undefined): string {
+  if (value === undefined) {
+    return "-";
+  }
+  return value < 1000 ? `${Math.round(value)} ms` : `${(value / 1000).toFixed(2)} s`;
+}
+
+function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function Histogram({ benchmark }: { benchmark: NodeBenchmark }) {
+  const highestCount = Math.max(1, ...benchmark.histogram.map((bucket) => bucket.count));
+  if (benchmark.histogram.length === 0) {
+    return <p className="text-xs text-foreground/60">No successful calls to chart.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-20 items-end gap-px rounded bg-foreground/5 p-1">
+        {benchmark.histogram.map((bucket) => (
+          <div
+            key={bucket.fromMs}
+            className="flex-1 rounded-sm bg-primary/70"
+            style={{ height: `${(bucket.count / highestCount) * 100}%` }}
+            title={`${formatMs(bucket.fromMs)} to ${formatMs(bucket.toMs)}: ${bucket.count} call${bucket.count === 1 ? "" : "s"}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[11px] text-foreground/55">
+        <span>{formatMs(benchmark.histogram[0]?.fromMs)}</span>
+        <span>{formatMs(benchmark.histogram[benchmark.histogram.length - 1]?.toMs)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function BenchmarkPanel({ nodes, sources }: BenchmarkPanelProps) {
+  const [sourceId, setSourceId] = useState<string>();
+  const source = sources.find((candidate) => candidate.id === sourceId) ?? sources[0];
+
+  const report = useMemo(
+    () => (source ? buildBenchmarkReport(source.label, nodes, source.timings) : undefined),
+    [nodes, source],
+  );
+
+  const exportReport = (format: "csv" | "json") => {
+    if (!report) {
+      return;
+    }
+    const fileName = `helius-benchmark-${report.generatedAt.replace(/[:.]/g, "-")}.${format}`;
+    if (format === "csv") {
+      downloadFile(fileName, formatBenchmarkCsv(report), "text/csv");
+    } else {
+      downloadFile(fileName, JSON.stringify(report, null, 2), "application/json");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ChartColumn className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Benchmark</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {sources.length > 1 ? (
+            <select
+              value={source?.id ?? ""}
+              onChange={(event) => setSourceId(event.target.value)}
+              className="h-8 rounded-md border border-border px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+              aria-label="Run to benchmark"
+            >
+              {sources.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.label}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={() => exportReport("csv")}
+            disabled={!report || report.nodes.length === 0}
+          >
+            <Download className="h-3.5 w-3.5" />
+            CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={() => exportReport("json")}
+            disabled={!report || report.nodes.length === 0}
+          >
+            <Download className="h-3.5 w-3.5" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {!report || report.nodes.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          {nodes.length === 0
+            ? "Turn on Benchmark in a repeat node's settings, then run the workflow."
+            : "Run the workflow to benchmark its repeat nodes."}
+        </p>
+      ) : (
+        <div className="grid gap-3 lg:grid-cols-2">
+          {report.nodes.map((benchmark) => (
+            <div key={benchmark.nodeId} className="space-y-2 rounded-md border border-border p-3 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-foreground">{benchmark.nodeName}</span>
+                <span className="text-foreground/60">
+                  {benchmark.calls} calls in {formatMs(benchmark.durationMs)}
+                </span>
+              </div>
+              <dl className="grid grid-cols-4 gap-x-3 gap-y-1">
+                {[
+                  ["p50", formatMs(benchmark.p50Ms)],
+                  ["p90", formatMs(benchmark.p90Ms)],
+                  ["p99", formatMs(benchmark.p99Ms)],
+                  ["max", formatMs(benchmark.maxMs)],
+                  ["min", formatMs(benchmark.minMs)],
+                  ["mean", formatMs(benchmark.meanMs)],
+                  ["errors", `${(benchmark.errorRate * 100).toFixed(1)}%`],
+                  ["req/s", benchmark.throughputPerSecond.toFixed(2)],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-foreground/55">{label}</dt>
+                    <dd
+                      className={cn(
+                        "font-mono text-foreground",
+                        label === "errors" && benchmark.errors > 0 ? "text-error" : "",
+                      )}
+                    >
+                      {value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+              <Histogram benchmark={benchmark} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
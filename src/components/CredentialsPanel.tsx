@@ -0,0 +1,239 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { Lock, LockOpen, Plus, Trash2, Vault } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { CREDENTIAL_NAME_PATTERN, MIN_PASSPHRASE_LENGTH, type Credentials } from "@/lib/secretsVault";
+
+interface CredentialsPanelProps {
+  hasStoredVault: boolean;
+  /** Decrypted credentials, or undefined while the vault is locked. */
+  credentials?: Credentials;
+  error?: string;
+  busy: boolean;
+  onCreate: (passphrase: string) => void;
+  onUnlock: (passphrase: string) => void;
+  onLock: () => void;
+  onReset: () => void;
+  onSave: (name: string, value: string) => void;
+  onDelete: (name: string) => void;
+}
+
+function maskSecret(value: string): string {
+  return value.length <= 8 ? "********" : `${value.slice(0, 4)}...${value.slice(-4)}`;
+}
+
+export function CredentialsPanel({
+  hasStoredVault,
+  credentials,
+  error,
+  busy,
+  onCreate,
+  onUnlock,
+  onLock,
+  onReset,
+  onSave,
+  onDelete,
+}: CredentialsPanelProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [credentialName, setCredentialName] = useState("");
+  const [credentialValue, setCredentialValue] = useState("");
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const submitPassphrase = (event: FormEvent) => {
+    event.preventDefault();
+    setMessage("");
+
+    if (hasStoredVault) {
+      onUnlock(passphrase);
+      setPassphrase("");
+      return;
+    }
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setMessage(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setMessage("The passphrases do not match.");
+      return;
+    }
+    onCreate(passphrase);
+    setPassphrase("");
+    setConfirmation("");
+  };
+
+  const submitCredential = (event: FormEvent) => {
+    event.preventDefault();
+    setMessage("");
+
+    const name = credentialName.trim();
+    if (!CREDENTIAL_NAME_PATTERN.test(name)) {
+      setMessage("Credential names use letters, digits, dots, dashes and underscores (up to 64 characters).");
+      return;
+    }
+    if (!credentialValue.trim()) {
+      setMessage("Enter the API key to store.");
+      return;
+    }
+    onSave(name, credentialValue.trim());
+    setCredentialName("");
+    setCredentialValue("");
+  };
+
+  const names = credentials ? Object.keys(credentials).sort((a, b) => a.localeCompare(b)) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Vault className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Credentials</h2>
+          <span className="text-xs text-foreground/60">
+            {credentials ? `unlocked, ${names.length} stored` : hasStoredVault ? "locked" : "no vault yet"}
+          </span>
+        </div>
+        {credentials ? (
+          <Button size="sm" variant="outline" className="h-8 px-3" onClick={onLock} disabled={busy} aria-label="Lock vault">
+            <Lock className="h-3.5 w-3.5" />
+            Lock
+          </Button>
+        ) : null}
+      </div>
+
+      {error || message ? <p className="text-xs text-error">{message || error}</p> : null}
+
+      {!credentials ? (
+        <form className="flex flex-wrap items-center gap-2" onSubmit={submitPassphrase}>
+          <Input
+            type="password"
+            autoComplete={hasStoredVault ? "current-password" : "new-password"}
+            placeholder="Vault passphrase"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            disabled={busy}
+            className="h-8 w-56 text-xs"
+            aria-label="Vault passphrase"
+          />
+          {hasStoredVault ? null : (
+            <Input
+              type="password"
+              autoComplete="new-password"
+              placeholder="Repeat passphrase"
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.target.value)}
+              disabled={busy}
+              className="h-8 w-56 text-xs"
+              aria-label="Repeat vault passphrase"
+            />
+          )}
+          <Button type="submit" size="sm" className="h-8 px-3" disabled={busy || !passphrase}>
+            <LockOpen className="h-3.5 w-3.5" />
+            {hasStoredVault ? "Unlock" : "Create vault"}
+          </Button>
+          {hasStoredVault ? (
+            isConfirmingReset ? (
+              <>
+                <span className="text-xs text-foreground/70">Delete every stored credential?</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="destructive"
+                  className="h-8 px-3"
+                  onClick={() => {
+                    setIsConfirmingReset(false);
+                    onReset();
+                  }}
+                  disabled={busy}
+                >
+                  Delete vault
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-8 px-3"
+                  onClick={() => setIsConfirmingReset(false)}
+                >
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-8 px-3"
+                onClick={() => setIsConfirmingReset(true)}
+                disabled={busy}
+              >
+                Forgot passphrase
+              </Button>
+            )
+          ) : null}
+        </form>
+      ) : (
+        <>
+          {names.length === 0 ? (
+            <p className="text-xs text-foreground/60">No credentials yet. Add a named API key below.</p>
+          ) : (
+            <ul className="space-y-1">
+              {names.map((name) => (
+                <li key={name} className="flex items-center gap-2 rounded-md border border-border px-3 py-1.5 text-xs">
+                  <span className="font-medium text-foreground">{name}</span>
+                  <span className="flex-1 font-mono text-foreground/60">{maskSecret(credentials[name] ?? "")}</span>
+                  <QuickTooltip content={`Delete ${name}`}>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-7 p-0"
+                      onClick={() => onDelete(name)}
+                      disabled={busy}
+                      aria-label={`Delete credential ${name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </QuickTooltip>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form className="flex flex-wrap items-center gap-2" onSubmit={submitCredential}>
+            <Input
+              placeholder="Name, e.g. prod"
+              value={credentialName}
+              onChange={(event) => setCredentialName(event.target.value)}
+              disabled={busy}
+              className="h-8 w-40 text-xs"
+              aria-label="Credential name"
+            />
+            <Input
+              type="password"
+              autoComplete="off"
+              placeholder="Helius API key"
+              value={credentialValue}
+              onChange={(event) => setCredentialValue(event.target.value)}
+              disabled={busy}
+              className="h-8 min-w-56 flex-1 text-xs"
+              aria-label="Credential value"
+            />
+            <Button type="submit" size="sm" variant="outline" className="h-8 px-3" disabled={busy}>
+              <Plus className="h-3.5 w-3.5" />
+              Save
+            </Button>
+          </form>
+          <p className="text-xs text-foreground/60">
+            Saving an existing name replaces its key. Keys are encrypted with your passphrase before they are stored in
+            this browser.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { Pencil, Plus, Server, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { Textarea } from "@/components/ui/textarea";
+import { endpointProfileSchema, formatHeaderLines, parseHeaderLines } from "@/lib/endpointProfiles";
+import {
+  DEFAULT_HEADER_AUTH_NAME,
+  DEFAULT_QUERY_AUTH_NAME,
+  type RpcAuthStyle,
+  type RpcEndpointProfile,
+} from "@/lib/heliusRpc";
+import { formatZodError } from "@/lib/workflowSchema";
+
+interface EndpointProfilesPanelProps {
+  profiles: RpcEndpointProfile[];
+  /** Names in the unlocked vault; empty while it is locked. */
+  credentialNames: string[];
+  disabled: boolean;
+  onSave: (profile: RpcEndpointProfile) => void;
+  onDelete: (profileId: string) => void;
+}
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  rpcUrl: string;
+  httpBaseUrl: string;
+  credentialName: string;
+  authStyle: RpcAuthStyle;
+  authName: string;
+  authValuePrefix: string;
+  headers: string;
+}
+
+const SELECT_CLASS_NAME =
+  "h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70";
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: "",
+  rpcUrl: "",
+  httpBaseUrl: "",
+  credentialName: "",
+  authStyle: "query",
+  authName: DEFAULT_QUERY_AUTH_NAME,
+  authValuePrefix: "",
+  headers: "",
+};
+
+function toDraft(profile: RpcEndpointProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    rpcUrl: profile.rpcUrl,
+    httpBaseUrl: profile.httpBaseUrl ?? "",
+    credentialName: profile.credentialName ?? "",
+    authStyle: profile.authStyle,
+    authName: profile.authName,
+    authValuePrefix: profile.authValuePrefix ?? "",
+    headers: formatHeaderLines(profile.headers),
+  };
+}
+
+export function EndpointProfilesPanel({
+  profiles,
+  credentialNames,
+  disabled,
+  onSave,
+  onDelete,
+}: EndpointProfilesPanelProps) {
+  const [draft, setDraft] = useState<ProfileDraft>();
+  const [message, setMessage] = useState("");
+
+  const updateDraft = (patch: Partial<ProfileDraft>) => {
+    setDraft((previous) => (previous ? { ...previous, ...patch } : previous));
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft) {
+      return;
+    }
+    setMessage("");
+
+    try {
+      const parsed = endpointProfileSchema.safeParse({
+        id: draft.id ?? crypto.randomUUID(),
+        name: draft.name,
+        rpcUrl: draft.rpcUrl.trim(),
+        httpBaseUrl: draft.httpBaseUrl.trim() || undefined,
+        credentialName: draft.credentialName || undefined,
+        authStyle: draft.authStyle,
+        authName: draft.authName,
+        authValuePrefix: draft.authStyle === "header" && draft.authValuePrefix ? draft.authValuePrefix : undefined,
+        headers: parseHeaderLines(draft.headers),
+      });
+      if (!parsed.success) {
+        setMessage(formatZodError(parsed.error).join("; "));
+        return;
+      }
+      onSave(parsed.data);
+      setDraft(undefined);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Invalid endpoint profile.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Server className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Endpoints</h2>
+          <span className="text-xs text-foreground/60">{profiles.length} custom</span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 px-3"
+          onClick={() => {
+            setMessage("");
+            setDraft(EMPTY_DRAFT);
+          }}
+          disabled={disabled}
+          aria-label="Add endpoint profile"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+
+      {profiles.length === 0 && !draft ? (
+        <p className="text-xs text-foreground/60">
+          Add a profile for a local test validator, a private RPC or a staging proxy. Profiles show up in the Network
+          selector.
+        </p>
+      ) : null}
+
+      <ul className="space-y-1">
+        {profiles.map((profile) => (
+          <li key={profile.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-1.5 text-xs">
+            <span className="font-medium text-foreground">{profile.name}</span>
+            <span className="min-w-0 flex-1 truncate font-mono text-foreground/60">{profile.rpcUrl}</span>
+            <span className="text-foreground/60">
+              {profile.credentialName
+                ? `${profile.credentialName} as ${
+                    profile.authStyle === "query" ? `?${profile.authName}=` : `${profile.authName} header`
+                  }`
+                : "no API key"}
+            </span>
+            <QuickTooltip content={`Edit ${profile.name}`}>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 w-7 p-0"
+                onClick={() => {
+                  setMessage("");
+                  setDraft(toDraft(profile));
+                }}
+                disabled={disabled}
+                aria-label={`Edit endpoint ${profile.name}`}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            </QuickTooltip>
+            <QuickTooltip content={`Delete ${profile.name}`}>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 w-7 p-0"
+                onClick={() => onDelete(profile.id)}
+                disabled={disabled}
+                aria-label={`Delete endpoint ${profile.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </QuickTooltip>
+          </li>
+        ))}
+      </ul>
+
+      {draft ? (
+        <form className="space-y-2 rounded-md border border-border p-3 text-xs" onSubmit={submit}>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Input
+              placeholder="Name, e.g. localnet"
+              value={draft.name}
+              onChange={(event) => updateDraft({ name: event.target.value })}
+              className="h-8 text-xs"
+              aria-label="Endpoint name"
+            />
+            <Input
+              placeholder="JSON-RPC URL, e.g. http://127.0.0.1:8899"
+              value={draft.rpcUrl}
+              onChange={(event) => updateDraft({ rpcUrl: event.target.value })}
+              className="h-8 font-mono text-xs"
+              aria-label="JSON-RPC URL"
+            />
+            <Input
+              placeholder="HTTP API base URL (optional)"
+              value={draft.httpBaseUrl}
+              onChange={(event) => updateDraft({ httpBaseUrl: event.target.value })}
+              className="h-8 font-mono text-xs"
+              aria-label="HTTP API base URL"
+            />
+            <select
+              value={draft.credentialName}
+              onChange={(event) => updateDraft({ credentialName: event.target.value })}
+              className={SELECT_CLASS_NAME}
+              aria-label="Endpoint credential"
+            >
+              <option value="">No API key</option>
+              {credentialNames.map((name) => (
+                <option key={name} value={name}>
+                  API key from credential {name}
+                </option>
+              ))}
+              {draft.credentialName && !credentialNames.includes(draft.credentialName) ? (
+                <option value={draft.credentialName}>
+                  API key from credential {draft.credentialName} (locked or missing)
+                </option>
+              ) : null}
+            </select>
+            <div className="flex gap-2">
+              <select
+                value={draft.authStyle}
+                onChange={(event) => {
+                  const authStyle = event.target.value as RpcAuthStyle;
+                  updateDraft({
+                    authStyle,
+                    authName: authStyle === "query" ? DEFAULT_QUERY_AUTH_NAME : DEFAULT_HEADER_AUTH_NAME,
+                    authValuePrefix: authStyle === "header" ? "Bearer " : "",
+                  });
+                }}
+                className={SELECT_CLASS_NAME}
+                aria-label="Auth style"
+              >
+                <option value="query">Key in query param</option>
+                <option value="header">Key in header</option>
+              </select>
+              <Input
+                placeholder={draft.authStyle === "query" ? "Param name" : "Header name"}
+                value={draft.authName}
+                onChange={(event) => updateDraft({ authName: event.target.value })}
+                className="h-8 font-mono text-xs"
+                aria-label={draft.authStyle === "query" ? "Auth query param name" : "Auth header name"}
+              />
+              {draft.authStyle === "header" ? (
+                <Input
+                  placeholder="Prefix"
+                  value={draft.authValuePrefix}
+                  onChange={(event) => updateDraft({ authValuePrefix: event.target.value })}
+                  className="h-8 w-24 font-mono text-xs"
+                  aria-label="Auth header value prefix"
+                />
+              ) : null}
+            </div>
+          </div>
+          <Textarea
+            placeholder={"Custom headers, one per line\nx-client: dash"}
+            value={draft.headers}
+            onChange={(event) => updateDraft({ headers: event.target.value })}
+            className="min-h-16 font-mono text-xs"
+            aria-label="Custom headers"
+          />
+          <p className="text-foreground/60">
+            The endpoint is only sent the API key of its own credential, never the Helius key, so a local validator
+            needs none. Unlock the vault to pick one. Profiles are saved in this browser, headers included.
+          </p>
+          {message ? <p className="text-error">{message}</p> : null}
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" className="h-8 px-3" disabled={disabled}>
+              {draft.id ? "Save" : "Add endpoint"}
+            </Button>
+            <Button type="button" size="sm" variant="outline" className="h-8 px-3" onClick={() => setDraft(undefined)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
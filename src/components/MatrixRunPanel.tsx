@@ -0,0 +1,217 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Columns3, Play, Square } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getMatrixCellDiffs, type MatrixColumn, type MatrixNodeCell, type MatrixTarget } from "@/lib/matrixRun";
+import { formatPathForDisplay } from "@/lib/path";
+import { describeRunResult } from "@/lib/workflowExecutor";
+import { cn } from "@/lib/utils";
+
+interface MatrixRunPanelProps {
+  /** Workflow nodes in display order; one row each. */
+  nodes: Array<{ id: string; name: string }>;
+  targets: MatrixTarget[];
+  disabled: boolean;
+  onRun: (targets: MatrixTarget[], signal: AbortSignal) => Promise<MatrixColumn[]>;
+}
+
+const DEFAULT_TARGET_IDS = ["mainnet", "devnet"];
+const MAX_DIFF_PATHS_IN_TITLE = 8;
+
+function cellStatusVariant(status: MatrixNodeCell["status"]): "secondary" | "warning" | "success" | "destructive" {
+  if (status === "success") {
+    return "success";
+  }
+  if (status === "error" || status === "timed-out") {
+    return "destructive";
+  }
+  if (status === "running" || status === "skipped") {
+    return "warning";
+  }
+  return "secondary";
+}
+
+function formatLatency(latencyMs: number | undefined): string {
+  if (latencyMs === undefined) {
+    return "-";
+  }
+  return latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(2)} s`;
+}
+
+function previewOutput(output: unknown): string {
+  try {
+    const text = JSON.stringify(output);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  } catch {
+    return String(output);
+  }
+}
+
+export function MatrixRunPanel({ nodes, targets, disabled, onRun }: MatrixRunPanelProps) {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [selectedTargetIds, setSelectedTargetIds] = useState<string[]>(DEFAULT_TARGET_IDS);
+  const [columns, setColumns] = useState<MatrixColumn[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const selectedTargets = targets.filter((target) => selectedTargetIds.includes(target.id));
+
+  const run = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setMessage("");
+
+    try {
+      setColumns(await onRun(selectedTargets, controller.signal));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Matrix run failed.");
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Columns3 className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Matrix Run</h2>
+        </div>
+        {isRunning ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            className="h-8 px-3"
+            onClick={() => controllerRef.current?.abort()}
+            aria-label="Stop matrix run"
+          >
+            <Square className="h-3.5 w-3.5" />
+            Stop
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="h-8 px-3"
+            onClick={() => void run()}
+            disabled={disabled || selectedTargets.length < 2 || nodes.length === 0}
+            aria-label="Run matrix"
+          >
+            <Play className="h-3.5 w-3.5" />
+            Run on {selectedTargets.length} targets
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-foreground/80">
+        {targets.map((target) => (
+          <label key={target.id} className="flex items-center gap-1.5">
+            <Checkbox
+              checked={selectedTargetIds.includes(target.id)}
+              disabled={isRunning}
+              onChange={(event) =>
+                setSelectedTargetIds((previous) =>
+                  event.target.checked ? [...previous, target.id] : previous.filter((id) => id !== target.id),
+                )
+              }
+            />
+            {target.label}
+          </label>
+        ))}
+      </div>
+
+      {message ? <p className="text-xs text-error">{message}</p> : null}
+      {columns.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          Pick at least two targets. The workflow runs on each of them, two at a time, and each node&apos;s result is
+          shown per target, with outputs that differ from the first column highlighted. Alert nodes show the payload
+          they would send but send nothing.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-foreground/60">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Node</th>
+                {columns.map((column) => (
+                  <th key={column.target.id} className="min-w-40 py-1 pr-3 font-medium">
+                    <div className="text-foreground">{column.target.label}</div>
+                    <div className={cn("font-normal", column.result.success ? "text-success" : "text-error")}>
+                      {column.result.success ? "completed" : describeRunResult(column.result)}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {nodes.map((node) => {
+                const diffs = getMatrixCellDiffs(columns, node.id);
+                const latencies = columns
+                  .map((column) => column.cells[node.id]?.latencyMs)
+                  .filter((latency): latency is number => latency !== undefined);
+                const fastestLatency = latencies.length > 1 ? Math.min(...latencies) : undefined;
+
+                return (
+                  <tr key={node.id} className="border-t border-border/60 align-top">
+                    <td className="py-1.5 pr-3 font-medium text-foreground">{node.name}</td>
+                    {columns.map((column, index) => {
+                      const cell = column.cells[node.id];
+                      const diff = diffs[index];
+                      if (!cell) {
+                        return (
+                          <td key={column.target.id} className="py-1.5 pr-3 text-foreground/50">
+                            not run
+                          </td>
+                        );
+                      }
+
+                      return (
+                        <td
+                          key={column.target.id}
+                          className={cn("py-1.5 pr-3", diff && diff.length > 0 ? "bg-warning/10" : "")}
+                        >
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            <Badge variant={cellStatusVariant(cell.status)}>{cell.status}</Badge>
+                            <span
+                              className={cn(
+                                "font-mono",
+                                cell.latencyMs !== undefined && cell.latencyMs === fastestLatency ? "text-success" : "",
+                              )}
+                            >
+                              {formatLatency(cell.latencyMs)}
+                            </span>
+                            {cell.calls > 1 ? <span className="text-foreground/60">{cell.calls} calls</span> : null}
+                          </div>
+                          {cell.error ? <p className="mt-1 text-error">{cell.error}</p> : null}
+                          {diff && diff.length > 0 ? (
+                            <p
+                              className="mt-1 text-warning"
+                              title={diff
+                                .slice(0, MAX_DIFF_PATHS_IN_TITLE)
+                                .map((entry) => formatPathForDisplay(entry.path))
+                                .join("\n")}
+                            >
+                              {diff.length} difference{diff.length === 1 ? "" : "s"}
+                            </p>
+                          ) : null}
+                          {cell.output !== undefined ? (
+                            <p className="mt-1 break-all font-mono text-foreground/60">{previewOutput(cell.output)}</p>
+                          ) : null}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { QuickTooltip } from "@/components/ui/quick-tooltip";
 import type { MethodRegistryEntry } from "@/lib/methodRegistry";
-import type { ParamValue } from "@/lib/workflowSchema";
+import type { ParamValue, WorkflowVariable } from "@/lib/workflowSchema";
 import type { NodeRepeat, WorkflowNode } from "@/store/workflowStore";
 import { cn } from "@/lib/utils";
 
@@ -20,6 +20,7 @@ interface NodeCardProps {
   selected: boolean;
   methodEntry?: MethodRegistryEntry;
   sourceNodes: Array<{ id: string; name: string; output?: unknown }>;
+  variables: WorkflowVariable[];
   onSelect: () => void;
   onRename: (name: string) => void;
   onRunNode: () => void;
@@ -43,7 +44,7 @@ function statusVariant(status: WorkflowNode["status"]): "secondary" | "warning"
   if (status === "success") {
     return "success";
   }
-  if (status === "error") {
+  if (status === "error" || status === "timed-out") {
     return "destructive";
   }
   return "secondary";
@@ -66,6 +67,7 @@ export function NodeCard({
   selected,
   methodEntry,
   sourceNodes,
+  variables,
   onSelect,
   onRename,
   onRunNode,
@@ -214,6 +216,13 @@ export function NodeCard({
             <span className="rounded border border-border bg-background/50 px-2 py-0.5 font-mono text-[11px] text-foreground/75">
               {callCount} / {callTarget === null ? "-" : callTarget}
             </span>
+            {node.retryAttempt ? (
+              <QuickTooltip content="Retry attempt for the latest call">
+                <Badge variant="warning">
+                  attempt {node.retryAttempt.attempt} / {node.retryAttempt.maxAttempts}
+                </Badge>
+              </QuickTooltip>
+            ) : null}
             <Badge variant={statusVariant(node.status)}>{node.status}</Badge>
             <QuickTooltip content="Delete this node">
               <Button
@@ -267,6 +276,7 @@ export function NodeCard({
                     node={node}
                     methodEntry={methodEntry}
                     sourceNodes={sourceNodes}
+                    variables={variables}
                     onParamChange={onParamChange}
                     onRawParamsChange={onRawParamsChange}
                   />
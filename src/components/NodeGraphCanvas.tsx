@@ -11,6 +11,7 @@ import { cn } from "@/lib/utils";
 const NODE_WIDTH = 330;
 const NODE_HEIGHT = 168;
 const EDGE_COLORS = ["#ff5f57", "#58d26b", "#ffd60a", "#3a9dff", "#ff8a3d", "#b18cff", "#00c2b8"];
+const ERROR_EDGE_COLOR = "#ff5f57";
 
 export interface NodeGraphConnection {
   id: string;
@@ -18,6 +19,8 @@ export interface NodeGraphConnection {
   toNodeId: string;
   paramName: string;
   path: string;
+  /** `error` edges route a node's failure to an Error Handler node and are drawn dashed. */
+  kind: "reference" | "error";
 }
 
 interface NodeGraphCanvasProps {
@@ -68,6 +71,9 @@ function statusClass(status: WorkflowNode["status"]): string {
   if (status === "error") {
     return "bg-error";
   }
+  if (status === "timed-out") {
+    return "bg-error/55";
+  }
   return "bg-foreground/45";
 }
 
@@ -307,12 +313,16 @@ export function NodeGraphCanvas({
             const endY = target.position.y + NODE_HEIGHT / 2 + connectorOffset(incomingIndex, Math.max(1, incoming.length));
             const controlDistance = Math.max(70, Math.abs(endX - startX) * 0.4);
             const pathD = `M ${startX} ${startY} C ${startX + controlDistance} ${startY}, ${endX - controlDistance} ${endY}, ${endX} ${endY}`;
-            const color = EDGE_COLORS[index % EDGE_COLORS.length];
+            const isErrorEdge = connection.kind === "error";
+            const color = isErrorEdge ? ERROR_EDGE_COLOR : EDGE_COLORS[index % EDGE_COLORS.length];
+            const edgeLabel = isErrorEdge
+              ? "on error -> error handler"
+              : `output.${connection.path} -> ${connection.paramName}`;
 
             return (
               <g key={connection.id}>
                 <path d={pathD} stroke="transparent" strokeWidth={14} fill="none">
-                  <title>{`output.${connection.path} -> ${connection.paramName}`}</title>
+                  <title>{edgeLabel}</title>
                 </path>
                 <path
                   d={pathD}
@@ -328,12 +338,19 @@ export function NodeGraphCanvas({
                     setHoveredEdgeTooltip({
                       x: event.clientX - rect.left + 12,
                       y: event.clientY - rect.top + 12,
-                      text: `output.${connection.path} -> ${connection.paramName}`,
+                      text: edgeLabel,
                     });
                   }}
                   onMouseLeave={() => setHoveredEdgeTooltip(null)}
                 />
-                <path d={pathD} stroke={color} strokeWidth={2.3} fill="none" opacity={0.92} />
+                <path
+                  d={pathD}
+                  stroke={color}
+                  strokeWidth={2.3}
+                  strokeDasharray={isErrorEdge ? "7 5" : undefined}
+                  fill="none"
+                  opacity={0.92}
+                />
               </g>
             );
           })}
@@ -395,6 +412,11 @@ export function NodeGraphCanvas({
                       {callCount} / {target === null ? "-" : target}
                     </span>
                     <p className="mt-1 text-[11px] text-foreground/50">#{executionOrder ?? "-"}</p>
+                    {node.retryAttempt ? (
+                      <p className="text-[11px] text-warning">
+                        attempt {node.retryAttempt.attempt}/{node.retryAttempt.maxAttempts}
+                      </p>
+                    ) : null}
                   </div>
                 </div>
 
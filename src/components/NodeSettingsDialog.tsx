@@ -8,15 +8,18 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { ERROR_HANDLER_METHOD } from "@/lib/customNodes";
 import type { MethodRegistryEntry } from "@/lib/methodRegistry";
-import type { ParamValue } from "@/lib/workflowSchema";
-import type { NodeRepeat, WorkflowNode } from "@/store/workflowStore";
+import type { ParamValue, WorkflowVariable } from "@/lib/workflowSchema";
+import type { NodeOnError, NodeRepeat, NodeRetry, WorkflowNode } from "@/store/workflowStore";
 
 interface NodeSettingsDialogProps {
   open: boolean;
   node?: WorkflowNode;
   methodEntry?: MethodRegistryEntry;
   sourceNodes: Array<{ id: string; name: string; output?: unknown }>;
+  variables: WorkflowVariable[];
+  errorHandlerNodes: Array<{ id: string; name: string }>;
   callCount: number;
   callTarget: number | null;
   onClose: () => void;
@@ -27,6 +30,9 @@ interface NodeSettingsDialogProps {
   onParamChange: (paramName: string, value: ParamValue) => void;
   onRawParamsChange: (raw: string) => void;
   onRepeatChange: (value: Partial<NodeRepeat>) => void;
+  onRetryChange: (value: Partial<NodeRetry>) => void;
+  onOnErrorChange: (value: NodeOnError) => void;
+  onTimeoutChange: (timeoutMs: number) => void;
 }
 
 function statusVariant(status: WorkflowNode["status"]): "secondary" | "warning" | "success" | "destructive" {
@@ -36,12 +42,33 @@ function statusVariant(status: WorkflowNode["status"]): "secondary" | "warning"
   if (status === "success") {
     return "success";
   }
-  if (status === "error") {
+  if (status === "error" || status === "timed-out") {
     return "destructive";
   }
   return "secondary";
 }
 
+function parseCodeList(raw: string): number[] {
+  return raw
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((code) => Number(code))
+    .filter((code) => Number.isInteger(code));
+}
+
+const HANDLER_OPTION_PREFIX = "handler:";
+
+function toOnErrorOptionValue(onError: NodeOnError): string {
+  return onError.mode === "handler" ? `${HANDLER_OPTION_PREFIX}${onError.handlerNodeId}` : onError.mode;
+}
+
+function fromOnErrorOptionValue(value: string): NodeOnError {
+  if (value.startsWith(HANDLER_OPTION_PREFIX)) {
+    return { mode: "handler", handlerNodeId: value.slice(HANDLER_OPTION_PREFIX.length) };
+  }
+  return value === "continue" ? { mode: "continue" } : { mode: "stop" };
+}
+
 function stringifyOutput(output: unknown): string {
   if (typeof output === "string") {
     return output;
@@ -59,6 +86,8 @@ export function NodeSettingsDialog({
   node,
   methodEntry,
   sourceNodes,
+  variables,
+  errorHandlerNodes,
   callCount,
   callTarget,
   onClose,
@@ -69,6 +98,9 @@ export function NodeSettingsDialog({
   onParamChange,
   onRawParamsChange,
   onRepeatChange,
+  onRetryChange,
+  onOnErrorChange,
+  onTimeoutChange,
 }: NodeSettingsDialogProps) {
   const outputText =
     node?.output === undefined
@@ -100,6 +132,11 @@ export function NodeSettingsDialog({
             <span className="rounded border border-border bg-background/50 px-2 py-0.5 font-mono text-[11px] text-foreground/75">
               {callCount} / {callTarget === null ? "-" : callTarget}
             </span>
+            {node.retryAttempt ? (
+              <Badge variant="warning">
+                attempt {node.retryAttempt.attempt} / {node.retryAttempt.maxAttempts}
+              </Badge>
+            ) : null}
           </div>
 
           <div className="flex items-center gap-2">
@@ -182,9 +219,167 @@ export function NodeSettingsDialog({
                 />
                 <span>times (0 for infinite)</span>
               </label>
+
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={node.repeat.benchmark}
+                  onChange={(event) => onRepeatChange({ benchmark: event.target.checked })}
+                  disabled={!node.repeat.enabled}
+                  aria-label="Benchmark repeated calls"
+                />
+                <span>Benchmark (keep repeating after failed calls, without retries)</span>
+              </label>
             </div>
           </div>
 
+          <div className="mb-4 rounded-md border border-border bg-background/55 p-3">
+            <div className="mb-2 flex items-center gap-2 text-xs text-foreground/85">
+              <Checkbox
+                checked={node.retry.enabled}
+                onChange={(event) => onRetryChange({ enabled: event.target.checked })}
+                aria-label="Enable retry on transient failures"
+              />
+              <span>Retry on transient failures</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-foreground/80">
+              <label className="flex items-center gap-2">
+                <span>Up to</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={1}
+                  value={node.retry.maxAttempts}
+                  onChange={(event) => onRetryChange({ maxAttempts: Number(event.target.value) })}
+                  disabled={!node.retry.enabled}
+                  className="h-8 w-16 text-xs"
+                  aria-label="Maximum attempts"
+                />
+                <span>attempts,</span>
+              </label>
+
+              <label className="flex items-center gap-2">
+                <select
+                  value={node.retry.backoff}
+                  onChange={(event) => onRetryChange({ backoff: event.target.value as NodeRetry["backoff"] })}
+                  disabled={!node.retry.enabled}
+                  className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+                  aria-label="Backoff strategy"
+                >
+                  <option value="exponential">exponential backoff with jitter</option>
+                  <option value="fixed">fixed delay</option>
+                </select>
+                <span>from</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={node.retry.delayMs}
+                  onChange={(event) => onRetryChange({ delayMs: Number(event.target.value) })}
+                  disabled={!node.retry.enabled}
+                  className="h-8 w-20 text-xs"
+                  aria-label="Retry delay in milliseconds"
+                />
+                <span>ms</span>
+              </label>
+
+              {node.retry.backoff === "exponential" ? (
+                <label className="flex items-center gap-2">
+                  <span>capped at</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={node.retry.maxDelayMs}
+                    onChange={(event) => onRetryChange({ maxDelayMs: Number(event.target.value) })}
+                    disabled={!node.retry.enabled}
+                    className="h-8 w-24 text-xs"
+                    aria-label="Maximum retry delay in milliseconds"
+                  />
+                  <span>ms</span>
+                </label>
+              ) : null}
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-foreground/80">
+              <label className="flex items-center gap-2">
+                <span>HTTP status</span>
+                <Input
+                  key={`${node.id}-http-${node.retry.retryOnHttpStatus.join(",")}`}
+                  defaultValue={node.retry.retryOnHttpStatus.join(", ")}
+                  onBlur={(event) => onRetryChange({ retryOnHttpStatus: parseCodeList(event.target.value) })}
+                  disabled={!node.retry.enabled}
+                  className="h-8 w-44 text-xs"
+                  aria-label="Retryable HTTP status codes"
+                />
+              </label>
+
+              <label className="flex items-center gap-2">
+                <span>JSON-RPC codes</span>
+                <Input
+                  key={`${node.id}-rpc-${node.retry.retryOnRpcCodes.join(",")}`}
+                  defaultValue={node.retry.retryOnRpcCodes.join(", ")}
+                  onBlur={(event) => onRetryChange({ retryOnRpcCodes: parseCodeList(event.target.value) })}
+                  disabled={!node.retry.enabled}
+                  className="h-8 w-36 text-xs"
+                  aria-label="Retryable JSON-RPC error codes"
+                />
+              </label>
+
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={node.retry.retryOnNetworkError}
+                  onChange={(event) => onRetryChange({ retryOnNetworkError: event.target.checked })}
+                  disabled={!node.retry.enabled}
+                  aria-label="Retry on network errors"
+                />
+                <span>network errors</span>
+              </label>
+            </div>
+
+            <p className="mt-2 text-xs text-foreground/60">A Retry-After header from the server overrides the delay.</p>
+          </div>
+
+          {node.method !== ERROR_HANDLER_METHOD ? (
+            <div className="mb-4 flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/55 p-3 text-xs text-foreground/80">
+              <label htmlFor="node-on-error" className="text-foreground/85">
+                On error
+              </label>
+              <select
+                id="node-on-error"
+                value={toOnErrorOptionValue(node.onError)}
+                onChange={(event) => onOnErrorChange(fromOnErrorOptionValue(event.target.value))}
+                className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+              >
+                <option value="stop">Stop the run</option>
+                <option value="continue">Continue and skip dependent nodes</option>
+                {errorHandlerNodes.map((handlerNode) => (
+                  <option key={handlerNode.id} value={`${HANDLER_OPTION_PREFIX}${handlerNode.id}`}>
+                    Route to {handlerNode.name}
+                  </option>
+                ))}
+              </select>
+              {errorHandlerNodes.length === 0 ? (
+                <span className="text-foreground/60">Add an Error Handler node to route failures to it.</span>
+              ) : null}
+
+              <label className="ml-auto flex items-center gap-2">
+                <span>Timeout</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={node.timeoutMs}
+                  onChange={(event) => onTimeoutChange(Number(event.target.value))}
+                  className="h-8 w-24 text-xs"
+                  aria-label="Request timeout in milliseconds"
+                />
+                <span>ms (0 for none)</span>
+              </label>
+            </div>
+          ) : null}
+
           <div className="grid gap-4 md:grid-cols-2">
             <div className="flex h-[520px] flex-col rounded-md border border-border bg-background/60 p-3">
               <p className="text-xs font-semibold uppercase tracking-wide text-foreground/65">Input</p>
@@ -198,6 +393,7 @@ export function NodeSettingsDialog({
                   node={node}
                   methodEntry={methodEntry}
                   sourceNodes={sourceNodes}
+                  variables={variables}
                   onParamChange={onParamChange}
                   onRawParamsChange={onRawParamsChange}
                 />
@@ -5,14 +5,17 @@ import { useMemo } from "react";
 import { JsonPathPicker } from "@/components/JsonPathPicker";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { ALERT_FORMATS, CONDITION_OPERATORS, TRANSFORM_METHOD } from "@/lib/customNodes";
 import type { MethodRegistryEntry } from "@/lib/methodRegistry";
-import type { ParamValue } from "@/lib/workflowSchema";
+import { findTemplatePlaceholders } from "@/lib/workflowParams";
+import type { ParamValue, WorkflowVariable } from "@/lib/workflowSchema";
 import type { WorkflowNode } from "@/store/workflowStore";
 
 interface ParamEditorProps {
   node: WorkflowNode;
   methodEntry?: MethodRegistryEntry;
   sourceNodes: Array<{ id: string; name: string; output?: unknown }>;
+  variables: WorkflowVariable[];
   onParamChange: (paramName: string, value: ParamValue) => void;
   onRawParamsChange: (raw: string) => void;
 }
@@ -22,6 +25,8 @@ const CUSTOM_LITERAL_OPTION = "__custom__";
 const PREDEFINED_LITERAL_OPTIONS: Record<string, string[]> = {
   commitment: ["processed", "confirmed", "finalized"],
   encoding: ["base58", "base64", "base64+zstd", "jsonParsed", "json"],
+  operator: [...CONDITION_OPERATORS],
+  format: [...ALERT_FORMATS],
 };
 
 function getPresetOptions(fieldName: string): string[] | undefined {
@@ -68,10 +73,46 @@ function parseLiteralInput(raw: string): unknown {
   }
 }
 
+// Node references are checked when the run starts, once it is known which nodes run before this one.
+function getPlaceholderProblems(value: unknown, variables: WorkflowVariable[]): string[] {
+  return findTemplatePlaceholders(value).flatMap((placeholder) => {
+    if (placeholder.kind === "invalid") {
+      return [`${placeholder.text} is not a valid placeholder. Use \${vars.name} or \${nodes.<nodeId>.path}.`];
+    }
+    if (placeholder.kind === "var" && !variables.some((variable) => variable.name === placeholder.name)) {
+      return [`${placeholder.text} uses unknown variable ${placeholder.name}.`];
+    }
+    return [];
+  });
+}
+
+function parseRawParamsForPlaceholders(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function PlaceholderProblems({ problems }: { problems: string[] }) {
+  if (problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs text-error">
+      {problems.map((problem) => (
+        <li key={problem}>{problem}</li>
+      ))}
+    </ul>
+  );
+}
+
 export function ParamEditor({
   node,
   methodEntry,
   sourceNodes,
+  variables,
   onParamChange,
   onRawParamsChange,
 }: ParamEditorProps) {
@@ -95,6 +136,9 @@ export function ParamEditor({
           placeholder='{"id":"assetMintAddress"}'
         />
         <p className="text-xs text-foreground/65">Unknown schema: enter params as valid JSON (object or array).</p>
+        <PlaceholderProblems
+          problems={getPlaceholderProblems(parseRawParamsForPlaceholders(node.rawParamsJson), variables)}
+        />
       </div>
     );
   }
@@ -107,8 +151,11 @@ export function ParamEditor({
           value: { type: "literal", value: null } as ParamValue,
         };
         const isBooleanField = field.type?.toLowerCase() === "boolean";
+        // Expressions such as `"a" + b` or `[1, 2]` are also valid JSON, so keep the raw text.
+        const isExpressionField = node.method === TRANSFORM_METHOD && field.name === "expression";
         const presetOptions = getPresetOptions(field.name);
         const literalValue = param.value.type === "literal" ? param.value.value : null;
+        const variableName = param.value.type === "var" ? param.value.name : "";
         const isPresetLiteral =
           presetOptions &&
           typeof literalValue === "string" &&
@@ -148,6 +195,18 @@ export function ParamEditor({
                     return;
                   }
 
+                  if (event.target.value === "var") {
+                    const variable = variables[0];
+                    if (!variable) {
+                      return;
+                    }
+                    onParamChange(field.name, {
+                      type: "var",
+                      name: variable.name,
+                    });
+                    return;
+                  }
+
                   onParamChange(field.name, {
                     type: "literal",
                     value: null,
@@ -158,6 +217,9 @@ export function ParamEditor({
                 <option value="ref" disabled={sourceNodes.length === 0}>
                   Reference
                 </option>
+                <option value="var" disabled={variables.length === 0}>
+                  Variable
+                </option>
               </select>
             </div>
 
@@ -246,26 +308,55 @@ export function ParamEditor({
                     onChange={(event) => {
                       onParamChange(field.name, {
                         type: "literal",
-                        value: parseLiteralInput(event.target.value),
+                        value: isExpressionField ? event.target.value : parseLiteralInput(event.target.value),
                       });
                     }}
-                    placeholder="JSON value or plain text"
+                    placeholder={isExpressionField ? "Expression, e.g. input.result.value" : "JSON value or plain text"}
                   />
                 ) : null}
+
+                {isExpressionField ? null : (
+                  <PlaceholderProblems problems={getPlaceholderProblems(literalValue, variables)} />
+                )}
               </div>
-            ) : (
-              <JsonPathPicker
-                sourceNodes={sourceNodes}
-                selectedNodeId={param.value.nodeId}
-                selectedPath={param.value.path}
-                onChange={(value) => {
+            ) : param.value.type === "var" ? (
+              <select
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+                value={param.value.name}
+                onChange={(event) => {
                   onParamChange(field.name, {
-                    type: "ref",
-                    nodeId: value.nodeId,
-                    path: value.path,
+                    type: "var",
+                    name: event.target.value,
                   });
                 }}
-              />
+              >
+                {variables.some((variable) => variable.name === variableName) ? null : (
+                  <option value={variableName}>{variableName} (missing)</option>
+                )}
+                {variables.map((variable) => (
+                  <option key={`${field.name}-${variable.name}`} value={variable.name}>
+                    {variable.name} ({variable.type})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div className="space-y-1">
+                <JsonPathPicker
+                  sourceNodes={sourceNodes}
+                  selectedNodeId={param.value.nodeId}
+                  selectedPath={param.value.path}
+                  onChange={(value) => {
+                    onParamChange(field.name, {
+                      type: "ref",
+                      nodeId: value.nodeId,
+                      path: value.path,
+                    });
+                  }}
+                />
+                <p className="break-all text-xs text-foreground/65">
+                  In a literal: <code className="font-mono">{`\${nodes.${param.value.nodeId}.${param.value.path}}`}</code>
+                </p>
+              </div>
             )}
 
             {field.description ? <p className="text-xs text-foreground/65">{field.description}</p> : null}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { FileDown, GitCompare } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import {
+  diffNodeOutputs,
+  getNumericDeltas,
+  isLamportsPath,
+  type OutputDiffEntry,
+  type OutputDiffKind,
+} from "@/lib/outputDiff";
+import { formatPathForDisplay } from "@/lib/path";
+import { formatZodError, parseWorkflowImport } from "@/lib/workflowSchema";
+import { cn } from "@/lib/utils";
+
+export interface OutputSnapshot {
+  id: string;
+  label: string;
+  /** Output per node id. */
+  outputs: Record<string, unknown>;
+}
+
+interface RunDiffPanelProps {
+  /** Workflow nodes in display order; outputs are aligned by node id. */
+  nodes: Array<{ id: string; name: string }>;
+  snapshots: OutputSnapshot[];
+}
+
+const MAX_ENTRIES_PER_NODE = 200;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const KIND_CLASS_NAMES: Record<OutputDiffKind, string> = {
+  added: "text-success",
+  removed: "text-error",
+  changed: "text-warning",
+};
+
+const KIND_PREFIXES: Record<OutputDiffKind, string> = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "(none)";
+  }
+
+  try {
+    const text = JSON.stringify(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+  } catch {
+    return String(value);
+  }
+}
+
+function formatDelta(path: string, delta: number): string {
+  const sign = delta > 0 ? "+" : "";
+  const formatted = `${sign}${delta.toLocaleString()}`;
+  if (!isLamportsPath(path)) {
+    return formatted;
+  }
+  return `${formatted} (${sign}${(delta / LAMPORTS_PER_SOL).toLocaleString(undefined, { maximumFractionDigits: 9 })} SOL)`;
+}
+
+function describeEntry(entry: OutputDiffEntry): string {
+  if (entry.kind === "added") {
+    return formatValue(entry.after);
+  }
+  if (entry.kind === "removed") {
+    return formatValue(entry.before);
+  }
+  return `${formatValue(entry.before)} -> ${formatValue(entry.after)}`;
+}
+
+export function RunDiffPanel({ nodes, snapshots }: RunDiffPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importedSnapshots, setImportedSnapshots] = useState<OutputSnapshot[]>([]);
+  const [beforeId, setBeforeId] = useState<string>();
+  const [afterId, setAfterId] = useState<string>();
+  const [message, setMessage] = useState("");
+
+  const allSnapshots = useMemo(() => [...snapshots, ...importedSnapshots], [snapshots, importedSnapshots]);
+  const beforeSnapshot = allSnapshots.find((snapshot) => snapshot.id === beforeId) ?? allSnapshots[1];
+  const afterSnapshot = allSnapshots.find((snapshot) => snapshot.id === afterId) ?? allSnapshots[0];
+  const nodeNamesById = useMemo(() => new Map(nodes.map((node) => [node.id, node.name])), [nodes]);
+
+  const diffs = useMemo(() => {
+    if (!beforeSnapshot || !afterSnapshot || beforeSnapshot.id === afterSnapshot.id) {
+      return [];
+    }
+    return diffNodeOutputs(
+      nodes.map((node) => node.id),
+      beforeSnapshot.outputs,
+      afterSnapshot.outputs,
+    );
+  }, [nodes, beforeSnapshot, afterSnapshot]);
+
+  const loadExport = async (file: File) => {
+    setMessage("");
+
+    try {
+      const parsed = parseWorkflowImport(JSON.parse(await file.text()) as unknown);
+      if (!parsed.success) {
+        setMessage(`Load failed: ${formatZodError(parsed.error).join("; ")}`);
+        return;
+      }
+
+      const outputs: Record<string, unknown> = {};
+      for (const node of parsed.data.nodes) {
+        if (node.output !== undefined) {
+          outputs[node.id] = node.output;
+        }
+      }
+      if (Object.keys(outputs).length === 0) {
+        setMessage("Load failed: the export has no outputs. Export with \"Include outputs in export\" checked.");
+        return;
+      }
+
+      const snapshot = { id: `import-${crypto.randomUUID()}`, label: `Import: ${file.name}`, outputs };
+      setImportedSnapshots((previous) => [...previous, snapshot]);
+      setBeforeId(snapshot.id);
+    } catch (error) {
+      setMessage(`Load failed: ${error instanceof Error ? error.message : "Unknown import error"}`);
+    }
+  };
+
+  const renderSnapshotSelect = (
+    label: string,
+    value: string | undefined,
+    onChange: (snapshotId: string) => void,
+  ) => (
+    <label className="flex min-w-56 flex-1 flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-foreground/65">
+      {label}
+      <select
+        value={value ?? ""}
+        onChange={(event) => onChange(event.target.value)}
+        className="h-9 rounded-md border border-border px-2 text-sm font-normal normal-case tracking-normal text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+      >
+        {allSnapshots.map((snapshot) => (
+          <option key={snapshot.id} value={snapshot.id}>
+            {snapshot.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Compare Outputs</h2>
+        </div>
+        <QuickTooltip content="Load an export that includes outputs">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={() => fileInputRef.current?.click()}
+            aria-label="Load export to compare"
+          >
+            <FileDown className="h-3.5 w-3.5" />
+            Load export
+          </Button>
+        </QuickTooltip>
+        <input
+          ref={fileInputRef}
+          hidden
+          accept="application/json"
+          type="file"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              void loadExport(file);
+            }
+            event.currentTarget.value = "";
+          }}
+        />
+      </div>
+
+      {message ? <p className="text-xs text-error">{message}</p> : null}
+
+      {allSnapshots.length < 2 ? (
+        <p className="text-xs text-foreground/60">Run the workflow or load an export with outputs to have two sides to compare.</p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {renderSnapshotSelect("Before", beforeSnapshot?.id, setBeforeId)}
+          {renderSnapshotSelect("After", afterSnapshot?.id, setAfterId)}
+        </div>
+      )}
+
+      {allSnapshots.length >= 2 && diffs.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          {beforeSnapshot?.id === afterSnapshot?.id ? "Pick two different sides." : "No differences."}
+        </p>
+      ) : null}
+
+      <ul className="space-y-2">
+        {diffs.map((diff) => {
+          const numericDeltas = getNumericDeltas(diff.entries);
+          const counts = { added: 0, removed: 0, changed: 0 };
+          for (const entry of diff.entries) {
+            counts[entry.kind] += 1;
+          }
+
+          return (
+            <li key={diff.nodeId} className="space-y-2 rounded-md border border-border px-3 py-2 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-foreground">{nodeNamesById.get(diff.nodeId) ?? diff.nodeId}</span>
+                {diff.presence === "only-before" ? <Badge variant="destructive">missing after</Badge> : null}
+                {diff.presence === "only-after" ? <Badge variant="success">new output</Badge> : null}
+                <span className="text-success">+{counts.added}</span>
+                <span className="text-error">-{counts.removed}</span>
+                <span className="text-warning">~{counts.changed}</span>
+              </div>
+
+              {numericDeltas.length > 0 ? (
+                <table className="w-full text-left">
+                  <thead className="text-foreground/60">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Numeric field</th>
+                      <th className="py-1 pr-2 font-medium">Before</th>
+                      <th className="py-1 pr-2 font-medium">After</th>
+                      <th className="py-1 font-medium">Delta</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {numericDeltas.map((entry) => (
+                      <tr key={entry.path} className="border-t border-border/60">
+                        <td className="py-1 pr-2 font-mono">{formatPathForDisplay(entry.path)}</td>
+                        <td className="py-1 pr-2 font-mono">{String(entry.before)}</td>
+                        <td className="py-1 pr-2 font-mono">{String(entry.after)}</td>
+                        <td
+                          className={cn(
+                            "py-1 font-mono",
+                            entry.numericDelta > 0 ? "text-success" : entry.numericDelta < 0 ? "text-error" : "",
+                          )}
+                        >
+                          {formatDelta(entry.path, entry.numericDelta)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : null}
+
+              <details>
+                <summary className="cursor-pointer text-foreground/70">
+                  {diff.entries.length} change{diff.entries.length === 1 ? "" : "s"}
+                </summary>
+                <ul className="mt-1 max-h-72 space-y-0.5 overflow-auto font-mono">
+                  {diff.entries.slice(0, MAX_ENTRIES_PER_NODE).map((entry) => (
+                    <li key={`${entry.kind}:${entry.path}`} className={KIND_CLASS_NAMES[entry.kind]}>
+                      {KIND_PREFIXES[entry.kind]} {formatPathForDisplay(entry.path)}: {describeEntry(entry)}
+                    </li>
+                  ))}
+                  {diff.entries.length > MAX_ENTRIES_PER_NODE ? (
+                    <li className="text-foreground/60">
+                      {diff.entries.length - MAX_ENTRIES_PER_NODE} more not shown
+                    </li>
+                  ) : null}
+                </ul>
+              </details>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, History, RotateCcw, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { getRunNodeDurationMs, type RunNodeRecord, type RunRecord } from "@/lib/runHistory";
+import { cn } from "@/lib/utils";
+
+interface RunHistoryPanelProps {
+  runs: RunRecord[];
+  error?: string;
+  disabled: boolean;
+  onRestore: (run: RunRecord) => void;
+  onDelete: (runId: string) => void;
+  onClear: () => void;
+}
+
+function runStatusLabel(run: RunRecord): { label: string; variant: "success" | "warning" | "destructive" } {
+  if (run.success) {
+    return run.handledErrorCount > 0
+      ? { label: `success, ${run.handledErrorCount} handled`, variant: "warning" }
+      : { label: "success", variant: "success" };
+  }
+  if (run.timedOut) {
+    return { label: "deadline", variant: "destructive" };
+  }
+  if (run.canceled) {
+    return { label: "stopped", variant: "warning" };
+  }
+  return { label: "failed", variant: "destructive" };
+}
+
+function nodeStatusVariant(status: RunNodeRecord["status"]): "secondary" | "warning" | "success" | "destructive" {
+  if (status === "running") {
+    return "warning";
+  }
+  if (status === "success") {
+    return "success";
+  }
+  if (status === "error" || status === "timed-out") {
+    return "destructive";
+  }
+  return "secondary";
+}
+
+function formatDuration(durationMs: number | undefined): string {
+  if (durationMs === undefined) {
+    return "-";
+  }
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(2)} s`;
+}
+
+function stringifyPayload(payload: unknown): string {
+  if (payload === undefined) {
+    return "(none)";
+  }
+  if (typeof payload === "string") {
+    return payload;
+  }
+
+  try {
+    return JSON.stringify(payload, null, 2);
+  } catch {
+    return String(payload);
+  }
+}
+
+export function RunHistoryPanel({ runs, error, disabled, onRestore, onDelete, onClear }: RunHistoryPanelProps) {
+  const [expandedRunId, setExpandedRunId] = useState<string>();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Run History</h2>
+          <span className="text-xs text-foreground/60">{runs.length} stored</span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 px-3"
+          onClick={onClear}
+          disabled={disabled || runs.length === 0}
+          aria-label="Clear run history"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Clear
+        </Button>
+      </div>
+
+      {error ? <p className="text-xs text-error">{error}</p> : null}
+      {runs.length === 0 && !error ? (
+        <p className="text-xs text-foreground/60">Runs are recorded here each time you execute the workflow.</p>
+      ) : null}
+
+      <ul className="space-y-2">
+        {runs.map((run) => {
+          const status = runStatusLabel(run);
+          const isExpanded = expandedRunId === run.id;
+
+          return (
+            <li key={run.id} className="rounded-md border border-border">
+              <div className="flex flex-wrap items-center gap-2 px-3 py-2 text-xs">
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 text-left"
+                  onClick={() => setExpandedRunId(isExpanded ? undefined : run.id)}
+                  aria-expanded={isExpanded}
+                >
+                  <ChevronDown className={cn("h-3 w-3 transition-transform", isExpanded ? "rotate-180" : "")} />
+                  <span className="font-medium text-foreground">{new Date(run.startedAt).toLocaleString()}</span>
+                  <span className="text-foreground/60">{run.network}</span>
+                  <span className="text-foreground/60">{formatDuration(run.endedAt - run.startedAt)}</span>
+                  <span className="text-foreground/60">{run.nodes.length} nodes</span>
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                </button>
+                <QuickTooltip content="Restore this run's outputs">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => onRestore(run)}
+                    disabled={disabled}
+                    aria-label="Restore run outputs"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+                <QuickTooltip content="Delete this run">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => onDelete(run.id)}
+                    disabled={disabled}
+                    aria-label="Delete run"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+              </div>
+
+              {isExpanded ? (
+                <div className="space-y-2 border-t border-border px-3 py-2">
+                  {run.errorMessage ? <p className="text-xs text-error">{run.errorMessage}</p> : null}
+                  {run.nodes.map((record) => (
+                    <details key={record.nodeId} className="rounded-md bg-foreground/5 px-2 py-1 text-xs">
+                      <summary className="flex cursor-pointer flex-wrap items-center gap-2">
+                        <span className="font-medium text-foreground">{record.nodeName}</span>
+                        <span className="text-foreground/60">{record.method}</span>
+                        <Badge variant={nodeStatusVariant(record.status)}>{record.status}</Badge>
+                        <span className="text-foreground/60">
+                          {record.calls} call{record.calls === 1 ? "" : "s"}
+                        </span>
+                        <span className="text-foreground/60">{formatDuration(getRunNodeDurationMs(record))}</span>
+                        {record.error ? <span className="truncate text-error">{record.error}</span> : null}
+                      </summary>
+                      <div className="mt-2 grid gap-2 md:grid-cols-2">
+                        <div>
+                          <p className="mb-1 font-semibold text-foreground/70">Request</p>
+                          <pre className="max-h-64 overflow-auto rounded bg-background p-2">
+                            {stringifyPayload(record.request)}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="mb-1 font-semibold text-foreground/70">Response</p>
+                          <pre className="max-h-64 overflow-auto rounded bg-background p-2">
+                            {stringifyPayload(record.response)}
+                          </pre>
+                        </div>
+                      </div>
+                    </details>
+                  ))}
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
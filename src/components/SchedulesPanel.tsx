@@ -0,0 +1,397 @@
+"use client";
+
+import { type FormEvent, useCallback, useEffect, useState } from "react";
+import { CalendarClock, ChevronDown, ChevronRight, RefreshCw, Trash2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { readJsonResponse } from "@/lib/apiResponse";
+import { getNextScheduledRunAt } from "@/lib/cron";
+import type { ScheduledRunRecord, ScheduleSummary } from "@/lib/scheduleStore";
+import {
+  formatZodError,
+  workflowScheduleSchema,
+  type WorkflowExport,
+  type WorkflowSchedule,
+} from "@/lib/workflowSchema";
+
+interface SchedulesPanelProps {
+  /** The schedule stored in the current workflow. */
+  schedule?: WorkflowSchedule;
+  disabled: boolean;
+  onScheduleChange: (schedule: WorkflowSchedule) => void;
+  getWorkflowExport: () => WorkflowExport;
+}
+
+interface ScheduleDraft {
+  name: string;
+  enabled: boolean;
+  mode: WorkflowSchedule["mode"];
+  cron: string;
+  intervalMinutes: string;
+  network: WorkflowSchedule["network"];
+  gatekeeperEnabled: boolean;
+}
+
+// The schedule write routes check CRON_SECRET; it is kept for the browser session only.
+const SESSION_STORAGE_CRON_SECRET = "helius-flow:cron-secret";
+
+const SELECT_CLASS_NAME =
+  "h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70";
+
+function toDraft(schedule?: WorkflowSchedule): ScheduleDraft {
+  return {
+    name: schedule?.name ?? "",
+    enabled: schedule?.enabled ?? true,
+    mode: schedule?.mode ?? "cron",
+    cron: schedule?.cron ?? "*/15 * * * *",
+    intervalMinutes: String(schedule?.intervalMinutes ?? 60),
+    network: schedule?.network ?? "mainnet",
+    gatekeeperEnabled: schedule?.gatekeeperEnabled ?? false,
+  };
+}
+
+function describeSchedule(schedule: WorkflowSchedule): string {
+  const target = `${schedule.network}${schedule.gatekeeperEnabled ? " + Gatekeeper" : ""}`;
+  const when =
+    schedule.mode === "cron"
+      ? `cron ${schedule.cron} (UTC)`
+      : `every ${schedule.intervalMinutes} minute${schedule.intervalMinutes === 1 ? "" : "s"}`;
+  return `${when} on ${target}`;
+}
+
+function formatTime(value: string | undefined): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export function SchedulesPanel({ schedule, disabled, onScheduleChange, getWorkflowExport }: SchedulesPanelProps) {
+  const [draft, setDraft] = useState<ScheduleDraft>(() => toDraft(schedule));
+  const [schedules, setSchedules] = useState<ScheduleSummary[]>([]);
+  const [expandedId, setExpandedId] = useState<string>();
+  const [runs, setRuns] = useState<ScheduledRunRecord[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [cronSecret, setCronSecret] = useState("");
+
+  const updateDraft = (patch: Partial<ScheduleDraft>) => setDraft((previous) => ({ ...previous, ...patch }));
+
+  const runRequest = useCallback(async (request: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage("");
+    try {
+      await request();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Schedule request failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => {
+    if (!cronSecret) {
+      setSchedules([]);
+      return Promise.resolve();
+    }
+    return runRequest(async () => {
+      const data = await readJsonResponse<{ schedules: ScheduleSummary[] }>(
+        await fetch("/api/schedules", { headers: { Authorization: `Bearer ${cronSecret}` } }),
+      );
+      setSchedules(data.schedules);
+    });
+  }, [runRequest, cronSecret]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    setCronSecret(window.sessionStorage.getItem(SESSION_STORAGE_CRON_SECRET) ?? "");
+  }, []);
+
+  const changeCronSecret = (value: string) => {
+    setCronSecret(value);
+    if (value) {
+      window.sessionStorage.setItem(SESSION_STORAGE_CRON_SECRET, value);
+    } else {
+      window.sessionStorage.removeItem(SESSION_STORAGE_CRON_SECRET);
+    }
+  };
+
+  const authorizationHeaders = { Authorization: `Bearer ${cronSecret}` };
+
+  useEffect(() => {
+    setDraft(toDraft(schedule));
+  }, [schedule]);
+
+  const parsedDraft = workflowScheduleSchema.safeParse({
+    name: draft.name,
+    enabled: draft.enabled,
+    mode: draft.mode,
+    cron: draft.mode === "cron" ? draft.cron : undefined,
+    intervalMinutes: draft.mode === "interval" ? Number(draft.intervalMinutes) : undefined,
+    network: draft.network,
+    gatekeeperEnabled: draft.gatekeeperEnabled,
+  });
+  const nextRunAt = parsedDraft.success ? getNextScheduledRunAt(parsedDraft.data, new Date()) : undefined;
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!parsedDraft.success) {
+      setMessage(formatZodError(parsedDraft.error).join("; "));
+      return;
+    }
+
+    const nextSchedule = parsedDraft.data;
+    onScheduleChange(nextSchedule);
+    void runRequest(async () => {
+      await readJsonResponse(
+        await fetch("/api/schedules", {
+          method: "POST",
+          headers: { ...authorizationHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ workflowExport: { ...getWorkflowExport(), schedule: nextSchedule } }),
+        }),
+      );
+      const data = await readJsonResponse<{ schedules: ScheduleSummary[] }>(
+        await fetch("/api/schedules", { headers: authorizationHeaders }),
+      );
+      setSchedules(data.schedules);
+    });
+  };
+
+  const setEnabled = (id: string, enabled: boolean) =>
+    runRequest(async () => {
+      const data = await readJsonResponse<{ schedule: ScheduleSummary }>(
+        await fetch(`/api/schedules/${id}`, {
+          method: "PATCH",
+          headers: { ...authorizationHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ enabled }),
+        }),
+      );
+      setSchedules((previous) => previous.map((candidate) => (candidate.id === id ? data.schedule : candidate)));
+    });
+
+  const deleteSchedule = (id: string) =>
+    runRequest(async () => {
+      await readJsonResponse(await fetch(`/api/schedules/${id}`, { method: "DELETE", headers: authorizationHeaders }));
+      setSchedules((previous) => previous.filter((candidate) => candidate.id !== id));
+    });
+
+  const toggleRuns = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(undefined);
+      return;
+    }
+    setExpandedId(id);
+    setRuns([]);
+    void runRequest(async () => {
+      const data = await readJsonResponse<{ schedule: { runs: ScheduledRunRecord[] } }>(
+        await fetch(`/api/schedules/${id}`, { headers: authorizationHeaders }),
+      );
+      setRuns(data.schedule.runs);
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Schedules</h2>
+          <span className="text-xs text-foreground/60">{schedules.length} on the server</span>
+        </div>
+        <QuickTooltip content="Reload schedules">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 w-8 p-0"
+            onClick={() => void refresh()}
+            disabled={isBusy}
+            aria-label="Reload schedules"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+        </QuickTooltip>
+      </div>
+
+      <form className="space-y-2 rounded-md border border-border p-3 text-xs" onSubmit={submit}>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Schedule name, e.g. wallet-health"
+            value={draft.name}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+            className="h-8 w-56 text-xs"
+            aria-label="Schedule name"
+          />
+          <select
+            value={draft.mode}
+            onChange={(event) => updateDraft({ mode: event.target.value as ScheduleDraft["mode"] })}
+            className={SELECT_CLASS_NAME}
+            aria-label="Schedule type"
+          >
+            <option value="cron">Cron (UTC)</option>
+            <option value="interval">Fixed interval</option>
+          </select>
+          {draft.mode === "cron" ? (
+            <Input
+              placeholder="*/15 * * * *"
+              value={draft.cron}
+              onChange={(event) => updateDraft({ cron: event.target.value })}
+              className="h-8 w-40 font-mono text-xs"
+              aria-label="Cron expression"
+            />
+          ) : (
+            <label className="flex items-center gap-2 text-foreground/80">
+              <span>every</span>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={draft.intervalMinutes}
+                onChange={(event) => updateDraft({ intervalMinutes: event.target.value })}
+                className="h-8 w-20 text-xs"
+                aria-label="Interval in minutes"
+              />
+              <span>minutes</span>
+            </label>
+          )}
+          <select
+            value={draft.network}
+            onChange={(event) => updateDraft({ network: event.target.value as ScheduleDraft["network"] })}
+            className={SELECT_CLASS_NAME}
+            aria-label="Schedule network"
+          >
+            <option value="mainnet">mainnet</option>
+            <option value="devnet">devnet</option>
+            <option value="testnet">testnet</option>
+          </select>
+          <label className="flex items-center gap-1.5 text-foreground/80">
+            <Checkbox
+              checked={draft.gatekeeperEnabled}
+              onChange={(event) => updateDraft({ gatekeeperEnabled: event.target.checked })}
+            />
+            Gatekeeper
+          </label>
+          <label className="flex items-center gap-1.5 text-foreground/80">
+            <Checkbox checked={draft.enabled} onChange={(event) => updateDraft({ enabled: event.target.checked })} />
+            Enabled
+          </label>
+          <Button type="submit" size="sm" className="h-8 px-3" disabled={disabled || isBusy}>
+            <Upload className="h-3.5 w-3.5" />
+            Save schedule
+          </Button>
+        </div>
+        <Input
+          type="password"
+          autoComplete="off"
+          placeholder="CRON_SECRET (session only), needed to list, save, toggle or delete schedules"
+          value={cronSecret}
+          onChange={(event) => changeCronSecret(event.target.value)}
+          className="h-8 max-w-md text-xs"
+          aria-label="Schedule secret"
+        />
+        <p className="text-foreground/60">
+          {parsedDraft.success
+            ? nextRunAt
+              ? `Next run ${nextRunAt.toLocaleString()}.`
+              : "Disabled; the server will not run it."
+            : formatZodError(parsedDraft.error).join("; ")}{" "}
+          Saving uploads the current workflow and stores the schedule in its export. A schedule with the same name is
+          replaced.
+        </p>
+      </form>
+
+      {message ? <p className="text-xs text-error">{message}</p> : null}
+
+      {schedules.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          {cronSecret ? "No schedules on the server yet." : "Enter CRON_SECRET above to list the schedules."}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {schedules.map((summary) => (
+            <li key={summary.id} className="rounded-md border border-border px-3 py-1.5 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 font-medium text-foreground"
+                  onClick={() => toggleRuns(summary.id)}
+                  aria-expanded={expandedId === summary.id}
+                >
+                  {expandedId === summary.id ? (
+                    <ChevronDown className="h-3 w-3" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3" />
+                  )}
+                  {summary.schedule.name}
+                </button>
+                <span className="min-w-0 flex-1 truncate text-foreground/60">{describeSchedule(summary.schedule)}</span>
+                <span className="text-foreground/60">
+                  Next: {summary.schedule.enabled ? formatTime(summary.nextRunAt) : "disabled"}
+                </span>
+                {summary.lastRun ? (
+                  <Badge
+                    variant={summary.lastRun.success ? "success" : "destructive"}
+                    title={summary.lastRun.errorMessage ?? `Ran ${formatTime(summary.lastRun.startedAt)}`}
+                  >
+                    {summary.lastRun.success ? "passed" : "failed"} {formatTime(summary.lastRun.startedAt)}
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">not run yet</Badge>
+                )}
+                <label className="flex items-center gap-1.5 text-foreground/80">
+                  <Checkbox
+                    checked={summary.schedule.enabled}
+                    disabled={isBusy}
+                    onChange={(event) => void setEnabled(summary.id, event.target.checked)}
+                    aria-label={`Enable schedule ${summary.schedule.name}`}
+                  />
+                  On
+                </label>
+                <QuickTooltip content={`Delete ${summary.schedule.name}`}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => void deleteSchedule(summary.id)}
+                    disabled={isBusy}
+                    aria-label={`Delete schedule ${summary.schedule.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+              </div>
+
+              {expandedId === summary.id ? (
+                runs.length === 0 ? (
+                  <p className="mt-1 text-foreground/60">{isBusy ? "Loading runs..." : "No runs recorded yet."}</p>
+                ) : (
+                  <ul className="mt-1 space-y-1 border-t border-border/60 pt-1">
+                    {runs.map((run) => (
+                      <li key={run.id} className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono text-foreground/70">{formatTime(run.startedAt)}</span>
+                        <span className={run.success ? "text-success" : "text-error"}>
+                          {run.success
+                            ? run.handledErrorCount > 0
+                              ? `passed with ${run.handledErrorCount} handled error(s)`
+                              : "passed"
+                            : (run.errorMessage ?? "failed")}
+                        </span>
+                        <span className="text-foreground/60">
+                          {run.nodes.filter((node) => node.status === "success").length}/{run.nodes.length} nodes
+                          succeeded
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
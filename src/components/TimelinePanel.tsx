@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChartNoAxesGantt } from "lucide-react";
+
+import type { NodeCallOutcome, NodeCallTiming } from "@/lib/workflowExecutor";
+import { cn } from "@/lib/utils";
+
+export interface TimelineSource {
+  id: string;
+  label: string;
+  timings: NodeCallTiming[];
+}
+
+interface TimelinePanelProps {
+  /** Workflow nodes in display order; rows follow this order. */
+  nodes: Array<{ id: string; name: string }>;
+  sources: TimelineSource[];
+}
+
+const AXIS_TICK_COUNT = 5;
+
+const OUTCOME_CLASS_NAMES: Record<NodeCallOutcome, string> = {
+  success: "bg-success/75",
+  error: "bg-error",
+  "timed-out": "bg-error/55",
+  canceled: "bg-foreground/35",
+};
+
+function formatElapsed(durationMs: number): string {
+  return durationMs < 1000 ? `${Math.round(durationMs)} ms` : `${(durationMs / 1000).toFixed(2)} s`;
+}
+
+function describeTiming(nodeName: string, timing: NodeCallTiming): string {
+  const parts = [`${nodeName}: ${formatElapsed(timing.endedAt - timing.startedAt)}`, timing.outcome];
+  if (timing.httpStatus !== undefined) {
+    parts.push(`HTTP ${timing.httpStatus}`);
+  }
+  if (timing.cycle !== undefined && timing.iteration !== undefined) {
+    parts.push(`cycle ${timing.cycle + 1}, iteration ${timing.iteration + 1}`);
+  }
+  if (timing.attempts !== undefined && timing.attempts > 1) {
+    parts.push(`${timing.attempts} attempts`);
+  }
+  if (timing.batched) {
+    parts.push("batched");
+  }
+  return parts.join(" | ");
+}
+
+export function TimelinePanel({ nodes, sources }: TimelinePanelProps) {
+  const [sourceId, setSourceId] = useState<string>();
+  const source = sources.find((candidate) => candidate.id === sourceId) ?? sources[0];
+
+  const timeline = useMemo(() => {
+    const timings = source?.timings ?? [];
+    if (timings.length === 0) {
+      return undefined;
+    }
+
+    const startedAt = Math.min(...timings.map((timing) => timing.startedAt));
+    const endedAt = Math.max(...timings.map((timing) => timing.endedAt));
+    const timingsByNodeId = new Map<string, NodeCallTiming[]>();
+    for (const timing of timings) {
+      const nodeTimings = timingsByNodeId.get(timing.nodeId) ?? [];
+      nodeTimings.push(timing);
+      timingsByNodeId.set(timing.nodeId, nodeTimings);
+    }
+
+    return {
+      startedAt,
+      // Keep a non-zero span so a run of instant custom nodes still renders.
+      spanMs: Math.max(1, endedAt - startedAt),
+      rows: nodes
+        .filter((node) => timingsByNodeId.has(node.id))
+        .map((node) => ({ node, timings: timingsByNodeId.get(node.id) ?? [] })),
+    };
+  }, [nodes, source]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ChartNoAxesGantt className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Timeline</h2>
+          {timeline ? (
+            <span className="text-xs text-foreground/60">
+              {source?.timings.length} calls in {formatElapsed(timeline.spanMs)}
+            </span>
+          ) : null}
+        </div>
+        {sources.length > 1 ? (
+          <select
+            value={source?.id ?? ""}
+            onChange={(event) => setSourceId(event.target.value)}
+            className="h-8 rounded-md border border-border px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+            aria-label="Run to show on the timeline"
+          >
+            {sources.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+
+      {!timeline ? (
+        <p className="text-xs text-foreground/60">Run the workflow to see when each node call started and how long it took.</p>
+      ) : (
+        <div className="space-y-1 text-xs">
+          <div className="flex">
+            <div className="w-40 shrink-0" />
+            <div className="relative h-4 flex-1 text-foreground/55">
+              {Array.from({ length: AXIS_TICK_COUNT }, (_, index) => {
+                const ratio = index / (AXIS_TICK_COUNT - 1);
+                return (
+                  <span
+                    key={index}
+                    className={cn("absolute top-0", index === AXIS_TICK_COUNT - 1 ? "-translate-x-full" : index > 0 ? "-translate-x-1/2" : "")}
+                    style={{ left: `${ratio * 100}%` }}
+                  >
+                    {formatElapsed(ratio * timeline.spanMs)}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+
+          {timeline.rows.map(({ node, timings }) => (
+            <div key={node.id} className="flex items-center">
+              <div className="w-40 shrink-0 truncate pr-2 text-foreground/80" title={node.name}>
+                {node.name}
+              </div>
+              <div className="relative h-5 flex-1 rounded bg-foreground/5">
+                {timings.map((timing, index) => (
+                  <div
+                    key={`${timing.startedAt}:${index}`}
+                    className={cn("absolute top-0.5 bottom-0.5 rounded-sm", OUTCOME_CLASS_NAMES[timing.outcome])}
+                    style={{
+                      left: `${((timing.startedAt - timeline.startedAt) / timeline.spanMs) * 100}%`,
+                      width: `max(${((timing.endedAt - timing.startedAt) / timeline.spanMs) * 100}%, 2px)`,
+                    }}
+                    title={describeTiming(node.name, timing)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, Variable } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import {
+  VARIABLE_NAME_PATTERN,
+  WORKFLOW_VARIABLE_TYPES,
+  type WorkflowVariable,
+  type WorkflowVariableType,
+} from "@/lib/workflowSchema";
+import { coerceVariableValue } from "@/lib/workflowVariables";
+
+interface VariablesPanelProps {
+  variables: WorkflowVariable[];
+  /** Run-time values typed by the user, keyed by variable name. Empty values fall back to the default. */
+  overrides: Record<string, string>;
+  disabled: boolean;
+  onAdd: () => void;
+  onUpdate: (name: string, patch: Partial<WorkflowVariable>) => void;
+  onRemove: (name: string) => void;
+  onOverrideChange: (name: string, value: string) => void;
+}
+
+function formatDefault(variable: WorkflowVariable): string {
+  if (variable.default === undefined) {
+    return "";
+  }
+  if (typeof variable.default === "string") {
+    return variable.default;
+  }
+  return JSON.stringify(variable.default);
+}
+
+function parseDefault(variable: WorkflowVariable, text: string): unknown {
+  if (text === "" && variable.type !== "string") {
+    return undefined;
+  }
+  return coerceVariableValue(variable, text);
+}
+
+export function VariablesPanel({
+  variables,
+  overrides,
+  disabled,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onOverrideChange,
+}: VariablesPanelProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const setError = (name: string, message?: string) => {
+    setErrors((previous) => {
+      const next = { ...previous };
+      if (message) {
+        next[name] = message;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  };
+
+  const rename = (variable: WorkflowVariable, nextName: string) => {
+    if (nextName === variable.name) {
+      setError(variable.name);
+      return;
+    }
+    if (!VARIABLE_NAME_PATTERN.test(nextName)) {
+      setError(variable.name, "Names use letters, digits and underscores and cannot start with a digit.");
+      return;
+    }
+    if (variables.some((candidate) => candidate.name === nextName)) {
+      setError(variable.name, `A variable named ${nextName} already exists.`);
+      return;
+    }
+
+    setError(variable.name);
+    onUpdate(variable.name, { name: nextName });
+    const override = overrides[variable.name];
+    if (override) {
+      onOverrideChange(variable.name, "");
+      onOverrideChange(nextName, override);
+    }
+  };
+
+  const changeType = (variable: WorkflowVariable, type: WorkflowVariableType) => {
+    let nextDefault: unknown;
+    try {
+      nextDefault = coerceVariableValue({ ...variable, type }, variable.default);
+    } catch {
+      // The old default does not fit the new type; leave the variable without one.
+      nextDefault = undefined;
+    }
+    setError(variable.name);
+    onUpdate(variable.name, { type, default: nextDefault });
+  };
+
+  const changeDefault = (variable: WorkflowVariable, text: string) => {
+    try {
+      onUpdate(variable.name, { default: parseDefault(variable, text) });
+      setError(variable.name);
+    } catch (error) {
+      setError(variable.name, error instanceof Error ? error.message : "Invalid default value.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Variable className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Variables</h2>
+        </div>
+        <QuickTooltip content="Add a workflow variable">
+          <Button size="sm" variant="outline" className="h-8 px-3" onClick={onAdd} disabled={disabled} aria-label="Add variable">
+            <Plus className="h-3.5 w-3.5" />
+            Add
+          </Button>
+        </QuickTooltip>
+      </div>
+
+      {variables.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          Variables are workflow inputs. Bind a param to one with the Variable mode, then set its value per run here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {variables.map((variable) => (
+            <li key={variable.name} className="space-y-2 rounded-md border border-border px-3 py-2 text-xs">
+              <div className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_7rem_minmax(0,1fr)_minmax(0,1fr)_auto]">
+                <Input
+                  defaultValue={variable.name}
+                  onBlur={(event) => rename(variable, event.target.value.trim())}
+                  disabled={disabled}
+                  aria-label="Variable name"
+                  className="h-8 font-mono text-xs"
+                />
+                <select
+                  value={variable.type}
+                  onChange={(event) => changeType(variable, event.target.value as WorkflowVariableType)}
+                  disabled={disabled}
+                  aria-label={`Type of ${variable.name}`}
+                  className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/70"
+                >
+                  {WORKFLOW_VARIABLE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  key={`${variable.type}:${formatDefault(variable)}`}
+                  defaultValue={formatDefault(variable)}
+                  onBlur={(event) => changeDefault(variable, event.target.value)}
+                  disabled={disabled}
+                  placeholder="Default"
+                  aria-label={`Default of ${variable.name}`}
+                  className="h-8 font-mono text-xs"
+                />
+                <Input
+                  value={overrides[variable.name] ?? ""}
+                  onChange={(event) => onOverrideChange(variable.name, event.target.value)}
+                  disabled={disabled}
+                  placeholder="Value for this run"
+                  aria-label={`Run value of ${variable.name}`}
+                  className="h-8 font-mono text-xs"
+                />
+                <QuickTooltip content={`Remove ${variable.name}`}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 w-8 p-0"
+                    onClick={() => {
+                      setError(variable.name);
+                      onOverrideChange(variable.name, "");
+                      onRemove(variable.name);
+                    }}
+                    disabled={disabled}
+                    aria-label={`Remove ${variable.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </QuickTooltip>
+              </div>
+              <Input
+                defaultValue={variable.description ?? ""}
+                onBlur={(event) => {
+                  const description = event.target.value.trim();
+                  onUpdate(variable.name, { description: description || undefined });
+                }}
+                disabled={disabled}
+                placeholder="Description"
+                aria-label={`Description of ${variable.name}`}
+                className="h-8 text-xs"
+              />
+              {errors[variable.name] ? <p className="text-error">{errors[variable.name]}</p> : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
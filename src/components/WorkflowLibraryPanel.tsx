@@ -0,0 +1,477 @@
+"use client";
+
+import { type FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  FolderOpen,
+  Library,
+  Link,
+  RefreshCw,
+  Save,
+  Search,
+  Trash2,
+  Upload,
+  Webhook,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { QuickTooltip } from "@/components/ui/quick-tooltip";
+import { readJsonResponse } from "@/lib/apiResponse";
+import type { ServerRunRecord } from "@/lib/serverRun";
+import type { StoredWorkflowSummary } from "@/lib/storedWorkflows";
+import type { WorkflowExport } from "@/lib/workflowSchema";
+
+interface WorkflowLibraryPanelProps {
+  disabled: boolean;
+  getWorkflowExport: () => WorkflowExport;
+  onOpen: (workflow: WorkflowExport, label: string) => void;
+}
+
+interface StoredWorkflowDetail {
+  workflowExport: WorkflowExport;
+  versions: Array<{ version: number; savedAt: string; nodeCount: number }>;
+  runs: ServerRunRecord[];
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+// Every library request except opening a share link needs WORKFLOW_LIBRARY_SECRET; it is kept for the browser
+// session only.
+const SESSION_STORAGE_LIBRARY_SECRET = "helius-flow:library-secret";
+
+function getTriggerPath(id: string): string {
+  return `/api/workflows/${id}/trigger`;
+}
+
+/** A link that opens the stored workflow in the editor, pinned to `version` when given. */
+function getWorkflowShareUrl(shareToken: string, version?: number): string {
+  const url = new URL("/", window.location.origin);
+  url.searchParams.set("share", shareToken);
+  if (version !== undefined) {
+    url.searchParams.set("version", String(version));
+  }
+  return url.toString();
+}
+
+function formatTime(value: string | undefined): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export function WorkflowLibraryPanel({ disabled, getWorkflowExport, onOpen }: WorkflowLibraryPanelProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [query, setQuery] = useState("");
+  const [workflows, setWorkflows] = useState<StoredWorkflowSummary[]>([]);
+  const [expandedId, setExpandedId] = useState<string>();
+  const [detail, setDetail] = useState<StoredWorkflowDetail>();
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [librarySecret, setLibrarySecret] = useState("");
+
+  const runRequest = useCallback(async (request: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage("");
+    try {
+      await request();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Workflow request failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(
+    (search: string) => {
+      if (!librarySecret) {
+        setWorkflows([]);
+        return Promise.resolve();
+      }
+      return runRequest(async () => {
+        const data = await readJsonResponse<{ workflows: StoredWorkflowSummary[] }>(
+          await fetch(`/api/workflows?q=${encodeURIComponent(search)}`, {
+            headers: { Authorization: `Bearer ${librarySecret}` },
+          }),
+        );
+        setWorkflows(data.workflows);
+      });
+    },
+    [runRequest, librarySecret],
+  );
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => void refresh(query), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [query, refresh]);
+
+  useEffect(() => {
+    setLibrarySecret(window.sessionStorage.getItem(SESSION_STORAGE_LIBRARY_SECRET) ?? "");
+  }, []);
+
+  const changeLibrarySecret = (value: string) => {
+    setLibrarySecret(value);
+    if (value) {
+      window.sessionStorage.setItem(SESSION_STORAGE_LIBRARY_SECRET, value);
+    } else {
+      window.sessionStorage.removeItem(SESSION_STORAGE_LIBRARY_SECRET);
+    }
+  };
+
+  const authorizationHeaders = { Authorization: `Bearer ${librarySecret}` };
+
+  const loadDetail = (id: string) =>
+    runRequest(async () => {
+      const data = await readJsonResponse<{ workflow: StoredWorkflowDetail }>(
+        await fetch(`/api/workflows/${id}`, { headers: authorizationHeaders }),
+      );
+      setDetail(data.workflow);
+    });
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setMessage("Enter a name to save the workflow under.");
+      return;
+    }
+
+    void runRequest(async () => {
+      const data = await readJsonResponse<{ workflow: StoredWorkflowSummary }>(
+        await fetch("/api/workflows", {
+          method: "POST",
+          headers: { ...authorizationHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || undefined,
+            workflowExport: getWorkflowExport(),
+          }),
+        }),
+      );
+      setWorkflows((previous) => [data.workflow, ...previous.filter((candidate) => candidate.id !== data.workflow.id)]);
+      setName("");
+      setDescription("");
+      setMessage(`Saved ${data.workflow.name} as version ${data.workflow.version}.`);
+    });
+  };
+
+  const saveNewVersion = (summary: StoredWorkflowSummary) =>
+    runRequest(async () => {
+      const data = await readJsonResponse<{ workflow: StoredWorkflowSummary }>(
+        await fetch(`/api/workflows/${summary.id}`, {
+          method: "PUT",
+          headers: { ...authorizationHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ workflowExport: getWorkflowExport() }),
+        }),
+      );
+      setWorkflows((previous) =>
+        previous.map((candidate) => (candidate.id === summary.id ? data.workflow : candidate)),
+      );
+      setMessage(`Saved ${data.workflow.name} as version ${data.workflow.version}.`);
+      if (expandedId === summary.id) {
+        const refreshed = await readJsonResponse<{ workflow: StoredWorkflowDetail }>(
+          await fetch(`/api/workflows/${summary.id}`, { headers: authorizationHeaders }),
+        );
+        setDetail(refreshed.workflow);
+      }
+    });
+
+  const openWorkflow = (summary: StoredWorkflowSummary, version?: number) =>
+    runRequest(async () => {
+      const versionQuery = version === undefined ? "" : `?version=${version}`;
+      const data = await readJsonResponse<{ workflow: StoredWorkflowDetail & { exportVersion: number } }>(
+        await fetch(`/api/workflows/${summary.id}${versionQuery}`, { headers: authorizationHeaders }),
+      );
+      onOpen(data.workflow.workflowExport, `${summary.name} v${data.workflow.exportVersion}`);
+    });
+
+  const deleteWorkflow = (id: string) =>
+    runRequest(async () => {
+      await readJsonResponse(await fetch(`/api/workflows/${id}`, { method: "DELETE", headers: authorizationHeaders }));
+      setWorkflows((previous) => previous.filter((candidate) => candidate.id !== id));
+    });
+
+  const copyText = (text: string, label: string) =>
+    runRequest(async () => {
+      await navigator.clipboard.writeText(text);
+      setMessage(`${label} copied.`);
+    });
+
+  const copyShareLink = (id: string, version?: number) =>
+    runRequest(async () => {
+      const data = await readJsonResponse<{ shareToken: string }>(
+        await fetch(`/api/workflows/${id}/share`, { method: "POST", headers: authorizationHeaders }),
+      );
+      await navigator.clipboard.writeText(getWorkflowShareUrl(data.shareToken, version));
+      setMessage("Share link copied.");
+    });
+
+  const toggleDetail = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(undefined);
+      return;
+    }
+    setExpandedId(id);
+    setDetail(undefined);
+    void loadDetail(id);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Library className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold tracking-wide text-foreground">Workflow Library</h2>
+          <span className="text-xs text-foreground/60">
+            {workflows.length} {query.trim() ? "matching" : "stored on the server"}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="pointer-events-none absolute left-2 top-2 h-3.5 w-3.5 text-foreground/50" />
+            <Input
+              placeholder="Search name, description, methods"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              className="h-8 w-60 pl-7 text-xs"
+              aria-label="Search stored workflows"
+            />
+          </div>
+          <QuickTooltip content="Reload stored workflows">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 w-8 p-0"
+              onClick={() => void refresh(query)}
+              disabled={isBusy}
+              aria-label="Reload stored workflows"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          </QuickTooltip>
+        </div>
+      </div>
+
+      <form className="space-y-2 rounded-md border border-border p-3 text-xs" onSubmit={submit}>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Workflow name, e.g. on-transfer"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="h-8 w-56 text-xs"
+            aria-label="Stored workflow name"
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            className="h-8 min-w-48 flex-1 text-xs"
+            aria-label="Stored workflow description"
+          />
+          <Button type="submit" size="sm" className="h-8 px-3" disabled={disabled || isBusy}>
+            <Save className="h-3.5 w-3.5" />
+            Save workflow
+          </Button>
+        </div>
+        <Input
+          type="password"
+          autoComplete="off"
+          placeholder="WORKFLOW_LIBRARY_SECRET (session only), needed to list, open and change workflows"
+          value={librarySecret}
+          onChange={(event) => changeLibrarySecret(event.target.value)}
+          className="h-8 max-w-md text-xs"
+          aria-label="Workflow library secret"
+        />
+        <p className="text-foreground/60">
+          Saves the current workflow on the server, without outputs. Saving under an existing name adds a new version.
+          A workflow with a Trigger node can also be run by POSTing JSON to its trigger URL; see the README.
+        </p>
+      </form>
+
+      {message ? <p className="text-xs text-foreground/80">{message}</p> : null}
+
+      {workflows.length === 0 ? (
+        <p className="text-xs text-foreground/60">
+          {!librarySecret
+            ? "Enter WORKFLOW_LIBRARY_SECRET above to list the stored workflows."
+            : query.trim()
+              ? "No stored workflows match the search."
+              : "No workflows stored on the server yet."}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {workflows.map((summary) => (
+            <li key={summary.id} className="rounded-md border border-border px-3 py-1.5 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 font-medium text-foreground"
+                  onClick={() => toggleDetail(summary.id)}
+                  aria-expanded={expandedId === summary.id}
+                >
+                  {expandedId === summary.id ? (
+                    <ChevronDown className="h-3 w-3" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3" />
+                  )}
+                  {summary.name}
+                </button>
+                <Badge variant="secondary">v{summary.version}</Badge>
+                <span className="min-w-0 flex-1 truncate text-foreground/60">
+                  {summary.description ?? `${summary.nodeCount} node${summary.nodeCount === 1 ? "" : "s"}`}
+                </span>
+                <span className="text-foreground/60">Updated {formatTime(summary.updatedAt)}</span>
+                {summary.hasTrigger ? (
+                  summary.lastRun ? (
+                    <Badge
+                      variant={summary.lastRun.success ? "success" : "destructive"}
+                      title={summary.lastRun.errorMessage ?? `Triggered ${formatTime(summary.lastRun.startedAt)}`}
+                    >
+                      {summary.lastRun.success ? "passed" : "failed"} {formatTime(summary.lastRun.startedAt)}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">not triggered yet</Badge>
+                  )
+                ) : null}
+                <QuickTooltip content={`Open ${summary.name} in the editor`}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => void openWorkflow(summary)}
+                    disabled={disabled || isBusy}
+                    aria-label={`Open stored workflow ${summary.name}`}
+                  >
+                    <FolderOpen className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+                <QuickTooltip content={`Save the current workflow as a new version of ${summary.name}`}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => void saveNewVersion(summary)}
+                    disabled={disabled || isBusy}
+                    aria-label={`Save new version of ${summary.name}`}
+                  >
+                    <Upload className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+                <QuickTooltip content="Copy share link">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => void copyShareLink(summary.id)}
+                    disabled={isBusy}
+                    aria-label={`Copy share link of ${summary.name}`}
+                  >
+                    <Link className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+                {summary.hasTrigger ? (
+                  <QuickTooltip content="Copy trigger URL">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-7 p-0"
+                      onClick={() =>
+                        void copyText(new URL(getTriggerPath(summary.id), window.location.origin).href, "Trigger URL")
+                      }
+                      disabled={isBusy}
+                      aria-label={`Copy trigger URL of ${summary.name}`}
+                    >
+                      <Webhook className="h-3 w-3" />
+                    </Button>
+                  </QuickTooltip>
+                ) : null}
+                <QuickTooltip content={`Delete ${summary.name} and its versions`}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    onClick={() => void deleteWorkflow(summary.id)}
+                    disabled={isBusy}
+                    aria-label={`Delete stored workflow ${summary.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </QuickTooltip>
+              </div>
+
+              {expandedId === summary.id ? (
+                !detail ? (
+                  <p className="mt-1 text-foreground/60">
+                    {isBusy ? "Loading versions..." : "Could not load versions."}
+                  </p>
+                ) : (
+                  <div className="mt-1 space-y-2 border-t border-border/60 pt-1">
+                    <div>
+                      <p className="font-medium text-foreground/80">Versions</p>
+                      <ul className="space-y-1">
+                        {detail.versions.map((entry) => (
+                          <li key={entry.version} className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-foreground/70">v{entry.version}</span>
+                            <span className="text-foreground/60">
+                              {formatTime(entry.savedAt)}, {entry.nodeCount} node{entry.nodeCount === 1 ? "" : "s"}
+                            </span>
+                            <button
+                              type="button"
+                              className="text-primary hover:underline disabled:opacity-50"
+                              onClick={() => void openWorkflow(summary, entry.version)}
+                              disabled={disabled || isBusy}
+                            >
+                              Open
+                            </button>
+                            <button
+                              type="button"
+                              className="text-primary hover:underline disabled:opacity-50"
+                              onClick={() => void copyShareLink(summary.id, entry.version)}
+                              disabled={isBusy}
+                            >
+                              Copy link
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+
+                    {summary.hasTrigger ? (
+                      <div>
+                        <p className="font-medium text-foreground/80">
+                          Triggered runs{" "}
+                          <span className="font-mono font-normal">POST {getTriggerPath(summary.id)}</span>
+                        </p>
+                        {detail.runs.length === 0 ? (
+                          <p className="text-foreground/60">No runs recorded yet.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {detail.runs.map((run) => (
+                              <li key={run.id} className="flex flex-wrap items-center gap-2">
+                                <span className="font-mono text-foreground/70">{formatTime(run.startedAt)}</span>
+                                <span className={run.success ? "text-success" : "text-error"}>
+                                  {run.success
+                                    ? run.handledErrorCount > 0
+                                      ? `passed with ${run.handledErrorCount} handled error(s)`
+                                      : "passed"
+                                    : (run.errorMessage ?? "failed")}
+                                </span>
+                                <span className="text-foreground/60">
+                                  {run.nodes.filter((node) => node.status === "success").length}/{run.nodes.length}{" "}
+                                  nodes succeeded
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : null}
+                  </div>
+                )
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
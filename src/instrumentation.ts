@@ -0,0 +1,9 @@
+/** Starts the in-process schedule ticker when the Node.js server boots. Set SCHEDULER_DISABLED=true to opt out. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.SCHEDULER_DISABLED === "true") {
+    return;
+  }
+
+  const { startScheduleTicker } = await import("@/lib/scheduleRunner");
+  startScheduleTicker();
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from "bun:test";
+
+import {
+  assertPublicWebhookUrl,
+  fetchPublicWebhook,
+  isPublicAddress,
+  lookupPublicAddress,
+} from "@/lib/alertWebhookGuard";
+
+function lookupAll(hostname: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    lookupPublicAddress(hostname, { all: true }, (error, addresses) => (error ? reject(error) : resolve(addresses)));
+  });
+}
+
+describe("alert webhook guard", () => {
+  afterEach(() => {
+    delete process.env.ALERT_WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  test("classifies loopback, link-local and private addresses as non-public", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "::1", "fd00::1"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+  });
+
+  test("refuses hosts that resolve to non-public addresses", async () => {
+    await expect(assertPublicWebhookUrl("http://169.254.169.254/latest")).rejects.toThrow("non-public");
+    await expect(assertPublicWebhookUrl("http://[::1]:8787/hook")).rejects.toThrow("non-public");
+    await expect(assertPublicWebhookUrl("http://localhost:8787/hook")).rejects.toThrow("non-public");
+    await expect(assertPublicWebhookUrl("https://93.184.216.34/hook")).resolves.toBeUndefined();
+  });
+
+  test("allows only the listed hosts when ALERT_WEBHOOK_ALLOWED_HOSTS is set", async () => {
+    process.env.ALERT_WEBHOOK_ALLOWED_HOSTS = "hooks.slack.com, 127.0.0.1";
+    await expect(assertPublicWebhookUrl("http://127.0.0.1:8787/hook")).resolves.toBeUndefined();
+    await expect(assertPublicWebhookUrl("https://discord.com/api/webhooks/1")).rejects.toThrow("not in");
+  });
+
+  test("refuses non-public addresses in the lookup the request connects with", async () => {
+    await expect(lookupAll("localhost")).rejects.toThrow("non-public");
+  });
+
+  test("posts to allowed hosts without following redirects", async () => {
+    const requests: Array<{ path: string; contentType: string | null; body: string }> = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const { pathname } = new URL(request.url);
+        requests.push({ path: pathname, contentType: request.headers.get("content-type"), body: await request.text() });
+        return pathname === "/moved"
+          ? new Response(null, { status: 302, headers: { location: "/hook" } })
+          : new Response("ok", { status: 202 });
+      },
+    });
+    process.env.ALERT_WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+    const init = { method: "POST", headers: { "content-type": "application/json" }, body: '{"text":"hi"}' };
+
+    try {
+      const response = await fetchPublicWebhook(`http://127.0.0.1:${server.port}/hook`, init);
+      expect(response.status).toBe(202);
+      expect(await response.text()).toBe("ok");
+      expect((await fetchPublicWebhook(`http://127.0.0.1:${server.port}/moved`, init)).status).toBe(302);
+      expect(requests).toEqual([
+        { path: "/hook", contentType: "application/json", body: '{"text":"hi"}' },
+        { path: "/moved", contentType: "application/json", body: '{"text":"hi"}' },
+      ]);
+    } finally {
+      await server.stop(true);
+    }
+  });
+
+  test("refuses a private host before connecting when no allowlist is set", async () => {
+    await expect(fetchPublicWebhook("http://127.0.0.1:9/hook", { method: "POST", body: "{}" })).rejects.toThrow(
+      "non-public",
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { lookup as lookupCallback } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+const ALLOWED_HOSTS_ENV = "ALERT_WEBHOOK_ALLOWED_HOSTS";
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+// Loopback, private-network, link-local (including cloud metadata at 169.254.169.254), carrier-grade NAT,
+// benchmarking, multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !nonPublicAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function readAllowedHosts(): string[] {
+  return (process.env[ALLOWED_HOSTS_ENV] ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Throws unless an Alert webhook URL may be called from the server. With ALERT_WEBHOOK_ALLOWED_HOSTS set, only the
+ * listed hosts are allowed. Otherwise the host is resolved and refused if any of its addresses is not public, so a
+ * workflow cannot reach services on the server's own network.
+ */
+export async function assertPublicWebhookUrl(webhookUrl: string): Promise<void> {
+  const host = new URL(webhookUrl).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  const allowedHosts = readAllowedHosts();
+  if (allowedHosts.length > 0) {
+    if (!allowedHosts.includes(host)) {
+      throw new Error(`Alert webhook host ${host} is not in ${ALLOWED_HOSTS_ENV}`);
+    }
+    return;
+  }
+
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(`Alert webhook host ${host} resolves to a non-public address (${blocked.address})`);
+  }
+}
+
+/**
+ * A DNS lookup for node:http(s) that fails when the host has a non-public address. The request connects to
+ * the address it returns, so a host cannot pass the check with one address and be reached at another.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    const [first] = addresses;
+    if (blocked || !first) {
+      const reason = blocked ? `a non-public address (${blocked.address})` : "no address";
+      callback(new Error(`Alert webhook host ${hostname} resolves to ${reason}`), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Sends an Alert webhook request from the server. The URL must pass assertPublicWebhookUrl, and unless
+ * ALERT_WEBHOOK_ALLOWED_HOSTS is set the connection only goes to public addresses (see lookupPublicAddress).
+ * Redirects are returned as is rather than followed.
+ */
+export async function fetchPublicWebhook(webhookUrl: string, init: RequestInit): Promise<Response> {
+  await assertPublicWebhookUrl(webhookUrl);
+  const url = new URL(webhookUrl);
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  const pinnedLookup = readAllowedHosts().length > 0 ? undefined : lookupPublicAddress;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(
+      url,
+      {
+        method: init.method ?? "GET",
+        headers: Object.fromEntries(new Headers(init.headers)),
+        lookup: pinnedLookup,
+        signal: init.signal ?? undefined,
+      },
+      (incoming) => {
+        const chunks: Buffer[] = [];
+        incoming.on("data", (chunk: Buffer) => chunks.push(chunk));
+        incoming.on("error", reject);
+        incoming.on("end", () => {
+          const status = incoming.statusCode ?? 502;
+          const body = NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks).toString("utf8");
+          resolve(new Response(body, { status }));
+        });
+      },
+    );
+    outgoing.on("error", reject);
+    outgoing.end(typeof init.body === "string" ? init.body : undefined);
+  });
+}
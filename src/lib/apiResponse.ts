@@ -0,0 +1,8 @@
+/** Parses a JSON API response, throwing the route's `{ error, issues }` message when it is not OK. */
+export async function readJsonResponse<T>(response: Response): Promise<T> {
+  const data = (await response.json()) as T & { error?: string; issues?: string[] };
+  if (!response.ok) {
+    throw new Error([data.error ?? `Request failed with HTTP ${response.status}.`, ...(data.issues ?? [])].join(" "));
+  }
+  return data;
+}
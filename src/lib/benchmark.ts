@@ -0,0 +1,188 @@
+import type { NodeCallOutcome, NodeCallTiming } from "@/lib/workflowExecutor";
+
+export const BENCHMARK_HISTOGRAM_BUCKET_COUNT = 20;
+
+export interface HistogramBucket {
+  /** Inclusive lower and exclusive upper latency bound in ms. */
+  fromMs: number;
+  toMs: number;
+  count: number;
+}
+
+export interface BenchmarkSample {
+  startedAt: number;
+  durationMs: number;
+  outcome: NodeCallOutcome;
+  httpStatus?: number;
+  cycle?: number;
+  iteration?: number;
+}
+
+/** Latency figures cover successful calls; failed and timed-out calls count towards the error rate. */
+export interface NodeBenchmark {
+  nodeId: string;
+  nodeName: string;
+  calls: number;
+  successes: number;
+  errors: number;
+  errorRate: number;
+  minMs?: number;
+  meanMs?: number;
+  p50Ms?: number;
+  p90Ms?: number;
+  p99Ms?: number;
+  maxMs?: number;
+  /** Settled calls per second between the first call's start and the last call's end. */
+  throughputPerSecond: number;
+  durationMs: number;
+  histogram: HistogramBucket[];
+  samples: BenchmarkSample[];
+}
+
+export interface BenchmarkReport {
+  label: string;
+  generatedAt: string;
+  nodes: NodeBenchmark[];
+}
+
+/** Nearest-rank percentile of ascending values. */
+export function percentile(sortedValues: number[], rank: number): number | undefined {
+  if (sortedValues.length === 0) {
+    return undefined;
+  }
+  const index = Math.ceil((rank / 100) * sortedValues.length) - 1;
+  return sortedValues[Math.min(Math.max(index, 0), sortedValues.length - 1)];
+}
+
+export function buildHistogram(
+  values: number[],
+  bucketCount: number = BENCHMARK_HISTOGRAM_BUCKET_COUNT,
+): HistogramBucket[] {
+  if (values.length === 0) {
+    return [];
+  }
+
+  // A long benchmark has too many samples to spread into Math.min/Math.max.
+  const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+  const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+  // Latencies are whole milliseconds, so `max - min + 1` values fit into at most `bucketCount` buckets.
+  const bucketWidth = Math.max(1, Math.ceil((max - min + 1) / bucketCount));
+  const buckets = Array.from({ length: Math.max(1, Math.ceil((max - min + 1) / bucketWidth)) }, (_, index) => ({
+    fromMs: min + index * bucketWidth,
+    toMs: min + (index + 1) * bucketWidth,
+    count: 0,
+  }));
+  for (const value of values) {
+    const bucket = buckets[Math.min(Math.floor((value - min) / bucketWidth), buckets.length - 1)];
+    if (bucket) {
+      bucket.count += 1;
+    }
+  }
+  return buckets;
+}
+
+function benchmarkNode(nodeId: string, nodeName: string, timings: NodeCallTiming[]): NodeBenchmark {
+  // Calls cut short by a stop or the run deadline say nothing about the endpoint.
+  const settled = timings.filter((timing) => timing.outcome !== "canceled");
+  const samples = settled.map((timing) => ({
+    startedAt: timing.startedAt,
+    durationMs: timing.endedAt - timing.startedAt,
+    outcome: timing.outcome,
+    httpStatus: timing.httpStatus,
+    cycle: timing.cycle,
+    iteration: timing.iteration,
+  }));
+  const latencies = samples
+    .filter((sample) => sample.outcome === "success")
+    .map((sample) => sample.durationMs)
+    .sort((a, b) => a - b);
+  const errors = samples.length - latencies.length;
+  const durationMs =
+    settled.length > 0
+      ? settled.reduce((latest, timing) => Math.max(latest, timing.endedAt), -Infinity) -
+        settled.reduce((earliest, timing) => Math.min(earliest, timing.startedAt), Infinity)
+      : 0;
+
+  return {
+    nodeId,
+    nodeName,
+    calls: samples.length,
+    successes: latencies.length,
+    errors,
+    errorRate: samples.length > 0 ? errors / samples.length : 0,
+    minMs: latencies[0],
+    meanMs: latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : undefined,
+    p50Ms: percentile(latencies, 50),
+    p90Ms: percentile(latencies, 90),
+    p99Ms: percentile(latencies, 99),
+    maxMs: latencies[latencies.length - 1],
+    throughputPerSecond: durationMs > 0 ? samples.length / (durationMs / 1000) : 0,
+    durationMs,
+    histogram: buildHistogram(latencies),
+    samples,
+  };
+}
+
+/** Summarizes the calls of each given node; nodes without calls are left out. */
+export function buildBenchmarkReport(
+  label: string,
+  nodes: Array<{ id: string; name: string }>,
+  timings: NodeCallTiming[],
+): BenchmarkReport {
+  return {
+    label,
+    generatedAt: new Date().toISOString(),
+    nodes: nodes.flatMap((node) => {
+      const nodeTimings = timings.filter((timing) => timing.nodeId === node.id);
+      return nodeTimings.length > 0 ? [benchmarkNode(node.id, node.name, nodeTimings)] : [];
+    }),
+  };
+}
+
+const CSV_COLUMNS = [
+  "node",
+  "calls",
+  "successes",
+  "errors",
+  "error_rate",
+  "min_ms",
+  "mean_ms",
+  "p50_ms",
+  "p90_ms",
+  "p99_ms",
+  "max_ms",
+  "throughput_per_s",
+  "duration_ms",
+] as const;
+
+function formatCsvCell(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text = typeof value === "number" ? String(Math.round(value * 1000) / 1000) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One summary row per node; the JSON report also carries histograms and every sample. */
+export function formatBenchmarkCsv(report: BenchmarkReport): string {
+  const rows = report.nodes.map((node) =>
+    [
+      node.nodeName,
+      node.calls,
+      node.successes,
+      node.errors,
+      node.errorRate,
+      node.minMs,
+      node.meanMs,
+      node.p50Ms,
+      node.p90Ms,
+      node.p99Ms,
+      node.maxMs,
+      node.throughputPerSecond,
+      node.durationMs,
+    ]
+      .map(formatCsvCell)
+      .join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
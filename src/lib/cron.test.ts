@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+
+import { getNextCronTime, getNextScheduledRunAt, parseCronExpression } from "@/lib/cron";
+
+// A Monday.
+const AFTER = new Date("2026-10-19T12:07:30.000Z");
+
+function nextRun(expression: string, after = AFTER): string | undefined {
+  return getNextCronTime(parseCronExpression(expression), after)?.toISOString();
+}
+
+describe("cron", () => {
+  test("steps through a field", () => {
+    expect(nextRun("*/15 * * * *")).toBe("2026-10-19T12:15:00.000Z");
+    expect(nextRun("5/20 * * * *")).toBe("2026-10-19T12:25:00.000Z");
+    expect(nextRun("0 9-17/4 * * *")).toBe("2026-10-19T13:00:00.000Z");
+  });
+
+  test("expands macros and month and day names", () => {
+    expect(nextRun("@daily")).toBe("2026-10-20T00:00:00.000Z");
+    expect(nextRun("0 0 1 jan *")).toBe("2027-01-01T00:00:00.000Z");
+    expect(nextRun("0 0 * * SAT")).toBe("2026-10-24T00:00:00.000Z");
+  });
+
+  test("treats a day of week of 7 as Sunday", () => {
+    expect(parseCronExpression("0 0 * * 7").daysOfWeek).toEqual(new Set([0]));
+    expect(nextRun("0 0 * * 7")).toBe("2026-10-25T00:00:00.000Z");
+  });
+
+  test("runs on either day when both day fields are restricted", () => {
+    expect(parseCronExpression("0 0 1,15 * 1").matchEitherDay).toBe(true);
+    expect(nextRun("0 0 1,15 * 1")).toBe("2026-10-26T00:00:00.000Z");
+  });
+
+  test("requires both days when a day field starts with *", () => {
+    expect(parseCronExpression("0 0 */2 * 1").matchEitherDay).toBe(false);
+    // Odd-dated Mondays only: the 26th and the 2nd are skipped.
+    expect(nextRun("0 0 */2 * 1")).toBe("2026-11-09T00:00:00.000Z");
+    expect(nextRun("0 0 * * 1")).toBe("2026-10-26T00:00:00.000Z");
+  });
+
+  test("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("0 0 * *")).toThrow("five fields");
+    expect(() => parseCronExpression("60 * * * *")).toThrow("between 0 and 59");
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow('Invalid minute step "0"');
+    expect(() => parseCronExpression("0 5-2 * * *")).toThrow('Invalid hour range "5-2"');
+    expect(() => parseCronExpression("0 0 * foo *")).toThrow('Invalid month "foo"');
+  });
+
+  test("gives up on a date that never comes", () => {
+    expect(nextRun("0 0 31 2 *")).toBeUndefined();
+  });
+
+  test("schedules interval and disabled workflows", () => {
+    const base = { name: "health", network: "mainnet" as const, gatekeeperEnabled: false };
+    expect(
+      getNextScheduledRunAt({ ...base, enabled: true, mode: "interval", intervalMinutes: 30 }, AFTER)?.toISOString(),
+    ).toBe("2026-10-19T12:37:30.000Z");
+    expect(getNextScheduledRunAt({ ...base, enabled: false, mode: "cron", cron: "* * * * *" }, AFTER)).toBeUndefined();
+  });
+});
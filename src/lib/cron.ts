@@ -0,0 +1,165 @@
+import type { WorkflowSchedule } from "@/lib/workflowSchema";
+
+/** A parsed five-field cron expression: minute, hour, day of month, month and day of week, in UTC. */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day of month and day of week were both restricted, so a day matching either one runs. */
+  matchEitherDay: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+  },
+  { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+/** The search for the next run gives up after this many days, e.g. for `0 0 31 2 *`. */
+const MAX_CRON_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseCronValue(value: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed = nameIndex >= 0 ? nameIndex + (field.name === "month" ? 1 : 0) : Number(value);
+  if (!/^\d+$/.test(value) && nameIndex < 0) {
+    throw new Error(`Invalid ${field.name} "${value}".`);
+  }
+  if (parsed < field.min || parsed > field.max) {
+    throw new Error(`The ${field.name} must be between ${field.min} and ${field.max}, received ${value}.`);
+  }
+  return parsed;
+}
+
+function parseCronField(text: string, field: CronField): { values: Set<number>; restricted: boolean } {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} step "${stepText}".`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [startText = "", endText = ""] = range.split("-");
+      start = parseCronValue(startText, field);
+      end = parseCronValue(endText, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}".`);
+      }
+    } else {
+      start = parseCronValue(range, field);
+      // `5/15` means every 15th value from 5 on.
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // As in Vixie cron, a field starting with `*`, such as `*/2`, does not restrict the day.
+  return { values, restricted: !text.startsWith("*") };
+}
+
+/** Parses a cron expression such as `*\/15 * * * *` or `@daily`; throws an Error describing the problem. */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error("A cron expression has five fields: minute, hour, day of month, month and day of week.");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, index) =>
+    parseCronField(text, CRON_FIELDS[index] as CronField),
+  ) as Array<{ values: Set<number>; restricted: boolean }>;
+
+  // Sunday can be written as 0 or 7.
+  if (daysOfWeek?.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return {
+    minutes: minutes?.values ?? new Set(),
+    hours: hours?.values ?? new Set(),
+    daysOfMonth: daysOfMonth?.values ?? new Set(),
+    months: months?.values ?? new Set(),
+    daysOfWeek: daysOfWeek?.values ?? new Set(),
+    matchEitherDay: Boolean(daysOfMonth?.restricted && daysOfWeek?.restricted),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.matchEitherDay ? dayOfMonthMatches || dayOfWeekMatches : dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/** The first minute strictly after `after` that the schedule matches, or undefined if none comes soon. */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date | undefined {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_CRON_LOOKAHEAD_DAYS * 86_400_000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return undefined;
+}
+
+/** When an enabled schedule next runs after `after`; undefined when disabled or a cron never matches. */
+export function getNextScheduledRunAt(schedule: WorkflowSchedule, after: Date): Date | undefined {
+  if (!schedule.enabled) {
+    return undefined;
+  }
+  if (schedule.mode === "interval") {
+    return new Date(after.getTime() + (schedule.intervalMinutes ?? 1) * 60_000);
+  }
+  return getNextCronTime(parseCronExpression(schedule.cron ?? ""), after);
+}
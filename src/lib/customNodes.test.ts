@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+
+import { ALERT_METHOD, MAX_MATCH_PATTERN_LENGTH, evaluateCondition, executeAlertNode } from "@/lib/customNodes";
+
+function createAlertNode(params: Record<string, unknown>) {
+  return {
+    method: ALERT_METHOD,
+    rawParamsJson: "[]",
+    params: Object.entries(params).map(([name, value]) => ({ name, value: { type: "literal" as const, value } })),
+  };
+}
+
+describe("Condition matches", () => {
+  test("matches strings and serialized values", () => {
+    expect(evaluateCondition("matches", "abc123", "\\d{3}$")).toBe(true);
+    expect(evaluateCondition("matches", { status: "failed" }, '"status":"fail')).toBe(true);
+    expect(evaluateCondition("matches", "abc", "^b")).toBe(false);
+  });
+
+  test("runs nested quantifiers in linear time", () => {
+    const startedAt = Date.now();
+    expect(evaluateCondition("matches", `${"a".repeat(50_000)}!`, "^(a+)+$")).toBe(false);
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+  });
+
+  test("refuses long and unsupported patterns", () => {
+    expect(() => evaluateCondition("matches", "a", "a".repeat(MAX_MATCH_PATTERN_LENGTH + 1))).toThrow(
+      "limited to 200 characters",
+    );
+    expect(() => evaluateCondition("matches", "a", "(?=a)")).toThrow("Invalid regular expression: (?=a)");
+  });
+});
+
+describe("Alert node", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let received: Array<{ contentType: string | null; body: unknown }>;
+  let responseStatus: number;
+  let webhookUrl: string;
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ contentType: request.headers.get("content-type"), body: await request.json() });
+        return new Response(null, { status: responseStatus });
+      },
+    });
+    webhookUrl = `http://127.0.0.1:${server.port}/hook`;
+  });
+
+  afterEach(async () => {
+    await server.stop(true);
+  });
+
+  const sendAlert = (params: Record<string, unknown>) =>
+    executeAlertNode(createAlertNode({ webhookUrl, ...params }), new Map(), {}, fetch, new AbortController().signal);
+
+  test("posts the generic payload", async () => {
+    const result = await sendAlert({ title: "Low balance", message: "Wallet below 1 SOL", data: { lamports: 5 } });
+
+    expect(result.output).toMatchObject({ sent: true, format: "generic", status: 200 });
+    expect(received).toEqual([
+      {
+        contentType: "application/json",
+        body: {
+          subject: "Low balance",
+          text: "Wallet below 1 SOL",
+          data: { lamports: 5 },
+          sentAt: expect.any(String),
+        },
+      },
+    ]);
+  });
+
+  test("posts the Slack and Discord payloads", async () => {
+    await sendAlert({ format: "slack", title: "Low balance", message: "Wallet below 1 SOL" });
+    await sendAlert({ format: "discord", title: "Low balance", message: "Wallet below 1 SOL" });
+    await sendAlert({ format: "discord", message: "No title" });
+
+    expect(received.map(({ body }) => body)).toEqual([
+      { text: "*Low balance*\nWallet below 1 SOL" },
+      { embeds: [{ title: "Low balance", description: "Wallet below 1 SOL" }] },
+      { content: "No title" },
+    ]);
+  });
+
+  test("suppresses repeats of a dedupe key within the cooldown", async () => {
+    await sendAlert({ message: "first", dedupeKey: "wallet-low", cooldownSeconds: 60 });
+    const repeated = await sendAlert({ message: "second", dedupeKey: "wallet-low", cooldownSeconds: 60 });
+    await sendAlert({ message: "other", dedupeKey: "wallet-empty", cooldownSeconds: 60 });
+
+    expect(repeated.output).toMatchObject({ sent: false, suppressed: true, dedupeKey: "wallet-low" });
+    expect(received.map(({ body }) => (body as { text: string }).text)).toEqual(["first", "other"]);
+  });
+
+  test("fails on an error status and sends again after it", async () => {
+    responseStatus = 500;
+    await expect(sendAlert({ message: "down", cooldownSeconds: 60 })).rejects.toThrow(
+      "Alert webhook responded with status 500",
+    );
+
+    responseStatus = 200;
+    expect((await sendAlert({ message: "down", cooldownSeconds: 60 })).output).toMatchObject({ sent: true });
+    expect(received).toHaveLength(2);
+  });
+});
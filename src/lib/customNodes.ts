@@ -0,0 +1,416 @@
+import { RE2JS } from "re2js";
+
+import { evaluateExpression } from "@/lib/expression";
+import { getByPath } from "@/lib/path";
+import { getCustomNodeOutput, resolveParamValue, resolveTemplates } from "@/lib/workflowParams";
+import type { ParamValue, WorkflowNodeExport } from "@/lib/workflowSchema";
+import type { WorkflowVariableValues } from "@/lib/workflowVariables";
+
+export const CONDITION_METHOD = "Condition";
+export const CONDITION_OPERATORS = [
+  "equals",
+  "notEquals",
+  "greaterThan",
+  "lessThan",
+  "exists",
+  "contains",
+  "matches",
+] as const;
+
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+/**
+ * Longer `matches` patterns are refused. Patterns run on RE2, whose matching time is linear in the input, so
+ * this only bounds the cost of compiling them; lookarounds and backreferences are not supported.
+ */
+export const MAX_MATCH_PATTERN_LENGTH = 200;
+
+export const FOR_EACH_METHOD = "For Each";
+export const MAX_FOR_EACH_CONCURRENCY = 16;
+
+export const TRANSFORM_METHOD = "Transform";
+
+/** Runs only when another node routes its failure here; its output describes that failure. */
+export const ERROR_HANDLER_METHOD = "Error Handler";
+
+export const ALERT_METHOD = "Alert";
+export const ALERT_FORMATS = ["generic", "slack", "discord", "console"] as const;
+export const DEFAULT_ALERT_COOLDOWN_SECONDS = 300;
+
+export type AlertFormat = (typeof ALERT_FORMATS)[number];
+
+/** Sends an Alert webhook request; fetch, or fetchPublicWebhook on the server. */
+export type AlertWebhookFetch = (webhookUrl: string, init: RequestInit) => Promise<Response>;
+
+/** Outputs the payload of the request that started the run, e.g. a webhook call. */
+export const TRIGGER_METHOD = "Trigger";
+
+export interface WorkflowTriggerPayload {
+  body: unknown;
+  receivedAt: string;
+}
+
+type CustomNode = Pick<WorkflowNodeExport, "method" | "params" | "rawParamsJson">;
+
+export interface CustomNodeResult {
+  output: unknown;
+  /** Set when the node gates its downstream subgraph, e.g. a Condition that evaluated to false. */
+  skipDownstream?: boolean;
+}
+
+function isAlertFormat(value: unknown): value is AlertFormat {
+  return typeof value === "string" && (ALERT_FORMATS as readonly string[]).includes(value);
+}
+
+function isConditionOperator(value: unknown): value is ConditionOperator {
+  return typeof value === "string" && (CONDITION_OPERATORS as readonly string[]).includes(value);
+}
+
+function findParamValue(node: CustomNode, name: string): ParamValue | undefined {
+  return node.params.find((param) => param.name === name)?.value;
+}
+
+// Unlike resolveParamValue, a missing reference resolves to undefined so `exists` can test for it.
+function resolveOptionalParamValue(
+  paramValue: ParamValue | undefined,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  if (!paramValue) {
+    return undefined;
+  }
+
+  if (paramValue.type === "literal") {
+    return resolveTemplates(paramValue.value, outputsByNodeId, variables);
+  }
+
+  if (paramValue.type === "var") {
+    return variables[paramValue.name];
+  }
+
+  const sourceOutput = outputsByNodeId.get(paramValue.nodeId);
+  return sourceOutput === undefined ? undefined : getByPath(sourceOutput, paramValue.path);
+}
+
+function isDeepEqual(left: unknown, right: unknown): boolean {
+  if (Object.is(left, right)) {
+    return true;
+  }
+
+  if (typeof left !== "object" || typeof right !== "object" || left === null || right === null) {
+    return false;
+  }
+
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function toComparableNumber(value: unknown, operator: ConditionOperator): number {
+  const candidate = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof candidate !== "number" || !Number.isFinite(candidate)) {
+    throw new Error(`Condition ${operator} requires numeric values, received ${JSON.stringify(value)}`);
+  }
+  return candidate;
+}
+
+function containsValue(value: unknown, needle: unknown): boolean {
+  if (typeof value === "string") {
+    return value.includes(String(needle));
+  }
+
+  if (Array.isArray(value)) {
+    return value.some((entry) => isDeepEqual(entry, needle));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.prototype.hasOwnProperty.call(value, String(needle));
+  }
+
+  return false;
+}
+
+function matchesPattern(value: unknown, pattern: unknown): boolean {
+  if (typeof pattern !== "string" || !pattern) {
+    throw new Error("Condition matches requires a regular expression string in compareTo");
+  }
+  if (pattern.length > MAX_MATCH_PATTERN_LENGTH) {
+    throw new Error(`Condition matches patterns are limited to ${MAX_MATCH_PATTERN_LENGTH} characters`);
+  }
+
+  let expression: RE2JS;
+  try {
+    expression = RE2JS.compile(pattern);
+  } catch {
+    throw new Error(`Invalid regular expression: ${pattern}`);
+  }
+
+  return expression.test(typeof value === "string" ? value : JSON.stringify(value) ?? "");
+}
+
+export function evaluateCondition(operator: ConditionOperator, value: unknown, compareTo: unknown): boolean {
+  if (operator === "exists") {
+    return value !== undefined && value !== null;
+  }
+  if (operator === "equals") {
+    return isDeepEqual(value, compareTo);
+  }
+  if (operator === "notEquals") {
+    return !isDeepEqual(value, compareTo);
+  }
+  if (operator === "greaterThan") {
+    return toComparableNumber(value, operator) > toComparableNumber(compareTo, operator);
+  }
+  if (operator === "lessThan") {
+    return toComparableNumber(value, operator) < toComparableNumber(compareTo, operator);
+  }
+  if (operator === "contains") {
+    return containsValue(value, compareTo);
+  }
+  return matchesPattern(value, compareTo);
+}
+
+function executeConditionNode(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): CustomNodeResult {
+  const operatorValue = findParamValue(node, "operator");
+  const operator = operatorValue ? resolveParamValue(operatorValue, outputsByNodeId, variables) : undefined;
+  if (!isConditionOperator(operator)) {
+    throw new Error(`Condition operator must be one of: ${CONDITION_OPERATORS.join(", ")}`);
+  }
+
+  const value =
+    operator === "exists"
+      ? resolveOptionalParamValue(findParamValue(node, "value"), outputsByNodeId, variables)
+      : resolveParamValue(
+          findParamValue(node, "value") ?? { type: "literal", value: null },
+          outputsByNodeId,
+          variables,
+        );
+  const compareToValue = findParamValue(node, "compareTo");
+  const compareTo =
+    operator === "exists" || !compareToValue ? null : resolveParamValue(compareToValue, outputsByNodeId, variables);
+  const passed = evaluateCondition(operator, value, compareTo);
+
+  return {
+    output: {
+      passed,
+      operator,
+      value: value ?? null,
+      compareTo,
+    },
+    skipDownstream: !passed,
+  };
+}
+
+export function resolveForEachConfig(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): { items: unknown[]; concurrency: number } {
+  const itemsValue = findParamValue(node, "items");
+  const items = itemsValue ? resolveParamValue(itemsValue, outputsByNodeId, variables) : undefined;
+  if (!Array.isArray(items)) {
+    throw new Error(`For Each items must resolve to an array, received ${JSON.stringify(items ?? null)}`);
+  }
+
+  const concurrencyValue = findParamValue(node, "concurrency");
+  const concurrencyCandidate = Number(
+    (concurrencyValue ? resolveParamValue(concurrencyValue, outputsByNodeId, variables) : null) ?? 1,
+  );
+  const concurrency = Number.isFinite(concurrencyCandidate)
+    ? Math.min(Math.max(Math.floor(concurrencyCandidate), 1), MAX_FOR_EACH_CONCURRENCY)
+    : 1;
+
+  return { items, concurrency };
+}
+
+// `nodes` exposes every available output by node id and by node name, `vars` the workflow variables; only
+// `input` adds a dependency edge.
+function executeTransformNode(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+  nodeNamesById: Map<string, string>,
+): CustomNodeResult {
+  const expressionValue = findParamValue(node, "expression");
+  // A literal expression is passed through untouched: `${...}` there belongs to the expression's own
+  // template strings, not to param templating.
+  const expression =
+    expressionValue?.type === "literal"
+      ? expressionValue.value
+      : expressionValue
+        ? resolveParamValue(expressionValue, outputsByNodeId, variables)
+        : undefined;
+  if (expression === undefined || expression === null || expression === "") {
+    throw new Error("Transform requires an expression");
+  }
+
+  const inputValue = findParamValue(node, "input");
+  const nodes: Record<string, unknown> = {};
+  for (const [nodeId, output] of outputsByNodeId) {
+    nodes[nodeId] = output;
+    const name = nodeNamesById.get(nodeId);
+    if (name && !Object.prototype.hasOwnProperty.call(nodes, name)) {
+      nodes[name] = output;
+    }
+  }
+
+  try {
+    return {
+      output: evaluateExpression(typeof expression === "string" ? expression : JSON.stringify(expression), {
+        input: inputValue ? resolveParamValue(inputValue, outputsByNodeId, variables) : null,
+        nodes,
+        vars: variables,
+      }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Transform expression failed: ${message}`);
+  }
+}
+
+/** Outside a triggered run, e.g. in the editor, the node outputs its `sampleBody` so downstream refs can be built. */
+export function executeTriggerNode(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+  trigger: WorkflowTriggerPayload | undefined,
+): CustomNodeResult {
+  if (trigger) {
+    return { output: { body: trigger.body, receivedAt: trigger.receivedAt, sample: false } };
+  }
+
+  const sampleBody = resolveOptionalParamValue(findParamValue(node, "sampleBody"), outputsByNodeId, variables);
+  return { output: { body: sampleBody ?? null, receivedAt: new Date().toISOString(), sample: true } };
+}
+
+// Keyed by webhook and dedupe key. Module state, so cooldowns span repeat passes and runs in the same tab or
+// server process. Entries are dropped once their cooldown has passed.
+const alertLastSentAt = new Map<string, { sentAt: number; cooldownMs: number }>();
+
+function pruneAlertCooldowns(now: number): void {
+  for (const [key, entry] of alertLastSentAt) {
+    if (now - entry.sentAt >= entry.cooldownMs) {
+      alertLastSentAt.delete(key);
+    }
+  }
+}
+
+export interface AlertNodeOptions {
+  /** Only validate the alert and report its payload. */
+  dryRun?: boolean;
+  /** Sends the webhook in place of `fetchImpl`, e.g. fetchPublicWebhook on the server. */
+  fetchWebhook?: AlertWebhookFetch;
+}
+
+function formatAlertText(value: unknown): string {
+  return typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+}
+
+export function buildAlertPayload(format: AlertFormat, title: string, message: string, data: unknown): unknown {
+  if (format === "slack") {
+    return { text: title ? `*${title}*\n${message}` : message };
+  }
+  if (format === "discord") {
+    return title ? { embeds: [{ title, description: message }] } : { content: message };
+  }
+  // `subject` and `text` map onto email relays; `data` carries the raw value for other consumers.
+  return { subject: title || message.split("\n")[0], text: message, data: data ?? null, sentAt: new Date().toISOString() };
+}
+
+/**
+ * Sends the node's message to its webhook, or to the console with the `console` format. Repeats of the same
+ * dedupe key within the cooldown are suppressed and reported in the output instead of sent.
+ */
+export async function executeAlertNode(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+  fetchImpl: typeof fetch,
+  signal: AbortSignal,
+  options: AlertNodeOptions = {},
+): Promise<CustomNodeResult> {
+  const resolve = (name: string) => resolveOptionalParamValue(findParamValue(node, name), outputsByNodeId, variables);
+
+  const format = resolve("format") ?? "generic";
+  if (!isAlertFormat(format)) {
+    throw new Error(`Alert format must be one of: ${ALERT_FORMATS.join(", ")}`);
+  }
+  const message = formatAlertText(resolve("message") ?? "");
+  if (!message) {
+    throw new Error("Alert requires a message");
+  }
+  const webhookUrl = String(resolve("webhookUrl") ?? "").trim();
+  if (format !== "console" && !/^https?:\/\//i.test(webhookUrl)) {
+    throw new Error("Alert requires an http or https webhookUrl");
+  }
+  const cooldownSeconds = Number(resolve("cooldownSeconds") ?? DEFAULT_ALERT_COOLDOWN_SECONDS);
+  if (!Number.isFinite(cooldownSeconds) || cooldownSeconds < 0) {
+    throw new Error("Alert cooldownSeconds must be a non-negative number");
+  }
+
+  const title = formatAlertText(resolve("title") ?? "");
+  const dedupeKey = formatAlertText(resolve("dedupeKey") ?? "") || `${title}\n${message}`;
+  const payload = buildAlertPayload(format, title, message, resolve("data"));
+  if (options.dryRun) {
+    return { output: { sent: false, dryRun: true, format, dedupeKey, payload } };
+  }
+
+  const cooldownKey = `${format}|${webhookUrl}|${dedupeKey}`;
+  const cooldownMs = cooldownSeconds * 1000;
+  const now = Date.now();
+  pruneAlertCooldowns(now);
+  const lastSentAt = alertLastSentAt.get(cooldownKey)?.sentAt;
+  if (lastSentAt !== undefined && now - lastSentAt < cooldownMs) {
+    return {
+      output: {
+        sent: false,
+        suppressed: true,
+        format,
+        dedupeKey,
+        nextAllowedAt: new Date(lastSentAt + cooldownMs).toISOString(),
+      },
+    };
+  }
+
+  if (format === "console") {
+    console.info(`[alert] ${title ? `${title}: ` : ""}${message}`);
+    alertLastSentAt.set(cooldownKey, { sentAt: now, cooldownMs });
+    return { output: { sent: true, format, dedupeKey, payload } };
+  }
+
+  const fetchWebhook = options.fetchWebhook ?? fetchImpl;
+  // A redirect could lead to a host the server would have refused.
+  const response = await fetchWebhook(webhookUrl, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(payload),
+    redirect: "error",
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Alert webhook responded with status ${response.status}`);
+  }
+
+  alertLastSentAt.set(cooldownKey, { sentAt: now, cooldownMs });
+  // The webhook URL usually embeds a secret, so it stays out of the output.
+  return { output: { sent: true, format, dedupeKey, status: response.status, payload } };
+}
+
+export function executeCustomNode(
+  node: CustomNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+  nodeNamesById: Map<string, string> = new Map(),
+): CustomNodeResult {
+  if (node.method === CONDITION_METHOD) {
+    return executeConditionNode(node, outputsByNodeId, variables);
+  }
+
+  if (node.method === TRANSFORM_METHOD) {
+    return executeTransformNode(node, outputsByNodeId, variables, nodeNamesById);
+  }
+
+  return { output: getCustomNodeOutput(node, outputsByNodeId, variables) };
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+import type { RpcEndpointProfile } from "@/lib/heliusRpc";
+import { CREDENTIAL_NAME_PATTERN, type Credentials } from "@/lib/secretsVault";
+
+const ENDPOINT_PROFILES_STORAGE_KEY = "helius-flow:endpoint-profiles";
+
+const httpUrlSchema = z
+  .string()
+  .url("Enter a full URL, e.g. http://127.0.0.1:8899")
+  .refine((value) => /^https?:\/\//i.test(value), "Only http and https URLs are supported");
+
+export const endpointProfileSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, "Name is required").max(64),
+    rpcUrl: httpUrlSchema,
+    httpBaseUrl: httpUrlSchema.optional(),
+    credentialName: z.string().regex(CREDENTIAL_NAME_PATTERN, "Pick a credential from the vault").optional(),
+    authStyle: z.enum(["query", "header"]),
+    authName: z.string().trim().min(1, "Auth param or header name is required"),
+    authValuePrefix: z.string().optional(),
+    headers: z.record(z.string(), z.string()),
+  })
+  .strict();
+
+const endpointProfilesSchema = z.array(endpointProfileSchema);
+
+/** Reads saved profiles; entries that no longer validate are dropped. */
+export function readEndpointProfiles(): RpcEndpointProfile[] {
+  const raw = window.localStorage.getItem(ENDPOINT_PROFILES_STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.flatMap((entry) => {
+      const profile = endpointProfileSchema.safeParse(entry);
+      return profile.success ? [profile.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function writeEndpointProfiles(profiles: RpcEndpointProfile[]): void {
+  window.localStorage.setItem(ENDPOINT_PROFILES_STORAGE_KEY, JSON.stringify(endpointProfilesSchema.parse(profiles)));
+}
+
+/** The API key to send to a profile: its vault credential, or none when it names no credential. */
+export function resolveEndpointApiKey(
+  profile: RpcEndpointProfile,
+  credentials: Credentials | undefined,
+): { apiKey: string } | { errorMessage: string } {
+  if (!profile.credentialName) {
+    return { apiKey: "" };
+  }
+
+  const apiKey = credentials?.[profile.credentialName];
+  if (apiKey !== undefined) {
+    return { apiKey };
+  }
+  return {
+    errorMessage: credentials
+      ? `Credential "${profile.credentialName}" of endpoint ${profile.name} is not in the vault.`
+      : `Unlock the vault to run against endpoint ${profile.name} with credential "${profile.credentialName}".`,
+  };
+}
+
+/** Parses `Name: value` lines into headers. */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(":");
+    const name = separatorIndex > 0 ? line.slice(0, separatorIndex).trim() : "";
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name)) {
+      throw new Error(`Header lines look like "Name: value", received: ${line.trim()}`);
+    }
+    headers[name] = line.slice(separatorIndex + 1).trim();
+  }
+  return headers;
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
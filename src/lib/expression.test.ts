@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+
+import { evaluateExpression, parseExpression } from "@/lib/expression";
+
+const DATA = {
+  result: {
+    value: [
+      { account: "a", lamports: 2_000_000_000 },
+      { account: "b", lamports: 500_000_000 },
+    ],
+  },
+};
+
+describe("evaluateExpression", () => {
+  test("evaluates operators with JavaScript precedence", () => {
+    expect(evaluateExpression("1 + 2 * 3 - 4 % 3", {})).toBe(6);
+    expect(evaluateExpression("(1 + 2) * 3 >= 9 && !false", {})).toBe(true);
+    expect(evaluateExpression("null ?? 'fallback'", {})).toBe("fallback");
+    expect(evaluateExpression("1 === 1 ? 'yes' : 'no'", {})).toBe("yes");
+    expect(evaluateExpression("'n=' + 1_000", {})).toBe("n=1000");
+  });
+
+  test("compares objects and arrays by value", () => {
+    expect(evaluateExpression("[1, { a: 2 }] == [1, { a: 2 }]", {})).toBe(true);
+    expect(evaluateExpression("{ a: 1 } != { a: 2 }", {})).toBe(true);
+  });
+
+  test("reads members, negative indexes and missing paths", () => {
+    expect(evaluateExpression("result.value[0].account", DATA)).toBe("a");
+    expect(evaluateExpression("result.value[-1]['account']", DATA)).toBe("b");
+    expect(evaluateExpression("result.value.length", DATA)).toBe(2);
+    expect(evaluateExpression("result.missing.deeper", DATA)).toBeNull();
+  });
+
+  test("runs builtins with lambdas", () => {
+    expect(evaluateExpression("sum(result.value, (entry) => lamportsToSol(entry.lamports))", DATA)).toBe(2.5);
+    expect(evaluateExpression("map(filter(result.value, e => e.lamports > 1e9), e => e.account)", DATA)).toEqual([
+      "a",
+    ]);
+    expect(evaluateExpression("sortBy(result.value, e => e.lamports)[0].account", DATA)).toBe("b");
+    expect(evaluateExpression("get(result, 'value[1].account')", DATA)).toBe("b");
+    expect(evaluateExpression("pick(result.value[0], 'account')", DATA)).toEqual({ account: "a" });
+    expect(evaluateExpression("`${count(result.value)} accounts`", DATA)).toBe("2 accounts");
+  });
+
+  test("rejects unknown identifiers, unknown functions and bare lambdas", () => {
+    expect(() => evaluateExpression("missing + 1", {})).toThrow("Unknown identifier: missing");
+    expect(() => evaluateExpression("eval('1')", {})).toThrow("Unknown function: eval");
+    expect(() => evaluateExpression("x => x", {})).toThrow("Expression must produce a value, not a function");
+    expect(() => evaluateExpression("map([1], 2)", {})).toThrow("Expected a function like (item) => item.value");
+  });
+
+  test("blocks prototype properties in member access", () => {
+    for (const source of [
+      "result.__proto__",
+      "result.constructor",
+      "result['constructor']",
+      "result.value.constructor",
+      "'text'.constructor",
+      "result['__pro' + 'to__']",
+      "map(result.value, e => e.constructor)",
+    ]) {
+      expect(() => evaluateExpression(source, DATA)).toThrow("is not allowed");
+    }
+    expect(() => evaluateExpression("result.prototype", DATA)).toThrow('Access to "prototype" is not allowed');
+  });
+
+  test("blocks prototype properties in paths given to get and pick", () => {
+    expect(() => evaluateExpression("get(result, 'constructor')", DATA)).toThrow(
+      'Access to "constructor" is not allowed',
+    );
+    expect(() => evaluateExpression("get(result, 'value.__proto__')", DATA)).toThrow(
+      'Access to "__proto__" is not allowed',
+    );
+    expect(() => evaluateExpression("pick(result, 'constructor.name')", DATA)).toThrow(
+      'Access to "constructor" is not allowed',
+    );
+  });
+
+  test("only reads own properties of plain data", () => {
+    expect(evaluateExpression("result.toString", DATA)).toBeNull();
+    expect(evaluateExpression("result.value.map", DATA)).toBeNull();
+    expect(evaluateExpression("get(result, 'hasOwnProperty')", DATA)).toBeNull();
+  });
+
+  test("blocks prototype keys in object literals", () => {
+    expect(() => evaluateExpression("{ __proto__: { polluted: true } }", {})).toThrow(
+      'Object key "__proto__" is not allowed',
+    );
+    expect(() => evaluateExpression("{ 'constructor': 1 }", {})).toThrow('Object key "constructor" is not allowed');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("parseExpression", () => {
+  test("reports syntax errors with their position", () => {
+    expect(() => parseExpression("")).toThrow("Expression is empty");
+    expect(() => parseExpression("1 +")).toThrow("Unexpected end of expression");
+    expect(() => parseExpression("'open")).toThrow("Unterminated string starting at position 0");
+    expect(() => parseExpression("1 # 2")).toThrow('Unexpected character "#" at position 2');
+    expect(() => parseExpression("x".repeat(10_001))).toThrow("Expression is longer than 10000 characters");
+  });
+});
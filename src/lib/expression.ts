@@ -0,0 +1,775 @@
+import { tokenizePath } from "@/lib/path";
+
+/*
+ * A small, sandboxed expression language used by Transform nodes. Expressions are tokenized, parsed
+ * into an AST and walked by the evaluator below; nothing is ever handed to `eval` or `Function`.
+ * Only own properties of plain data can be read, and functions are limited to the builtins table.
+ */
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "template"; quasis: string[]; expressions: string[]; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "punctuator"; value: string; position: number }
+  | { type: "end"; position: number };
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "==" | "!=" | "<" | "<=" | ">" | ">=";
+type LogicalOperator = "&&" | "||" | "??";
+
+export type ExpressionNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "identifier"; name: string }
+  | { kind: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { kind: "call"; callee: string; args: ExpressionNode[] }
+  | { kind: "unary"; operator: "!" | "-" | "+"; argument: ExpressionNode }
+  | { kind: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "logical"; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: "array"; elements: ExpressionNode[] }
+  | { kind: "object"; entries: Array<{ key: string; value: ExpressionNode }> }
+  | { kind: "template"; quasis: string[]; expressions: ExpressionNode[] }
+  | { kind: "lambda"; params: string[]; body: ExpressionNode };
+
+const MAX_EXPRESSION_LENGTH = 10_000;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+const PUNCTUATORS = [
+  "===",
+  "!==",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ".",
+  ":",
+  "?",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+];
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function readQuotedString(source: string, start: number): { value: string; end: number } {
+  const quote = source[start];
+  let value = "";
+  let index = start + 1;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === quote) {
+      return { value, end: index + 1 };
+    }
+
+    if (char === "\\") {
+      const next = source[index + 1];
+      value += next === "n" ? "\n" : next === "t" ? "\t" : (next ?? "");
+      index += 2;
+      continue;
+    }
+
+    value += char;
+    index += 1;
+  }
+
+  throw new Error(`Unterminated string starting at position ${start}`);
+}
+
+function readTemplate(source: string, start: number): { quasis: string[]; expressions: string[]; end: number } {
+  const quasis: string[] = [];
+  const expressions: string[] = [];
+  let current = "";
+  let index = start + 1;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "`") {
+      quasis.push(current);
+      return { quasis, expressions, end: index + 1 };
+    }
+
+    if (char === "\\") {
+      current += source[index + 1] ?? "";
+      index += 2;
+      continue;
+    }
+
+    if (char === "$" && source[index + 1] === "{") {
+      quasis.push(current);
+      current = "";
+      let depth = 1;
+      let cursor = index + 2;
+      while (cursor < source.length && depth > 0) {
+        const inner = source[cursor];
+        if (inner === "'" || inner === '"') {
+          cursor = readQuotedString(source, cursor).end;
+          continue;
+        }
+        if (inner === "{") {
+          depth += 1;
+        } else if (inner === "}") {
+          depth -= 1;
+        }
+        cursor += 1;
+      }
+      if (depth > 0) {
+        throw new Error(`Unterminated template placeholder at position ${index}`);
+      }
+      expressions.push(source.slice(index + 2, cursor - 1));
+      index = cursor;
+      continue;
+    }
+
+    current += char;
+    index += 1;
+  }
+
+  throw new Error(`Unterminated template starting at position ${start}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index] ?? "";
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[index + 1] ?? ""))) {
+      const match = /^(?:\d+(?:_\d+)*)?(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+      const raw = match?.[0] ?? char;
+      tokens.push({ type: "number", value: Number(raw.replace(/_/g, "")), position: index });
+      index += raw.length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const { value, end } = readQuotedString(source, index);
+      tokens.push({ type: "string", value, position: index });
+      index = end;
+      continue;
+    }
+
+    if (char === "`") {
+      const { quasis, expressions, end } = readTemplate(source, index);
+      tokens.push({ type: "template", quasis, expressions, position: index });
+      index = end;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index));
+      const value = match?.[0] ?? char;
+      tokens.push({ type: "identifier", value, position: index });
+      index += value.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!punctuator) {
+      throw new Error(`Unexpected character "${char}" at position ${index}`);
+    }
+
+    tokens.push({ type: "punctuator", value: punctuator, position: index });
+    index += punctuator.length;
+  }
+
+  tokens.push({ type: "end", position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new Error(`Unexpected token at position ${token.position}`);
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)] as Token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private isPunctuator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "punctuator" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== "punctuator" || token.value !== value) {
+      throw new Error(`Expected "${value}" at position ${token.position}`);
+    }
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseLogical(0);
+    if (!this.isPunctuator("?")) {
+      return test;
+    }
+
+    this.next();
+    const consequent = this.parseConditional();
+    this.expect(":");
+    const alternate = this.parseConditional();
+    return { kind: "conditional", test, consequent, alternate };
+  }
+
+  private parseLogical(level: number): ExpressionNode {
+    const operators: LogicalOperator[] = ["??", "||", "&&"];
+    const operator = operators[level];
+    if (!operator) {
+      return this.parseBinary(0);
+    }
+
+    let left = this.parseLogical(level + 1);
+    while (this.isPunctuator(operator)) {
+      this.next();
+      left = { kind: "logical", operator, left, right: this.parseLogical(level + 1) };
+    }
+    return left;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    const levels: string[][] = [
+      ["==", "!=", "===", "!=="],
+      ["<", "<=", ">", ">="],
+      ["+", "-"],
+      ["*", "/", "%"],
+    ];
+    const operators = levels[level];
+    if (!operators) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== "punctuator" || !operators.includes(token.value)) {
+        return left;
+      }
+      this.next();
+      const operator = (token.value === "===" ? "==" : token.value === "!==" ? "!=" : token.value) as BinaryOperator;
+      left = { kind: "binary", operator, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === "punctuator" && (token.value === "!" || token.value === "-" || token.value === "+")) {
+      this.next();
+      return { kind: "unary", operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.isPunctuator(".")) {
+        this.next();
+        const property = this.next();
+        if (property.type !== "identifier") {
+          throw new Error(`Expected property name at position ${property.position}`);
+        }
+        expression = { kind: "member", object: expression, property: { kind: "literal", value: property.value } };
+        continue;
+      }
+
+      if (this.isPunctuator("[")) {
+        this.next();
+        const property = this.parseConditional();
+        this.expect("]");
+        expression = { kind: "member", object: expression, property };
+        continue;
+      }
+
+      return expression;
+    }
+  }
+
+  private tryParseLambda(): ExpressionNode | undefined {
+    const first = this.peek();
+    if (first.type === "identifier" && this.isPunctuator("=>", 1)) {
+      this.index += 2;
+      return { kind: "lambda", params: [first.value], body: this.parseConditional() };
+    }
+
+    if (!this.isPunctuator("(")) {
+      return undefined;
+    }
+
+    const params: string[] = [];
+    let offset = 1;
+    while (!this.isPunctuator(")", offset)) {
+      const token = this.peek(offset);
+      if (token.type !== "identifier") {
+        return undefined;
+      }
+      params.push(token.value);
+      offset += 1;
+      if (this.isPunctuator(",", offset)) {
+        offset += 1;
+      } else if (!this.isPunctuator(")", offset)) {
+        return undefined;
+      }
+    }
+
+    if (!this.isPunctuator("=>", offset + 1)) {
+      return undefined;
+    }
+
+    this.index += offset + 2;
+    return { kind: "lambda", params, body: this.parseConditional() };
+  }
+
+  private parseList<T>(closing: string, parseEntry: () => T): T[] {
+    const entries: T[] = [];
+    while (!this.isPunctuator(closing)) {
+      entries.push(parseEntry());
+      if (!this.isPunctuator(",")) {
+        break;
+      }
+      this.next();
+    }
+    this.expect(closing);
+    return entries;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const lambda = this.tryParseLambda();
+    if (lambda) {
+      return lambda;
+    }
+
+    const token = this.next();
+
+    if (token.type === "number" || token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (token.type === "template") {
+      return {
+        kind: "template",
+        quasis: token.quasis,
+        expressions: token.expressions.map((source) => parseExpression(source)),
+      };
+    }
+
+    if (token.type === "identifier") {
+      if (Object.prototype.hasOwnProperty.call(KEYWORD_LITERALS, token.value)) {
+        return { kind: "literal", value: KEYWORD_LITERALS[token.value] };
+      }
+
+      if (this.isPunctuator("(")) {
+        this.next();
+        return { kind: "call", callee: token.value, args: this.parseList(")", () => this.parseConditional()) };
+      }
+
+      return { kind: "identifier", name: token.value };
+    }
+
+    if (token.type === "punctuator" && token.value === "(") {
+      const expression = this.parseConditional();
+      this.expect(")");
+      return expression;
+    }
+
+    if (token.type === "punctuator" && token.value === "[") {
+      return { kind: "array", elements: this.parseList("]", () => this.parseConditional()) };
+    }
+
+    if (token.type === "punctuator" && token.value === "{") {
+      return {
+        kind: "object",
+        entries: this.parseList("}", () => {
+          const keyToken = this.next();
+          if (keyToken.type !== "identifier" && keyToken.type !== "string") {
+            throw new Error(`Expected object key at position ${keyToken.position}`);
+          }
+          if (!this.isPunctuator(":") && keyToken.type === "identifier") {
+            return { key: keyToken.value, value: { kind: "identifier", name: keyToken.value } as ExpressionNode };
+          }
+          this.expect(":");
+          return { key: keyToken.value, value: this.parseConditional() };
+        }),
+      };
+    }
+
+    throw new Error(
+      token.type === "end" ? "Unexpected end of expression" : `Unexpected token at position ${token.position}`,
+    );
+  }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new Error("Expression is empty");
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+class Lambda {
+  constructor(
+    readonly params: string[],
+    readonly body: ExpressionNode,
+    readonly scope: Map<string, unknown>,
+  ) {}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Lambda);
+}
+
+function isDeepEqual(left: unknown, right: unknown): boolean {
+  if (Object.is(left, right)) {
+    return true;
+  }
+  if (typeof left !== "object" || typeof right !== "object" || left === null || right === null) {
+    return false;
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function toNumber(value: unknown, context: string): number {
+  const candidate = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof candidate === "bigint") {
+    return Number(candidate);
+  }
+  if (typeof candidate !== "number" || Number.isNaN(candidate)) {
+    throw new Error(`${context} expects a number, received ${JSON.stringify(value ?? null)}`);
+  }
+  return candidate;
+}
+
+function toArray(value: unknown, context: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${context} expects an array, received ${JSON.stringify(value ?? null)}`);
+  }
+  return value;
+}
+
+function readMember(target: unknown, key: unknown): unknown {
+  const property = typeof key === "number" ? key : toText(key);
+  if (typeof property === "string" && BLOCKED_PROPERTIES.has(property)) {
+    throw new Error(`Access to "${property}" is not allowed`);
+  }
+
+  if (target === null || target === undefined) {
+    return undefined;
+  }
+
+  if (Array.isArray(target) || typeof target === "string") {
+    if (property === "length") {
+      return target.length;
+    }
+    const index = typeof property === "number" ? property : Number(property);
+    return Number.isInteger(index) ? target[index < 0 ? target.length + index : index] : undefined;
+  }
+
+  if (isPlainObject(target)) {
+    const name = String(property);
+    return Object.prototype.hasOwnProperty.call(target, name) ? target[name] : undefined;
+  }
+
+  return undefined;
+}
+
+// Paths given to builtins get the same own-property checks as `a.b[0]` in the expression itself.
+function readPath(value: unknown, path: string): unknown {
+  return tokenizePath(path).reduce<unknown>((current, key) => readMember(current, key), value);
+}
+
+function compare(left: unknown, right: unknown, operator: BinaryOperator): boolean {
+  if (typeof left === "string" && typeof right === "string") {
+    return operator === "<" ? left < right : operator === "<=" ? left <= right : operator === ">" ? left > right : left >= right;
+  }
+
+  const a = toNumber(left, `"${operator}"`);
+  const b = toNumber(right, `"${operator}"`);
+  return operator === "<" ? a < b : operator === "<=" ? a <= b : operator === ">" ? a > b : a >= b;
+}
+
+function evaluateBinary(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  if (operator === "==") {
+    return isDeepEqual(left, right);
+  }
+  if (operator === "!=") {
+    return !isDeepEqual(left, right);
+  }
+  if (operator === "<" || operator === "<=" || operator === ">" || operator === ">=") {
+    return compare(left, right, operator);
+  }
+  if (operator === "+" && (typeof left === "string" || typeof right === "string")) {
+    return toText(left) + toText(right);
+  }
+
+  const a = toNumber(left, `"${operator}"`);
+  const b = toNumber(right, `"${operator}"`);
+  if (operator === "+") {
+    return a + b;
+  }
+  if (operator === "-") {
+    return a - b;
+  }
+  if (operator === "*") {
+    return a * b;
+  }
+  if (operator === "/") {
+    return a / b;
+  }
+  return a % b;
+}
+
+type Invoke = (fn: unknown, args: unknown[]) => unknown;
+type Builtin = (args: unknown[], invoke: Invoke) => unknown;
+
+function readKeys(args: unknown[]): string[] {
+  return args.flatMap((arg) => (Array.isArray(arg) ? arg : [arg])).map((key) => toText(key));
+}
+
+function numericValues(args: unknown[], invoke: Invoke, name: string): number[] {
+  const [list, selector] = args;
+  return toArray(list, name).map((entry, index) =>
+    toNumber(selector === undefined ? entry : invoke(selector, [entry, index]), name),
+  );
+}
+
+const BUILTINS: Record<string, Builtin> = {
+  get: ([value, path]) => readPath(value, toText(path)),
+  pick: ([value, ...keys]) => {
+    const result: Record<string, unknown> = {};
+    for (const key of readKeys(keys)) {
+      const picked = readPath(value, key);
+      if (picked !== undefined) {
+        result[key] = picked;
+      }
+    }
+    return result;
+  },
+  omit: ([value, ...keys]) => {
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    const omitted = new Set(readKeys(keys));
+    return Object.fromEntries(Object.entries(value).filter(([key]) => !omitted.has(key)));
+  },
+  keys: ([value]) => (isPlainObject(value) ? Object.keys(value) : Array.isArray(value) ? value.map((_, index) => index) : []),
+  values: ([value]) => (isPlainObject(value) ? Object.values(value) : Array.isArray(value) ? value : []),
+  entries: ([value]) =>
+    isPlainObject(value) ? Object.entries(value).map(([key, entry]) => ({ key, value: entry })) : [],
+  map: ([list, fn], invoke) => toArray(list, "map").map((entry, index) => invoke(fn, [entry, index])),
+  filter: ([list, fn], invoke) => toArray(list, "filter").filter((entry, index) => isTruthy(invoke(fn, [entry, index]))),
+  find: ([list, fn], invoke) => toArray(list, "find").find((entry, index) => isTruthy(invoke(fn, [entry, index]))) ?? null,
+  some: ([list, fn], invoke) => toArray(list, "some").some((entry, index) => isTruthy(invoke(fn, [entry, index]))),
+  every: ([list, fn], invoke) => toArray(list, "every").every((entry, index) => isTruthy(invoke(fn, [entry, index]))),
+  sortBy: ([list, fn], invoke) =>
+    [...toArray(list, "sortBy")]
+      .map((entry, index) => ({ entry, key: fn === undefined ? entry : invoke(fn, [entry, index]) }))
+      .sort((a, b) => (compare(a.key, b.key, "<") ? -1 : compare(a.key, b.key, ">") ? 1 : 0))
+      .map(({ entry }) => entry),
+  reverse: ([list]) => [...toArray(list, "reverse")].reverse(),
+  unique: ([list]) => {
+    const seen = new Set<string>();
+    return toArray(list, "unique").filter((entry) => {
+      const key = JSON.stringify(entry);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  },
+  flatten: ([list]) => toArray(list, "flatten").flatMap((entry) => (Array.isArray(entry) ? entry : [entry])),
+  concat: (args) => args.flatMap((entry) => (Array.isArray(entry) ? entry : [entry])),
+  slice: ([value, start, end]) => {
+    const from = start === undefined ? undefined : toNumber(start, "slice");
+    const to = end === undefined ? undefined : toNumber(end, "slice");
+    return typeof value === "string" ? value.slice(from, to) : toArray(value, "slice").slice(from, to);
+  },
+  first: ([list]) => toArray(list, "first")[0] ?? null,
+  last: ([list]) => toArray(list, "last").at(-1) ?? null,
+  count: ([value]) =>
+    Array.isArray(value) || typeof value === "string" ? value.length : isPlainObject(value) ? Object.keys(value).length : 0,
+  sum: (args, invoke) => numericValues(args, invoke, "sum").reduce((total, entry) => total + entry, 0),
+  avg: (args, invoke) => {
+    const values = numericValues(args, invoke, "avg");
+    return values.length === 0 ? null : values.reduce((total, entry) => total + entry, 0) / values.length;
+  },
+  min: (args, invoke) => {
+    const values = numericValues(args, invoke, "min");
+    return values.length === 0 ? null : Math.min(...values);
+  },
+  max: (args, invoke) => {
+    const values = numericValues(args, invoke, "max");
+    return values.length === 0 ? null : Math.max(...values);
+  },
+  round: ([value, digits]) => {
+    const factor = 10 ** (digits === undefined ? 0 : toNumber(digits, "round"));
+    return Math.round(toNumber(value, "round") * factor) / factor;
+  },
+  floor: ([value]) => Math.floor(toNumber(value, "floor")),
+  ceil: ([value]) => Math.ceil(toNumber(value, "ceil")),
+  abs: ([value]) => Math.abs(toNumber(value, "abs")),
+  lamportsToSol: ([value]) => toNumber(value, "lamportsToSol") / LAMPORTS_PER_SOL,
+  solToLamports: ([value]) => Math.round(toNumber(value, "solToLamports") * LAMPORTS_PER_SOL),
+  fromBaseUnits: ([value, decimals]) => toNumber(value, "fromBaseUnits") / 10 ** toNumber(decimals, "fromBaseUnits"),
+  number: ([value]) => toNumber(value, "number"),
+  string: ([value]) => toText(value),
+  json: ([value]) => JSON.stringify(value ?? null),
+  lower: ([value]) => toText(value).toLowerCase(),
+  upper: ([value]) => toText(value).toUpperCase(),
+  trim: ([value]) => toText(value).trim(),
+  split: ([value, separator]) => toText(value).split(toText(separator)),
+  join: ([list, separator]) => toArray(list, "join").map((entry) => toText(entry)).join(separator === undefined ? "," : toText(separator)),
+  includes: ([value, needle]) =>
+    typeof value === "string" ? value.includes(toText(needle)) : toArray(value, "includes").some((entry) => isDeepEqual(entry, needle)),
+};
+
+export const EXPRESSION_FUNCTION_NAMES = Object.keys(BUILTINS).sort();
+
+function evaluateNode(node: ExpressionNode, scope: Map<string, unknown>): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      if (!scope.has(node.name)) {
+        throw new Error(`Unknown identifier: ${node.name}`);
+      }
+      return scope.get(node.name);
+    case "member":
+      return readMember(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case "unary": {
+      const argument = evaluateNode(node.argument, scope);
+      if (node.operator === "!") {
+        return !isTruthy(argument);
+      }
+      const value = toNumber(argument, `unary "${node.operator}"`);
+      return node.operator === "-" ? -value : value;
+    }
+    case "binary":
+      return evaluateBinary(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope));
+    case "logical": {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === "??") {
+        return left === null || left === undefined ? evaluateNode(node.right, scope) : left;
+      }
+      if (node.operator === "&&") {
+        return isTruthy(left) ? evaluateNode(node.right, scope) : left;
+      }
+      return isTruthy(left) ? left : evaluateNode(node.right, scope);
+    }
+    case "conditional":
+      return isTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+    case "array":
+      return node.elements.map((element) => evaluateNode(element, scope));
+    case "object": {
+      const result: Record<string, unknown> = {};
+      for (const entry of node.entries) {
+        if (BLOCKED_PROPERTIES.has(entry.key)) {
+          throw new Error(`Object key "${entry.key}" is not allowed`);
+        }
+        result[entry.key] = evaluateNode(entry.value, scope);
+      }
+      return result;
+    }
+    case "template":
+      return node.quasis.reduce(
+        (text, quasi, index) =>
+          text + quasi + (index < node.expressions.length ? toText(evaluateNode(node.expressions[index] as ExpressionNode, scope)) : ""),
+        "",
+      );
+    case "lambda":
+      return new Lambda(node.params, node.body, scope);
+    case "call": {
+      const builtin = Object.prototype.hasOwnProperty.call(BUILTINS, node.callee) ? BUILTINS[node.callee] : undefined;
+      if (!builtin) {
+        throw new Error(`Unknown function: ${node.callee}`);
+      }
+      return builtin(
+        node.args.map((arg) => evaluateNode(arg, scope)),
+        invokeLambda,
+      );
+    }
+  }
+}
+
+function invokeLambda(fn: unknown, args: unknown[]): unknown {
+  if (!(fn instanceof Lambda)) {
+    throw new Error("Expected a function like (item) => item.value");
+  }
+
+  const scope = new Map(fn.scope);
+  fn.params.forEach((param, index) => scope.set(param, args[index]));
+  return evaluateNode(fn.body, scope);
+}
+
+export function evaluateExpression(source: string, variables: Record<string, unknown>): unknown {
+  const result = evaluateNode(parseExpression(source), new Map(Object.entries(variables)));
+  if (result instanceof Lambda) {
+    throw new Error("Expression must produce a value, not a function");
+  }
+  return result === undefined ? null : result;
+}
@@ -0,0 +1,147 @@
+import type { MethodRegistryEntry } from "@/lib/methodRegistry";
+
+export type RpcNetwork = "mainnet" | "devnet" | "testnet";
+
+export const DEFAULT_HELIUS_RPC_URLS: Record<RpcNetwork, string> = {
+  mainnet: "https://mainnet.helius-rpc.com",
+  devnet: "https://devnet.helius-rpc.com",
+  testnet: "https://testnet.helius-rpc.com",
+};
+export const DEFAULT_HELIUS_HTTP_URLS: Record<RpcNetwork, string> = {
+  mainnet: "https://api.helius.xyz",
+  devnet: "https://api-devnet.helius.xyz",
+  testnet: "https://api-testnet.helius.xyz",
+};
+export const GATEKEEPER_RPC_URL = "https://beta.helius-rpc.com/";
+
+export type RpcAuthStyle = "query" | "header";
+
+/** A user-defined endpoint, e.g. a local test validator or a private RPC, used instead of the Helius URLs. */
+export interface RpcEndpointProfile {
+  id: string;
+  name: string;
+  rpcUrl: string;
+  /** Base URL for HTTP methods; HTTP nodes fail on profiles without one. */
+  httpBaseUrl?: string;
+  authStyle: RpcAuthStyle;
+  /** Vault credential sent as the endpoint's API key; profiles without one are sent no key. */
+  credentialName?: string;
+  /** Query param or header name that carries the API key. */
+  authName: string;
+  /** Prepended to the API key in header auth, e.g. `Bearer `. */
+  authValuePrefix?: string;
+  /** Sent with every request to the endpoint. */
+  headers: Record<string, string>;
+}
+
+export const DEFAULT_QUERY_AUTH_NAME = "api-key";
+export const DEFAULT_HEADER_AUTH_NAME = "Authorization";
+
+function applyQueryAuth(url: URL, apiKey: string, endpoint?: RpcEndpointProfile): void {
+  if (!apiKey.trim() || (endpoint && endpoint.authStyle !== "query")) {
+    return;
+  }
+  url.searchParams.set(endpoint?.authName || DEFAULT_QUERY_AUTH_NAME, apiKey.trim());
+}
+
+/** Custom headers of the endpoint profile plus the API key when it uses header auth. */
+export function getEndpointHeaders(apiKey: string, endpoint?: RpcEndpointProfile): Record<string, string> {
+  if (!endpoint) {
+    return {};
+  }
+
+  const headers = { ...endpoint.headers };
+  if (endpoint.authStyle === "header" && apiKey.trim()) {
+    headers[endpoint.authName || DEFAULT_HEADER_AUTH_NAME] = `${endpoint.authValuePrefix ?? ""}${apiKey.trim()}`;
+  }
+  return headers;
+}
+
+export function isRpcNetwork(value: unknown): value is RpcNetwork {
+  return value === "mainnet" || value === "devnet" || value === "testnet";
+}
+
+export function buildHeliusJsonRpcUrl(
+  apiKey: string,
+  network: RpcNetwork,
+  gatekeeperEnabled: boolean,
+  endpoint?: RpcEndpointProfile,
+): string {
+  const configured = process.env.NEXT_PUBLIC_HELIUS_RPC_URL;
+  const baseUrl = endpoint
+    ? endpoint.rpcUrl
+    : gatekeeperEnabled
+      ? GATEKEEPER_RPC_URL
+      : configured ?? DEFAULT_HELIUS_RPC_URLS[network];
+
+  const url = new URL(baseUrl);
+  applyQueryAuth(url, apiKey, endpoint);
+  return url.toString();
+}
+
+function appendQueryValue(searchParams: URLSearchParams, key: string, value: unknown): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((entry) => appendQueryValue(searchParams, key, entry));
+    return;
+  }
+
+  if (typeof value === "object") {
+    searchParams.set(key, JSON.stringify(value));
+    return;
+  }
+
+  searchParams.set(key, String(value));
+}
+
+export function buildHeliusHttpUrl(
+  apiKey: string,
+  network: RpcNetwork,
+  entry: MethodRegistryEntry,
+  params: Record<string, unknown>,
+  includeQueryParams = true,
+  endpoint?: RpcEndpointProfile,
+): string {
+  if (!entry.http) {
+    throw new Error("Missing HTTP config for method.");
+  }
+  if (endpoint && !endpoint.httpBaseUrl) {
+    throw new Error(`Endpoint ${endpoint.name} has no HTTP API base URL.`);
+  }
+
+  const baseUrl = endpoint?.httpBaseUrl
+    ? endpoint.httpBaseUrl
+    : network === "mainnet"
+      ? entry.http.mainnetBaseUrl ?? DEFAULT_HELIUS_HTTP_URLS.mainnet
+      : network === "devnet"
+        ? entry.http.devnetBaseUrl ?? DEFAULT_HELIUS_HTTP_URLS.devnet
+        : DEFAULT_HELIUS_HTTP_URLS.testnet;
+
+  const unresolvedPath = entry.http.path;
+  const remainingParams: Record<string, unknown> = { ...params };
+  const resolvedPath = unresolvedPath.replace(/\{([^}]+)\}/g, (_, token: string) => {
+    const value = remainingParams[token];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing required path param: ${token}`);
+    }
+    delete remainingParams[token];
+    return encodeURIComponent(String(value));
+  });
+
+  const url = /^https?:\/\//.test(resolvedPath)
+    ? new URL(resolvedPath)
+    : new URL(resolvedPath.replace(/^\//, ""), `${baseUrl.replace(/\/$/, "")}/`);
+
+  applyQueryAuth(url, apiKey, endpoint);
+
+  if (includeQueryParams) {
+    for (const [key, value] of Object.entries(remainingParams)) {
+      appendQueryValue(url.searchParams, key, value);
+    }
+  }
+
+  return url.toString();
+}
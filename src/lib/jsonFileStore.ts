@@ -0,0 +1,59 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface JsonFileStore<T> {
+  read: () => Promise<T[]>;
+  /**
+   * Reads, updates and writes the file. Updates within the process are applied one at a time, and the file is
+   * replaced atomically, so a crash mid-write leaves the previous version.
+   */
+  update: <R>(update: (entries: T[]) => { entries: T[]; result: R }) => Promise<R>;
+}
+
+/**
+ * A JSON array persisted in `fileName` under SERVER_DATA_DIR (default `.data`). `parseEntry` turns each stored
+ * entry into a `T`, e.g. filling in fields that older versions did not write; entries it returns undefined for are
+ * dropped.
+ */
+export function createJsonFileStore<T>(
+  fileName: string,
+  parseEntry: (entry: unknown) => T | undefined = (entry) => entry as T,
+): JsonFileStore<T> {
+  let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+  const getFilePath = () => path.join(process.env.SERVER_DATA_DIR ?? path.join(process.cwd(), ".data"), fileName);
+
+  const read = async (): Promise<T[]> => {
+    let raw: string;
+    try {
+      raw = await readFile(getFilePath(), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.map(parseEntry).filter((entry): entry is T => entry !== undefined);
+  };
+
+  const update = <R>(apply: (entries: T[]) => { entries: T[]; result: R }): Promise<R> => {
+    const next = pendingUpdate.then(async () => {
+      const { entries, result } = apply(await read());
+      const filePath = getFilePath();
+      const temporaryFilePath = `${filePath}.${process.pid}.tmp`;
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(temporaryFilePath, JSON.stringify(entries, null, 2));
+      await rename(temporaryFilePath, filePath);
+      return result;
+    });
+    pendingUpdate = next.catch(() => undefined);
+    return next;
+  };
+
+  return { read, update };
+}
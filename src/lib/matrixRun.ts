@@ -0,0 +1,170 @@
+import { resolveEndpointApiKey } from "@/lib/endpointProfiles";
+import type { RpcEndpointProfile, RpcNetwork } from "@/lib/heliusRpc";
+import { diffOutputs, type OutputDiffEntry } from "@/lib/outputDiff";
+import type { Credentials } from "@/lib/secretsVault";
+import {
+  runWorkflow,
+  type ExecutionNodeStatus,
+  type RunWorkflowOptions,
+  type WorkflowExecutorConfig,
+  type WorkflowRunResult,
+} from "@/lib/workflowExecutor";
+import type { WorkflowExport } from "@/lib/workflowSchema";
+
+/** One column of a matrix run: where the workflow's requests are sent. */
+export interface MatrixTarget {
+  id: string;
+  label: string;
+  network: RpcNetwork;
+  gatekeeperEnabled: boolean;
+  endpoint?: RpcEndpointProfile;
+}
+
+export interface MatrixNodeCell {
+  status: ExecutionNodeStatus;
+  output?: unknown;
+  error?: string;
+  calls: number;
+  /** Summed duration of the node's calls. */
+  latencyMs?: number;
+}
+
+export interface MatrixColumn {
+  target: MatrixTarget;
+  result: WorkflowRunResult;
+  cells: Record<string, MatrixNodeCell>;
+}
+
+/** How many targets run at the same time; each target also runs its own nodes concurrently. */
+export const MATRIX_TARGET_CONCURRENCY = 2;
+
+type MatrixRunOptions = Pick<RunWorkflowOptions, "concurrency" | "deadlineMs" | "variables" | "signal">;
+
+/** `apiKey` goes to the Helius targets; endpoint targets get their profile's credential from `credentials`. */
+type MatrixRunConfig = Pick<WorkflowExecutorConfig, "apiKey" | "fetch"> & { credentials?: Credentials };
+
+/** Matrix targets for the Helius networks, with and without Gatekeeper, plus every endpoint profile. */
+export function getMatrixTargets(endpointProfiles: RpcEndpointProfile[]): MatrixTarget[] {
+  return [
+    { id: "mainnet", label: "Mainnet", network: "mainnet", gatekeeperEnabled: false },
+    { id: "devnet", label: "Devnet", network: "devnet", gatekeeperEnabled: false },
+    { id: "testnet", label: "Testnet", network: "testnet", gatekeeperEnabled: false },
+    { id: "mainnet-gatekeeper", label: "Mainnet + Gatekeeper", network: "mainnet", gatekeeperEnabled: true },
+    { id: "devnet-gatekeeper", label: "Devnet + Gatekeeper", network: "devnet", gatekeeperEnabled: true },
+    ...endpointProfiles.map((endpoint) => ({
+      id: `endpoint:${endpoint.id}`,
+      label: endpoint.name,
+      network: "mainnet" as const,
+      gatekeeperEnabled: false,
+      endpoint,
+    })),
+  ];
+}
+
+async function runMatrixColumn(
+  workflow: WorkflowExport,
+  target: MatrixTarget,
+  { credentials, ...config }: MatrixRunConfig,
+  options: MatrixRunOptions,
+): Promise<MatrixColumn> {
+  const endpointApiKey = target.endpoint ? resolveEndpointApiKey(target.endpoint, credentials) : undefined;
+  if (endpointApiKey && "errorMessage" in endpointApiKey) {
+    return {
+      target,
+      result: { success: false, errorMessage: endpointApiKey.errorMessage, outputs: {}, handledErrorCount: 0 },
+      cells: {},
+    };
+  }
+
+  const cells: Record<string, MatrixNodeCell> = {};
+  const getCell = (nodeId: string): MatrixNodeCell => {
+    cells[nodeId] ??= { status: "idle", calls: 0 };
+    return cells[nodeId];
+  };
+
+  const result = await runWorkflow(
+    workflow,
+    {
+      ...config,
+      network: target.network,
+      gatekeeperEnabled: target.gatekeeperEnabled,
+      endpoint: target.endpoint,
+      endpointApiKey: endpointApiKey?.apiKey,
+    },
+    {
+      ...options,
+      dryRunAlerts: true,
+      onEvent: (event) => {
+        if (event.type === "node-status") {
+          const cell = getCell(event.nodeId);
+          cell.status = event.status;
+          cell.error = event.error;
+          return;
+        }
+
+        if (event.type === "node-output") {
+          getCell(event.nodeId).output = event.output;
+          return;
+        }
+
+        if (event.type === "node-timing") {
+          const cell = getCell(event.nodeId);
+          cell.calls += 1;
+          cell.latencyMs = (cell.latencyMs ?? 0) + (event.endedAt - event.startedAt);
+        }
+      },
+    },
+  );
+
+  return { target, result, cells };
+}
+
+/**
+ * Runs the workflow once per target, MATRIX_TARGET_CONCURRENCY targets at a time. Outputs already in the
+ * workflow export are dropped so every column starts from the same empty state. Alert nodes only report their
+ * payload, so one matrix run does not send an alert per target. A target whose profile credential is locked or
+ * missing fails without sending a request.
+ */
+export async function runWorkflowMatrix(
+  workflow: WorkflowExport,
+  targets: MatrixTarget[],
+  config: MatrixRunConfig,
+  options: MatrixRunOptions = {},
+): Promise<MatrixColumn[]> {
+  const cleanWorkflow: WorkflowExport = {
+    ...workflow,
+    nodes: workflow.nodes.map((node) => ({ ...node, output: undefined })),
+  };
+  const columns: MatrixColumn[] = new Array(targets.length);
+  let nextIndex = 0;
+  const runTargets = async () => {
+    while (nextIndex < targets.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      columns[index] = await runMatrixColumn(cleanWorkflow, targets[index], config, options);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MATRIX_TARGET_CONCURRENCY, targets.length) }, () => runTargets()));
+  return columns;
+}
+
+/**
+ * Differences of each column's output for a node against the first column that has one. Columns without an
+ * output, and the baseline itself, map to undefined.
+ */
+export function getMatrixCellDiffs(
+  columns: MatrixColumn[],
+  nodeId: string,
+): Array<OutputDiffEntry[] | undefined> {
+  const baselineIndex = columns.findIndex((column) => column.cells[nodeId]?.output !== undefined);
+  const baseline = columns[baselineIndex]?.cells[nodeId]?.output;
+
+  return columns.map((column, index) => {
+    const output = column.cells[nodeId]?.output;
+    if (baselineIndex < 0 || index === baselineIndex || output === undefined) {
+      return undefined;
+    }
+    return diffOutputs(baseline, output);
+  });
+}
@@ -0,0 +1,177 @@
+import { enumeratePaths, getByPath } from "@/lib/path";
+
+export type OutputDiffKind = "added" | "removed" | "changed";
+
+export interface OutputDiffEntry {
+  path: string;
+  kind: OutputDiffKind;
+  before?: unknown;
+  after?: unknown;
+  /** `after - before` when both sides are numbers or numeric strings. */
+  numericDelta?: number;
+}
+
+export interface NodeOutputDiff {
+  nodeId: string;
+  /** `only-before` or `only-after` when just one side has an output for this node. */
+  presence: "both" | "only-before" | "only-after";
+  entries: OutputDiffEntry[];
+}
+
+export const DEFAULT_DIFF_MAX_DEPTH = 8;
+
+const NUMERIC_STRING_PATTERN = /^-?\d+(\.\d+)?$/;
+const LAMPORTS_PATH_PATTERN = /lamports$/i;
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function containerKind(value: unknown): "array" | "object" | "value" {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return isContainer(value) ? "object" : "value";
+}
+
+function countPathSegments(path: string): number {
+  return path.match(/[^.[\]]+/g)?.length ?? 0;
+}
+
+function hasCoveredAncestor(path: string, coveredPaths: Set<string>): boolean {
+  if (coveredPaths.has("")) {
+    return true;
+  }
+
+  for (let index = 1; index < path.length; index += 1) {
+    if ((path[index] === "." || path[index] === "[") && coveredPaths.has(path.slice(0, index))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function hasValueAt(root: unknown, path: string, paths: Set<string>): boolean {
+  return path === "" ? root !== undefined : paths.has(path);
+}
+
+function toNumeric(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && NUMERIC_STRING_PATTERN.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function isSameValue(before: unknown, after: unknown): boolean {
+  if (!isContainer(before) || !isContainer(after)) {
+    return Object.is(before, after);
+  }
+  return JSON.stringify(before) === JSON.stringify(after);
+}
+
+/**
+ * Structural diff of two JSON values. Paths are aligned with `enumeratePaths`, so they use the same
+ * `a.b[0]` syntax as node references. Added or removed subtrees are reported once at their root.
+ */
+export function diffOutputs(before: unknown, after: unknown, maxDepth = DEFAULT_DIFF_MAX_DEPTH): OutputDiffEntry[] {
+  const beforePaths = new Set(enumeratePaths(before, maxDepth));
+  const afterPaths = new Set(enumeratePaths(after, maxDepth));
+  const allPaths = ["", ...new Set([...beforePaths, ...afterPaths])];
+  const entries: OutputDiffEntry[] = [];
+  // Paths already reported as a whole, so their descendants are skipped.
+  const coveredPaths = new Set<string>();
+
+  for (const path of allPaths) {
+    if (hasCoveredAncestor(path, coveredPaths)) {
+      continue;
+    }
+
+    const inBefore = hasValueAt(before, path, beforePaths);
+    const inAfter = hasValueAt(after, path, afterPaths);
+    const beforeValue = path === "" ? before : getByPath(before, path);
+    const afterValue = path === "" ? after : getByPath(after, path);
+
+    if (!inBefore || !inAfter) {
+      if (inBefore || inAfter) {
+        entries.push(
+          inBefore
+            ? { path, kind: "removed", before: beforeValue }
+            : { path, kind: "added", after: afterValue },
+        );
+      }
+      coveredPaths.add(path);
+      continue;
+    }
+
+    const beforeKind = containerKind(beforeValue);
+    const afterKind = containerKind(afterValue);
+    // Children of matching containers are compared on their own, unless they are past the depth limit.
+    if (beforeKind === afterKind && beforeKind !== "value" && countPathSegments(path) <= maxDepth) {
+      continue;
+    }
+
+    if (beforeKind !== afterKind) {
+      coveredPaths.add(path);
+    }
+    if (isSameValue(beforeValue, afterValue)) {
+      continue;
+    }
+
+    const beforeNumber = toNumeric(beforeValue);
+    const afterNumber = toNumeric(afterValue);
+    entries.push({
+      path,
+      kind: "changed",
+      before: beforeValue,
+      after: afterValue,
+      numericDelta: beforeNumber !== undefined && afterNumber !== undefined ? afterNumber - beforeNumber : undefined,
+    });
+  }
+
+  return entries;
+}
+
+/** Diffs two outputs-by-node-id maps, in the given node order. Unchanged nodes are left out. */
+export function diffNodeOutputs(
+  nodeIds: string[],
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  maxDepth = DEFAULT_DIFF_MAX_DEPTH,
+): NodeOutputDiff[] {
+  const diffs: NodeOutputDiff[] = [];
+
+  for (const nodeId of nodeIds) {
+    const beforeValue = before[nodeId];
+    const afterValue = after[nodeId];
+    if (beforeValue === undefined && afterValue === undefined) {
+      continue;
+    }
+
+    const entries = diffOutputs(beforeValue, afterValue, maxDepth);
+    if (entries.length === 0) {
+      continue;
+    }
+
+    diffs.push({
+      nodeId,
+      presence: beforeValue === undefined ? "only-after" : afterValue === undefined ? "only-before" : "both",
+      entries,
+    });
+  }
+
+  return diffs;
+}
+
+/** Changed entries with a numeric delta, e.g. lamport balances and token amounts. */
+export function getNumericDeltas(entries: OutputDiffEntry[]): Array<OutputDiffEntry & { numericDelta: number }> {
+  return entries.filter(
+    (entry): entry is OutputDiffEntry & { numericDelta: number } => entry.numericDelta !== undefined,
+  );
+}
+
+export function isLamportsPath(path: string): boolean {
+  return LAMPORTS_PATH_PATTERN.test(path);
+}
@@ -1,4 +1,4 @@
-function tokenizePath(path: string): Array<string | number> {
+export function tokenizePath(path: string): Array<string | number> {
   const tokens: Array<string | number> = [];
   const matcher = /([^.[\]]+)|(\[(\d+)\])/g;
 
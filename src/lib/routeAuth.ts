@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { timingSafeStringEqual } from "@/lib/webhookAuth";
+
+/**
+ * Returns the error response for a request without `Authorization: Bearer <secret>`, where the secret is read
+ * from the `secretName` environment variable, or undefined when the request may proceed.
+ */
+export function checkBearerSecret(request: Request, secretName: string): NextResponse | undefined {
+  const secret = process.env[secretName] ?? "";
+  if (!secret) {
+    return NextResponse.json({ error: `Missing ${secretName} on the server.` }, { status: 500 });
+  }
+  if (!timingSafeStringEqual(request.headers.get("authorization") ?? "", `Bearer ${secret}`)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  return undefined;
+}
@@ -0,0 +1,239 @@
+import type {
+  ExecutionNodeStatus,
+  NodeCallTiming,
+  WorkflowExecutionEvent,
+  WorkflowRunResult,
+} from "@/lib/workflowExecutor";
+import type { WorkflowExport } from "@/lib/workflowSchema";
+
+export const MAX_STORED_RUNS = 50;
+/** Repeat loops can make thousands of calls; only the latest ones are kept for the timeline. */
+export const MAX_TIMELINE_CALLS = 2000;
+
+const RUN_HISTORY_DB_NAME = "helius-workflow-history";
+const RUN_HISTORY_DB_VERSION = 1;
+const RUN_STORE_NAME = "runs";
+const STARTED_AT_INDEX = "startedAt";
+
+export interface RunNodeRecord {
+  nodeId: string;
+  nodeName: string;
+  method: string;
+  status: ExecutionNodeStatus;
+  error?: string;
+  calls: number;
+  /** First time the node started running, in ms since the epoch. */
+  startedAt?: number;
+  /** Last time the node settled. Repeated nodes span every call. */
+  endedAt?: number;
+  /** Latest request payload sent for the node. */
+  request?: unknown;
+  /** Latest response body received for the node. */
+  response?: unknown;
+}
+
+export interface RunRecord {
+  id: string;
+  /** Helius network or custom endpoint name the run used. */
+  network: string;
+  startedAt: number;
+  endedAt: number;
+  success: boolean;
+  canceled: boolean;
+  timedOut: boolean;
+  errorMessage?: string;
+  handledErrorCount: number;
+  /** Nodes that ran, in workflow order. */
+  nodes: RunNodeRecord[];
+  /** One entry per node call, in the order calls settled. Missing on runs recorded before timelines. */
+  timeline?: NodeCallTiming[];
+}
+
+export interface RunRecorder {
+  record: (event: WorkflowExecutionEvent) => void;
+  finish: (result: WorkflowRunResult) => RunRecord;
+}
+
+export function toCallTiming(event: Extract<WorkflowExecutionEvent, { type: "node-timing" }>): NodeCallTiming {
+  return {
+    nodeId: event.nodeId,
+    startedAt: event.startedAt,
+    endedAt: event.endedAt,
+    outcome: event.outcome,
+    httpStatus: event.httpStatus,
+    attempts: event.attempts,
+    batched: event.batched,
+    cycle: event.cycle,
+    iteration: event.iteration,
+  };
+}
+
+/**
+ * Collects executor events into a RunRecord. Pass every event to `record` and call `finish` with the
+ * run result once `runWorkflow` resolves.
+ */
+export function createRunRecorder(workflow: WorkflowExport, network: string): RunRecorder {
+  const startedAt = Date.now();
+  const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
+  const recordsById = new Map<string, RunNodeRecord>();
+  const timeline: NodeCallTiming[] = [];
+
+  const getRecord = (nodeId: string): RunNodeRecord | undefined => {
+    const existing = recordsById.get(nodeId);
+    if (existing) {
+      return existing;
+    }
+
+    const node = nodesById.get(nodeId);
+    if (!node) {
+      return undefined;
+    }
+
+    const created: RunNodeRecord = { nodeId, nodeName: node.name, method: node.method, status: "idle", calls: 0 };
+    recordsById.set(nodeId, created);
+    return created;
+  };
+
+  return {
+    record: (event) => {
+      if (event.type === "run-planned") {
+        return;
+      }
+
+      if (event.type === "node-timing") {
+        timeline.push(toCallTiming(event));
+        if (timeline.length > MAX_TIMELINE_CALLS) {
+          timeline.shift();
+        }
+        return;
+      }
+
+      const record = getRecord(event.nodeId);
+      if (!record) {
+        return;
+      }
+
+      if (event.type === "node-call") {
+        record.calls += 1;
+        return;
+      }
+
+      if (event.type === "node-request") {
+        record.request = event.payload;
+        return;
+      }
+
+      if (event.type === "node-output") {
+        record.response = event.output;
+        return;
+      }
+
+      if (event.type === "node-status") {
+        const now = Date.now();
+        record.status = event.status;
+        record.error = event.error;
+        if (event.status === "running") {
+          record.startedAt ??= now;
+        } else {
+          record.endedAt = now;
+        }
+      }
+    },
+    finish: (result) => ({
+      id: crypto.randomUUID(),
+      network,
+      startedAt,
+      endedAt: Date.now(),
+      success: result.success,
+      canceled: result.canceled ?? false,
+      timedOut: result.timedOut ?? false,
+      errorMessage: result.errorMessage,
+      handledErrorCount: result.handledErrorCount,
+      nodes: workflow.order
+        .map((nodeId) => recordsById.get(nodeId))
+        .filter((record): record is RunNodeRecord => Boolean(record)),
+      timeline,
+    }),
+  };
+}
+
+export function getRunNodeDurationMs(record: RunNodeRecord): number | undefined {
+  if (record.startedAt === undefined || record.endedAt === undefined) {
+    return undefined;
+  }
+  return Math.max(0, record.endedAt - record.startedAt);
+}
+
+/** Latest response per node, keyed by node id. */
+export function getRunOutputs(run: RunRecord): Record<string, unknown> {
+  const outputs: Record<string, unknown> = {};
+  for (const record of run.nodes) {
+    if (record.response !== undefined) {
+      outputs[record.nodeId] = record.response;
+    }
+  }
+  return outputs;
+}
+
+function openRunHistoryDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Run history needs IndexedDB, which is not available here."));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(RUN_HISTORY_DB_NAME, RUN_HISTORY_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(RUN_STORE_NAME, { keyPath: "id" });
+      store.createIndex(STARTED_AT_INDEX, STARTED_AT_INDEX);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Could not open run history."));
+  });
+}
+
+async function withRunStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openRunHistoryDb();
+
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(RUN_STORE_NAME, mode);
+      const request = action(transaction.objectStore(RUN_STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error ?? new Error("Run history request failed."));
+      transaction.onabort = () => reject(transaction.error ?? new Error("Run history request was aborted."));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Stores a run and drops the oldest runs beyond MAX_STORED_RUNS. */
+export async function saveRun(run: RunRecord): Promise<void> {
+  await withRunStore("readwrite", (store) => {
+    store.put(run);
+    const keysRequest = store.index(STARTED_AT_INDEX).getAllKeys();
+    keysRequest.onsuccess = () => {
+      const excessKeys = keysRequest.result.slice(0, Math.max(0, keysRequest.result.length - MAX_STORED_RUNS));
+      for (const key of excessKeys) {
+        store.delete(key);
+      }
+    };
+  });
+}
+
+/** Returns stored runs, newest first. */
+export async function listRuns(): Promise<RunRecord[]> {
+  const runs = await withRunStore<RunRecord[]>("readonly", (store) => store.getAll());
+  return (runs ?? []).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteRun(runId: string): Promise<void> {
+  await withRunStore("readwrite", (store) => store.delete(runId));
+}
+
+export async function clearRuns(): Promise<void> {
+  await withRunStore("readwrite", (store) => store.clear());
+}
@@ -0,0 +1,90 @@
+import { getNextScheduledRunAt } from "@/lib/cron";
+import {
+  MAX_SCHEDULED_RUNS_KEPT,
+  updateSchedules,
+  type ScheduledRunRecord,
+  type StoredSchedule,
+} from "@/lib/scheduleStore";
+import { runServerWorkflow } from "@/lib/serverRun";
+import type { WorkflowExecutorConfig } from "@/lib/workflowExecutor";
+
+/** Scheduled runs are stopped after this long, so a node repeating forever cannot hold the runner. */
+export const SCHEDULED_RUN_DEADLINE_MS = 10 * 60_000;
+export const SCHEDULE_TICK_INTERVAL_MS = 30_000;
+
+const runningScheduleIds = new Set<string>();
+
+/** Runs a stored schedule's workflow once with the server's API key. Never throws. */
+export function runScheduledWorkflow(
+  stored: StoredSchedule,
+  config: Pick<WorkflowExecutorConfig, "apiKey" | "fetch">,
+): Promise<ScheduledRunRecord> {
+  const { schedule } = stored.workflow;
+  return runServerWorkflow(stored.workflow, config, {
+    network: schedule.network,
+    gatekeeperEnabled: schedule.gatekeeperEnabled,
+    deadlineMs: SCHEDULED_RUN_DEADLINE_MS,
+  });
+}
+
+/**
+ * Starts every enabled schedule whose next run time has passed and records the results. The next run time is
+ * moved forward before the run starts; runs missed while the server was down are not made up.
+ */
+export async function runDueSchedules(
+  config: Pick<WorkflowExecutorConfig, "apiKey" | "fetch">,
+  now: Date = new Date(),
+): Promise<number> {
+  const dueSchedules = await updateSchedules((schedules) => {
+    const due: StoredSchedule[] = [];
+    const updated = schedules.map((schedule) => {
+      if (
+        !schedule.workflow.schedule.enabled ||
+        !schedule.nextRunAt ||
+        Date.parse(schedule.nextRunAt) > now.getTime() ||
+        runningScheduleIds.has(schedule.id)
+      ) {
+        return schedule;
+      }
+      due.push(schedule);
+      return { ...schedule, nextRunAt: getNextScheduledRunAt(schedule.workflow.schedule, now)?.toISOString() };
+    });
+    return { schedules: updated, result: due };
+  });
+
+  await Promise.all(
+    dueSchedules.map(async (schedule) => {
+      runningScheduleIds.add(schedule.id);
+      try {
+        const run = await runScheduledWorkflow(schedule, config);
+        await updateSchedules((schedules) => ({
+          schedules: schedules.map((candidate) =>
+            candidate.id === schedule.id
+              ? { ...candidate, runs: [run, ...candidate.runs].slice(0, MAX_SCHEDULED_RUNS_KEPT) }
+              : candidate,
+          ),
+          result: undefined,
+        }));
+      } finally {
+        runningScheduleIds.delete(schedule.id);
+      }
+    }),
+  );
+
+  return dueSchedules.length;
+}
+
+const tickerState = globalThis as typeof globalThis & { heliusScheduleTicker?: ReturnType<typeof setInterval> };
+
+/** Checks for due schedules every SCHEDULE_TICK_INTERVAL_MS in this process. Safe to call more than once. */
+export function startScheduleTicker(): void {
+  if (tickerState.heliusScheduleTicker) {
+    return;
+  }
+
+  tickerState.heliusScheduleTicker = setInterval(() => {
+    runDueSchedules({ apiKey: process.env.HELIUS_API_KEY ?? "" }).catch((error: unknown) => {
+      console.error("[schedules] Tick failed:", error);
+    });
+  }, SCHEDULE_TICK_INTERVAL_MS);
+}
@@ -0,0 +1,66 @@
+import { createJsonFileStore } from "@/lib/jsonFileStore";
+import type { ServerRunRecord } from "@/lib/serverRun";
+import type { WorkflowExport, WorkflowSchedule } from "@/lib/workflowSchema";
+
+export const MAX_SCHEDULED_RUNS_KEPT = 20;
+
+export type ScheduledRunRecord = ServerRunRecord;
+
+export interface StoredSchedule {
+  id: string;
+  workflow: WorkflowExport & { schedule: WorkflowSchedule };
+  createdAt: string;
+  updatedAt: string;
+  /** Unset while the schedule is disabled or has no upcoming time. */
+  nextRunAt?: string;
+  /** Newest first. */
+  runs: ScheduledRunRecord[];
+}
+
+const schedulesFile = createJsonFileStore<StoredSchedule>("schedules.json");
+
+export function readSchedules(): Promise<StoredSchedule[]> {
+  return schedulesFile.read();
+}
+
+export function updateSchedules<T>(
+  update: (schedules: StoredSchedule[]) => { schedules: StoredSchedule[]; result: T },
+): Promise<T> {
+  return schedulesFile.update((entries) => {
+    const { schedules, result } = update(entries);
+    return { entries: schedules, result };
+  });
+}
+
+/** A schedule without its workflow and run details, for listings. */
+export interface ScheduleSummary {
+  id: string;
+  schedule: WorkflowSchedule;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;
+  runCount: number;
+  lastRun?: Omit<ScheduledRunRecord, "nodes" | "canceled" | "timedOut">;
+}
+
+export function summarizeSchedule(schedule: StoredSchedule): ScheduleSummary {
+  const lastRun = schedule.runs[0];
+  return {
+    id: schedule.id,
+    schedule: schedule.workflow.schedule,
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt,
+    nextRunAt: schedule.nextRunAt,
+    runCount: schedule.runs.length,
+    lastRun: lastRun
+      ? {
+          id: lastRun.id,
+          startedAt: lastRun.startedAt,
+          endedAt: lastRun.endedAt,
+          success: lastRun.success,
+          errorMessage: lastRun.errorMessage,
+          handledErrorCount: lastRun.handledErrorCount,
+        }
+      : undefined,
+  };
+}
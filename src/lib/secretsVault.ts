@@ -0,0 +1,155 @@
+/** Named credential values, e.g. `{ prod: "<helius key>" }`. */
+export type Credentials = Record<string, string>;
+
+/** The vault as stored at rest: credentials encrypted with AES-GCM under a passphrase-derived key. */
+export interface EncryptedVault {
+  version: 1;
+  /** Base64 PBKDF2 salt. */
+  salt: string;
+  iterations: number;
+  /** Base64 AES-GCM nonce; a fresh one is used for every save. */
+  iv: string;
+  /** Base64 encrypted JSON of the credentials. */
+  ciphertext: string;
+}
+
+/** Key derived from the passphrase; held in memory only while the vault is unlocked. */
+export interface VaultKey {
+  cryptoKey: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+}
+
+export const CREDENTIAL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const VAULT_STORAGE_KEY = "helius-flow:vault";
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+async function deriveVaultKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<VaultKey> {
+  const baseKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  const cryptoKey = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+  return { cryptoKey, salt, iterations };
+}
+
+function isEncryptedVault(value: unknown): value is EncryptedVault {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const candidate = value as Partial<EncryptedVault>;
+  return (
+    candidate.version === 1 &&
+    typeof candidate.salt === "string" &&
+    typeof candidate.iterations === "number" &&
+    typeof candidate.iv === "string" &&
+    typeof candidate.ciphertext === "string"
+  );
+}
+
+/** Derives a key for a new vault with a fresh salt. */
+export async function createVaultKey(passphrase: string): Promise<VaultKey> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  return deriveVaultKey(passphrase, crypto.getRandomValues(new Uint8Array(SALT_BYTES)), PBKDF2_ITERATIONS);
+}
+
+export async function encryptVault(key: VaultKey, credentials: Credentials): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key.cryptoKey,
+    new TextEncoder().encode(JSON.stringify(credentials)),
+  );
+  return {
+    version: 1,
+    salt: toBase64(key.salt),
+    iterations: key.iterations,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/** Derives the key from the passphrase and decrypts the credentials. Throws on a wrong passphrase. */
+export async function unlockVault(
+  vault: EncryptedVault,
+  passphrase: string,
+): Promise<{ key: VaultKey; credentials: Credentials }> {
+  const key = await deriveVaultKey(passphrase, fromBase64(vault.salt), vault.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(vault.iv) },
+      key.cryptoKey,
+      fromBase64(vault.ciphertext),
+    );
+  } catch {
+    // AES-GCM authentication fails for a wrong key, so this is the wrong-passphrase path.
+    throw new Error("Wrong passphrase.");
+  }
+
+  const credentials = JSON.parse(new TextDecoder().decode(plaintext)) as unknown;
+  if (typeof credentials !== "object" || credentials === null || Array.isArray(credentials)) {
+    throw new Error("The stored vault is corrupted.");
+  }
+  return {
+    key,
+    credentials: Object.fromEntries(
+      Object.entries(credentials).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    ),
+  };
+}
+
+export function readStoredVault(): EncryptedVault | undefined {
+  const raw = window.localStorage.getItem(VAULT_STORAGE_KEY);
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return isEncryptedVault(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeStoredVault(vault: EncryptedVault): void {
+  window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+}
+
+export function removeStoredVault(): void {
+  window.localStorage.removeItem(VAULT_STORAGE_KEY);
+}
@@ -0,0 +1,113 @@
+import { fetchPublicWebhook } from "@/lib/alertWebhookGuard";
+import type { WorkflowTriggerPayload } from "@/lib/customNodes";
+import type { RpcNetwork } from "@/lib/heliusRpc";
+import { runWorkflow, type ExecutionNodeStatus, type WorkflowExecutorConfig } from "@/lib/workflowExecutor";
+import type { WorkflowExport } from "@/lib/workflowSchema";
+
+const MAX_PERSISTED_OUTPUT_LENGTH = 64_000;
+
+export interface ServerNodeResult {
+  id: string;
+  name: string;
+  status: ExecutionNodeStatus;
+  error?: string;
+  output?: unknown;
+  /** The output was too large to keep. */
+  outputOmitted?: boolean;
+}
+
+/** Result of an unattended run on the server, e.g. a scheduled or triggered one. */
+export interface ServerRunRecord {
+  id: string;
+  startedAt: string;
+  endedAt: string;
+  success: boolean;
+  canceled?: boolean;
+  timedOut?: boolean;
+  errorMessage?: string;
+  handledErrorCount: number;
+  nodes: ServerNodeResult[];
+}
+
+interface ServerRunOptions {
+  network: RpcNetwork;
+  gatekeeperEnabled: boolean;
+  deadlineMs: number;
+  trigger?: WorkflowTriggerPayload;
+}
+
+function toPersistedOutput(output: unknown): Pick<ServerNodeResult, "output" | "outputOmitted"> {
+  if (output === undefined) {
+    return {};
+  }
+  const length = JSON.stringify(output)?.length ?? 0;
+  return length > MAX_PERSISTED_OUTPUT_LENGTH ? { outputOmitted: true } : { output };
+}
+
+/** Runs a whole workflow from empty outputs with the server's API key. Never throws. */
+export async function runServerWorkflow(
+  workflow: WorkflowExport,
+  config: Pick<WorkflowExecutorConfig, "apiKey" | "fetch">,
+  options: ServerRunOptions,
+): Promise<ServerRunRecord> {
+  const startedAt = new Date().toISOString();
+  const nodes = new Map<string, ServerNodeResult>(
+    workflow.nodes.map((node) => [node.id, { id: node.id, name: node.name, status: "idle" }]),
+  );
+  const finish = (result: Omit<ServerRunRecord, "id" | "startedAt" | "endedAt" | "nodes">): ServerRunRecord => ({
+    id: crypto.randomUUID(),
+    startedAt,
+    endedAt: new Date().toISOString(),
+    ...result,
+    nodes: workflow.order
+      .map((nodeId) => nodes.get(nodeId))
+      .filter((node): node is ServerNodeResult => Boolean(node)),
+  });
+
+  if (!config.apiKey.trim()) {
+    return finish({ success: false, errorMessage: "Missing HELIUS_API_KEY on the server.", handledErrorCount: 0 });
+  }
+
+  try {
+    const result = await runWorkflow(
+      { ...workflow, nodes: workflow.nodes.map((node) => ({ ...node, output: undefined })) },
+      {
+        ...config,
+        network: options.network,
+        gatekeeperEnabled: options.gatekeeperEnabled,
+        fetchAlertWebhook: fetchPublicWebhook,
+      },
+      {
+        deadlineMs: options.deadlineMs,
+        trigger: options.trigger,
+        onEvent: (event) => {
+          if (event.type === "run-planned") {
+            return;
+          }
+          const node = nodes.get(event.nodeId);
+          if (event.type === "node-status" && node) {
+            node.status = event.status;
+            node.error = event.error;
+          }
+        },
+      },
+    );
+
+    for (const node of nodes.values()) {
+      Object.assign(node, toPersistedOutput(result.outputs[node.id]));
+    }
+    return finish({
+      success: result.success,
+      canceled: result.canceled,
+      timedOut: result.timedOut,
+      errorMessage: result.errorMessage,
+      handledErrorCount: result.handledErrorCount,
+    });
+  } catch (error) {
+    return finish({
+      success: false,
+      errorMessage: error instanceof Error ? error.message : "Unknown execution error",
+      handledErrorCount: 0,
+    });
+  }
+}
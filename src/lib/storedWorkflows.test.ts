@@ -0,0 +1,100 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+
+import {
+  addWorkflowVersion,
+  getWorkflowVersion,
+  readStoredWorkflows,
+  summarizeStoredWorkflow,
+  toSharedWorkflowExport,
+  updateStoredWorkflows,
+} from "@/lib/storedWorkflows";
+import { WORKFLOW_EXPORT_VERSION, type WorkflowExport } from "@/lib/workflowSchema";
+
+const workflow: WorkflowExport = { version: WORKFLOW_EXPORT_VERSION, nodes: [], order: [] };
+
+// A record as saved before workflows were versioned: no version, savedAt or history, and a version 1 export.
+const unversionedRecord = {
+  id: "wf-1",
+  name: "on-transfer",
+  workflow: { version: 1, nodes: [], order: [] },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-02T00:00:00.000Z",
+  runs: [],
+};
+
+describe("stored workflows", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "stored-workflows-"));
+    process.env.SERVER_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SERVER_DATA_DIR;
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("reads unversioned records as version 1 with no history", async () => {
+    await writeFile(path.join(dataDir, "workflows.json"), JSON.stringify([unversionedRecord, "not a record"]));
+
+    const [stored, ...rest] = await readStoredWorkflows();
+
+    expect(rest).toEqual([]);
+    expect(stored).toMatchObject({ id: "wf-1", version: 1, savedAt: unversionedRecord.updatedAt, history: [] });
+    expect(summarizeStoredWorkflow(stored).version).toBe(1);
+    expect(getWorkflowVersion(stored, 1)).toEqual({ ...workflow, variables: [] });
+  });
+
+  test("adds a version to an unversioned record", async () => {
+    await writeFile(path.join(dataDir, "workflows.json"), JSON.stringify([unversionedRecord]));
+    const nextWorkflow: WorkflowExport = { ...workflow, variables: [] };
+
+    await updateStoredWorkflows((workflows) => ({
+      workflows: workflows.map((stored) => addWorkflowVersion(stored, nextWorkflow, "2026-01-03T00:00:00.000Z")),
+      result: undefined,
+    }));
+
+    const [stored] = await readStoredWorkflows();
+    expect(stored.version).toBe(2);
+    expect(stored.history).toEqual([
+      { version: 1, savedAt: unversionedRecord.updatedAt, workflow: { ...workflow, variables: [] } },
+    ]);
+  });
+
+  test("redacts Alert webhook URLs and the variables they read from shared workflows", () => {
+    const alertNode = {
+      id: "alert",
+      name: "Alert",
+      method: "Alert",
+      schemaMode: "known" as const,
+      rawParamsJson: "[]",
+      params: [
+        { name: "webhookUrl", value: { type: "literal" as const, value: "https://hooks.slack.com/${vars.path}" } },
+        { name: "message", value: { type: "literal" as const, value: "${vars.label}" } },
+      ],
+    };
+    const shared = toSharedWorkflowExport({
+      ...workflow,
+      nodes: [alertNode],
+      order: ["alert"],
+      variables: [
+        { name: "path", type: "string", default: "T000/B000/secret" },
+        { name: "label", type: "string", default: "whale" },
+      ],
+    });
+
+    expect(shared.nodes[0]?.params).toEqual([
+      { name: "webhookUrl", value: { type: "literal", value: "" } },
+      alertNode.params[1],
+    ]);
+    expect(shared.variables).toEqual([
+      { name: "path", type: "string", default: undefined },
+      { name: "label", type: "string", default: "whale" },
+    ]);
+  });
+});
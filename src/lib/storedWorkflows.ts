@@ -0,0 +1,208 @@
+import { randomBytes } from "node:crypto";
+
+import { ALERT_METHOD, TRIGGER_METHOD } from "@/lib/customNodes";
+import { createJsonFileStore } from "@/lib/jsonFileStore";
+import type { ServerRunRecord } from "@/lib/serverRun";
+import { findTemplatePlaceholders } from "@/lib/workflowParams";
+import { migrateWorkflowExport, type WorkflowExport } from "@/lib/workflowSchema";
+
+export const MAX_TRIGGERED_RUNS_KEPT = 20;
+export const MAX_WORKFLOW_VERSIONS_KEPT = 50;
+
+export interface StoredWorkflowVersion {
+  version: number;
+  savedAt: string;
+  workflow: WorkflowExport;
+}
+
+export interface StoredWorkflow {
+  id: string;
+  name: string;
+  description?: string;
+  /** The latest version. */
+  workflow: WorkflowExport;
+  version: number;
+  /** When the latest version was saved. */
+  savedAt: string;
+  /** Earlier versions, newest first. */
+  history: StoredWorkflowVersion[];
+  createdAt: string;
+  updatedAt: string;
+  /** Runs started by the trigger route, newest first. */
+  runs: ServerRunRecord[];
+  /** Opens the workflow through a share link without the library secret; created when a link is first asked for. */
+  shareToken?: string;
+}
+
+/**
+ * Fills in the versioning fields of records saved before workflows were versioned: they become version 1, saved
+ * when they were last updated, with no history. Workflows in an older export format are migrated. Entries without
+ * an id, name or workflow are dropped.
+ */
+function parseStoredWorkflow(entry: unknown): StoredWorkflow | undefined {
+  if (typeof entry !== "object" || entry === null) {
+    return undefined;
+  }
+  const record = entry as Partial<StoredWorkflow>;
+  if (typeof record.id !== "string" || typeof record.name !== "string" || !Array.isArray(record.workflow?.nodes)) {
+    return undefined;
+  }
+
+  const createdAt = record.createdAt ?? record.updatedAt ?? new Date(0).toISOString();
+  const updatedAt = record.updatedAt ?? createdAt;
+  return {
+    ...record,
+    id: record.id,
+    name: record.name,
+    workflow: migrateWorkflowExport(record.workflow) as WorkflowExport,
+    version: typeof record.version === "number" ? record.version : 1,
+    savedAt: record.savedAt ?? updatedAt,
+    history: Array.isArray(record.history)
+      ? record.history.map((entry) => ({ ...entry, workflow: migrateWorkflowExport(entry.workflow) as WorkflowExport }))
+      : [],
+    createdAt,
+    updatedAt,
+    runs: Array.isArray(record.runs) ? record.runs : [],
+  };
+}
+
+const workflowsFile = createJsonFileStore("workflows.json", parseStoredWorkflow);
+
+export function readStoredWorkflows(): Promise<StoredWorkflow[]> {
+  return workflowsFile.read();
+}
+
+export function updateStoredWorkflows<T>(
+  update: (workflows: StoredWorkflow[]) => { workflows: StoredWorkflow[]; result: T },
+): Promise<T> {
+  return workflowsFile.update((entries) => {
+    const { workflows, result } = update(entries);
+    return { entries: workflows, result };
+  });
+}
+
+export function createShareToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * The workflow as served to share links, which need no secret: Alert webhook URLs usually embed a secret, so their
+ * literal values and the defaults of variables they read are removed.
+ */
+export function toSharedWorkflowExport(workflow: WorkflowExport): WorkflowExport {
+  const redactedVariableNames = new Set<string>();
+  const nodes = workflow.nodes.map((node) => {
+    if (node.method !== ALERT_METHOD) {
+      return node;
+    }
+    return {
+      ...node,
+      params: node.params.map((param) => {
+        if (param.name !== "webhookUrl") {
+          return param;
+        }
+        if (param.value.type === "var") {
+          redactedVariableNames.add(param.value.name);
+          return param;
+        }
+        if (param.value.type === "literal") {
+          for (const placeholder of findTemplatePlaceholders(param.value.value)) {
+            if (placeholder.kind === "var") {
+              redactedVariableNames.add(placeholder.name);
+            }
+          }
+          return { ...param, value: { type: "literal" as const, value: "" } };
+        }
+        return param;
+      }),
+    };
+  });
+
+  return {
+    ...workflow,
+    nodes,
+    variables: workflow.variables?.map((variable) =>
+      redactedVariableNames.has(variable.name) ? { ...variable, default: undefined } : variable,
+    ),
+  };
+}
+
+/** Drops node outputs, which are run results rather than part of the workflow. */
+export function toStoredWorkflowExport(workflow: WorkflowExport): WorkflowExport {
+  return { ...workflow, nodes: workflow.nodes.map((node) => ({ ...node, output: undefined })) };
+}
+
+/** Makes `workflow` the latest version and moves the current one into the history. */
+export function addWorkflowVersion(stored: StoredWorkflow, workflow: WorkflowExport, savedAt: string): StoredWorkflow {
+  const previous = { version: stored.version, savedAt: stored.savedAt, workflow: stored.workflow };
+  return {
+    ...stored,
+    workflow,
+    version: stored.version + 1,
+    savedAt,
+    history: [previous, ...stored.history].slice(0, MAX_WORKFLOW_VERSIONS_KEPT - 1),
+    updatedAt: savedAt,
+  };
+}
+
+export function getWorkflowVersion(stored: StoredWorkflow, version: number): WorkflowExport | undefined {
+  if (version === stored.version) {
+    return stored.workflow;
+  }
+  return stored.history.find((entry) => entry.version === version)?.workflow;
+}
+
+export function hasTriggerNode(workflow: WorkflowExport): boolean {
+  return workflow.nodes.some((node) => node.method === TRIGGER_METHOD);
+}
+
+/** Every whitespace-separated term must appear in the name, description, or a node's name or method. */
+export function matchesWorkflowQuery(stored: StoredWorkflow, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [
+    stored.name,
+    stored.description ?? "",
+    ...stored.workflow.nodes.flatMap((node) => [node.name, node.method]),
+  ]
+    .join("\n")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+/** A stored workflow without its nodes, history and run details, for listings. */
+export interface StoredWorkflowSummary {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  nodeCount: number;
+  hasTrigger: boolean;
+  runCount: number;
+  lastRun?: Pick<ServerRunRecord, "id" | "startedAt" | "endedAt" | "success" | "errorMessage">;
+}
+
+export function summarizeStoredWorkflow(stored: StoredWorkflow): StoredWorkflowSummary {
+  const lastRun = stored.runs[0];
+  return {
+    id: stored.id,
+    name: stored.name,
+    description: stored.description,
+    version: stored.version,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    nodeCount: stored.workflow.nodes.length,
+    hasTrigger: hasTriggerNode(stored.workflow),
+    runCount: stored.runs.length,
+    lastRun: lastRun
+      ? {
+          id: lastRun.id,
+          startedAt: lastRun.startedAt,
+          endedAt: lastRun.endedAt,
+          success: lastRun.success,
+          errorMessage: lastRun.errorMessage,
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  TRIGGER_SIGNATURE_HEADER,
+  TRIGGER_SIGNATURE_TOLERANCE_SECONDS,
+  TRIGGER_TIMESTAMP_HEADER,
+  isTriggerRequestAuthorized,
+  signTriggerBody,
+} from "@/lib/webhookAuth";
+
+const SECRET = "trigger-secret";
+const BODY = '{"signature":"abc"}';
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+function signedHeaders(timestamp: number, body = BODY): Headers {
+  return new Headers({
+    [TRIGGER_TIMESTAMP_HEADER]: String(timestamp),
+    [TRIGGER_SIGNATURE_HEADER]: signTriggerBody(body, String(timestamp), SECRET),
+  });
+}
+
+describe("trigger request authorization", () => {
+  test("accepts a fresh signature over the timestamp and body", () => {
+    expect(isTriggerRequestAuthorized(signedHeaders(NOW / 1000), BODY, SECRET, NOW)).toBe(true);
+  });
+
+  test("refuses signatures outside the tolerance window", () => {
+    const stale = NOW / 1000 - TRIGGER_SIGNATURE_TOLERANCE_SECONDS - 1;
+    expect(isTriggerRequestAuthorized(signedHeaders(stale), BODY, SECRET, NOW)).toBe(false);
+  });
+
+  test("refuses a signature without a timestamp or for another body", () => {
+    const headers = signedHeaders(NOW / 1000);
+    headers.delete(TRIGGER_TIMESTAMP_HEADER);
+    expect(isTriggerRequestAuthorized(headers, BODY, SECRET, NOW)).toBe(false);
+    expect(isTriggerRequestAuthorized(signedHeaders(NOW / 1000), '{"signature":"def"}', SECRET, NOW)).toBe(false);
+  });
+
+  test("a different timestamp invalidates the signature", () => {
+    const headers = signedHeaders(NOW / 1000);
+    headers.set(TRIGGER_TIMESTAMP_HEADER, String(NOW / 1000 + 1));
+    expect(isTriggerRequestAuthorized(headers, BODY, SECRET, NOW)).toBe(false);
+  });
+
+  test("accepts the secret as a static Authorization header", () => {
+    expect(isTriggerRequestAuthorized(new Headers({ authorization: SECRET }), BODY, SECRET, NOW)).toBe(true);
+    expect(isTriggerRequestAuthorized(new Headers({ authorization: `Bearer ${SECRET}` }), BODY, SECRET, NOW)).toBe(true);
+    expect(isTriggerRequestAuthorized(new Headers({ authorization: "wrong" }), BODY, SECRET, NOW)).toBe(false);
+  });
+});
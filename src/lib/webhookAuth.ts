@@ -0,0 +1,43 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+export const TRIGGER_SIGNATURE_HEADER = "x-flow-signature";
+/** Unix time in seconds when the request was signed; it is part of the signed text. */
+export const TRIGGER_TIMESTAMP_HEADER = "x-flow-timestamp";
+/** Signed requests older or newer than this are refused, so a captured request cannot be replayed later. */
+export const TRIGGER_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Compares two strings in constant time. Hashing first hides the length of the expected value. */
+export function timingSafeStringEqual(actual: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(actual), digest(expected));
+}
+
+/** HMAC-SHA256 of `<timestamp>.<raw body>`, as sent in `x-flow-signature`. */
+export function signTriggerBody(rawBody: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex")}`;
+}
+
+/**
+ * Accepts either a signature in `x-flow-signature: sha256=<hex>` over `x-flow-timestamp` and the raw body, signed
+ * within TRIGGER_SIGNATURE_TOLERANCE_SECONDS of `now`, or the secret itself in `Authorization`, bare or as a
+ * Bearer token, for senders that can only set a static header (e.g. Helius webhooks).
+ */
+export function isTriggerRequestAuthorized(
+  headers: Headers,
+  rawBody: string,
+  secret: string,
+  now = Date.now(),
+): boolean {
+  const signature = headers.get(TRIGGER_SIGNATURE_HEADER);
+  if (signature) {
+    const timestamp = headers.get(TRIGGER_TIMESTAMP_HEADER)?.trim() ?? "";
+    if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > TRIGGER_SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+    return timingSafeStringEqual(signature.trim().toLowerCase(), signTriggerBody(rawBody, timestamp, secret));
+  }
+
+  const authorization = (headers.get("authorization") ?? "").trim();
+  const token = authorization.toLowerCase().startsWith("bearer ") ? authorization.slice(7).trim() : authorization;
+  return timingSafeStringEqual(token, secret);
+}
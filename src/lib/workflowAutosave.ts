@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+import { parseWorkflowImport, type WorkflowExport } from "@/lib/workflowSchema";
+
+const AUTOSAVE_STORAGE_KEY = "helius-flow:autosave";
+const AUTOSAVE_SETTINGS_STORAGE_KEY = "helius-flow:autosave-settings";
+
+export const AUTOSAVE_DEBOUNCE_MS = 1_000;
+/** Outputs longer than this, as JSON, are left out unless the user opts in. */
+export const MAX_AUTOSAVED_OUTPUT_LENGTH = 64_000;
+
+const autosaveSettingsSchema = z.object({
+  includeApiKey: z.boolean().default(false),
+  includeLargeOutputs: z.boolean().default(false),
+});
+
+export type AutosaveSettings = z.infer<typeof autosaveSettingsSchema>;
+
+const DEFAULT_AUTOSAVE_SETTINGS: AutosaveSettings = { includeApiKey: false, includeLargeOutputs: false };
+
+// The workflow is kept unparsed so that exports from older versions go through the migrations on restore.
+const autosaveSnapshotSchema = z.object({
+  savedAt: z.string(),
+  workflow: z.unknown(),
+  apiKey: z.string().optional(),
+});
+
+export interface AutosaveSnapshot {
+  savedAt: string;
+  workflow: WorkflowExport;
+  apiKey?: string;
+}
+
+export interface AutosaveResult {
+  savedAt: string;
+  /** Outputs left out because they were too large, or did not fit in storage. */
+  omittedOutputCount: number;
+}
+
+export function readAutosaveSettings(): AutosaveSettings {
+  try {
+    const parsed = autosaveSettingsSchema.safeParse(
+      JSON.parse(window.localStorage.getItem(AUTOSAVE_SETTINGS_STORAGE_KEY) ?? "{}"),
+    );
+    return parsed.success ? parsed.data : DEFAULT_AUTOSAVE_SETTINGS;
+  } catch {
+    return DEFAULT_AUTOSAVE_SETTINGS;
+  }
+}
+
+/** Turning the API key option off also removes a saved key from the current snapshot. */
+export function writeAutosaveSettings(settings: AutosaveSettings): void {
+  window.localStorage.setItem(AUTOSAVE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  if (settings.includeApiKey) {
+    return;
+  }
+
+  try {
+    const snapshot = autosaveSnapshotSchema.safeParse(
+      JSON.parse(window.localStorage.getItem(AUTOSAVE_STORAGE_KEY) ?? "null") as unknown,
+    );
+    if (snapshot.success && snapshot.data.apiKey !== undefined) {
+      window.localStorage.setItem(AUTOSAVE_STORAGE_KEY, JSON.stringify({ ...snapshot.data, apiKey: undefined }));
+    }
+  } catch {
+    clearAutosave();
+  }
+}
+
+/** The last autosaved workflow, migrated to the current export version. Unreadable snapshots are ignored. */
+export function readAutosave(): AutosaveSnapshot | undefined {
+  const raw = window.localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const snapshot = autosaveSnapshotSchema.safeParse(JSON.parse(raw) as unknown);
+    if (!snapshot.success) {
+      return undefined;
+    }
+    const workflow = parseWorkflowImport(snapshot.data.workflow);
+    if (!workflow.success) {
+      return undefined;
+    }
+    return { savedAt: snapshot.data.savedAt, workflow: workflow.data, apiKey: snapshot.data.apiKey };
+  } catch {
+    return undefined;
+  }
+}
+
+function omitLargeOutputs(workflow: WorkflowExport): { workflow: WorkflowExport; omittedOutputCount: number } {
+  let omittedOutputCount = 0;
+  const nodes = workflow.nodes.map((node) => {
+    if (node.output === undefined || (JSON.stringify(node.output)?.length ?? 0) <= MAX_AUTOSAVED_OUTPUT_LENGTH) {
+      return node;
+    }
+    omittedOutputCount += 1;
+    return { ...node, output: undefined };
+  });
+  return { workflow: { ...workflow, nodes }, omittedOutputCount };
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22);
+}
+
+/**
+ * Saves `workflow`, which should include outputs, applying the settings. When the browser's storage is full the
+ * outputs are dropped and the save is tried again. Returns undefined if nothing could be saved.
+ */
+export function writeAutosave(
+  workflow: WorkflowExport,
+  apiKey: string,
+  settings: AutosaveSettings,
+): AutosaveResult | undefined {
+  const savedAt = new Date().toISOString();
+  const savedApiKey = settings.includeApiKey && apiKey ? apiKey : undefined;
+  const write = (savedWorkflow: WorkflowExport) =>
+    window.localStorage.setItem(
+      AUTOSAVE_STORAGE_KEY,
+      JSON.stringify({ savedAt, workflow: savedWorkflow, apiKey: savedApiKey }),
+    );
+
+  const trimmed = settings.includeLargeOutputs ? { workflow, omittedOutputCount: 0 } : omitLargeOutputs(workflow);
+  try {
+    write(trimmed.workflow);
+    return { savedAt, omittedOutputCount: trimmed.omittedOutputCount };
+  } catch (error) {
+    if (!isQuotaExceeded(error)) {
+      throw error;
+    }
+  }
+
+  try {
+    write({ ...workflow, nodes: workflow.nodes.map((node) => ({ ...node, output: undefined })) });
+    return { savedAt, omittedOutputCount: workflow.nodes.filter((node) => node.output !== undefined).length };
+  } catch (error) {
+    if (isQuotaExceeded(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export function clearAutosave(): void {
+  window.localStorage.removeItem(AUTOSAVE_STORAGE_KEY);
+}
+
+/** Whether a snapshot holds anything worth offering to restore. */
+export function hasAutosavedWork(snapshot: AutosaveSnapshot): boolean {
+  return snapshot.workflow.nodes.length > 0 || (snapshot.workflow.variables?.length ?? 0) > 0;
+}
@@ -0,0 +1,619 @@
+import { describe, expect, test } from "bun:test";
+
+import { ERROR_HANDLER_METHOD, FOR_EACH_METHOD } from "@/lib/customNodes";
+import type { RpcEndpointProfile } from "@/lib/heliusRpc";
+import {
+  DEFAULT_EXECUTION_CONCURRENCY,
+  MAX_EXECUTION_CONCURRENCY,
+  normalizeExecutionConcurrency,
+  runWorkflow,
+  type WorkflowExecutionEvent,
+  type WorkflowExecutorConfig,
+} from "@/lib/workflowExecutor";
+import {
+  DEFAULT_NODE_RETRY,
+  WORKFLOW_EXPORT_VERSION,
+  type NodeRetry,
+  type ParamValue,
+  type WorkflowExport,
+  type WorkflowNodeExport,
+} from "@/lib/workflowSchema";
+
+const LOG_OUTPUT_METHOD = "Log Output";
+
+function literal(value: unknown): ParamValue {
+  return { type: "literal", value };
+}
+
+function ref(nodeId: string, path = ""): ParamValue {
+  return { type: "ref", nodeId, path };
+}
+
+function createNode(
+  id: string,
+  method: string,
+  params: Record<string, ParamValue> = {},
+  settings: Partial<WorkflowNodeExport> = {},
+): WorkflowNodeExport {
+  return {
+    id,
+    name: id,
+    method,
+    schemaMode: "known",
+    params: Object.entries(params).map(([name, value]) => ({ name, value })),
+    rawParamsJson: "[]",
+    ...settings,
+  };
+}
+
+function createWorkflow(nodes: WorkflowNodeExport[], order = nodes.map((node) => node.id)): WorkflowExport {
+  return { version: WORKFLOW_EXPORT_VERSION, nodes, order };
+}
+
+function createRetry(retry: Partial<NodeRetry> = {}): NodeRetry {
+  return { ...DEFAULT_NODE_RETRY, enabled: true, backoff: "fixed", delayMs: 0, ...retry };
+}
+
+function jsonResponse(body: unknown, init?: ResponseInit): Response {
+  return new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" }, ...init });
+}
+
+function rpcResult(request: unknown, result: unknown): Response {
+  return jsonResponse({ jsonrpc: "2.0", id: (request as { id?: unknown }).id, result });
+}
+
+function waitWithSignal(delayMs: number, signal: AbortSignal | null | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(resolve, delayMs);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    });
+  });
+}
+
+/**
+ * A fetch stub that records each parsed request body, answers with `respond` after `delayMs` and rejects
+ * like fetch when the request's signal aborts. `maxInFlight` is the most requests that were open at once.
+ */
+function createStubFetch(respond: (request: unknown, index: number) => Response | Promise<Response>, delayMs = 0) {
+  const stub = { requests: [] as unknown[], inFlight: 0, maxInFlight: 0, fetch: undefined as unknown as typeof fetch };
+  stub.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const request = JSON.parse(String(init?.body)) as unknown;
+    const index = stub.requests.push(request) - 1;
+    stub.inFlight += 1;
+    stub.maxInFlight = Math.max(stub.maxInFlight, stub.inFlight);
+    try {
+      await waitWithSignal(delayMs, init?.signal);
+      return await respond(request, index);
+    } finally {
+      stub.inFlight -= 1;
+    }
+  }) as typeof fetch;
+  return stub;
+}
+
+/** A fetch stub answering every JSON-RPC request with `result` after `delayMs`. */
+function createRpcFetch(result: unknown, delayMs = 0): typeof fetch {
+  return createStubFetch((request) => rpcResult(request, result), delayMs).fetch;
+}
+
+function createConfig(fetchImpl?: typeof fetch): WorkflowExecutorConfig {
+  return { network: "mainnet", apiKey: "test-key", fetch: fetchImpl };
+}
+
+describe("runWorkflow dependency order", () => {
+  test("starts a For Each after the outside nodes its body reads", async () => {
+    const workflow = createWorkflow([
+      createNode("F", FOR_EACH_METHOD, { items: literal([1, 2]) }),
+      createNode("X", LOG_OUTPUT_METHOD, { value: literal("x") }),
+      createNode("B", LOG_OUTPUT_METHOD, { value: literal("${nodes.F.item}-${nodes.X}") }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig());
+
+    expect(result.success).toBe(true);
+    expect(result.outputs.B).toEqual(["1-x", "2-x"]);
+  });
+
+  test("runs an Error Handler subgraph after the outside nodes it reads", async () => {
+    const workflow = createWorkflow([
+      createNode(
+        "N",
+        FOR_EACH_METHOD,
+        { items: literal("not an array") },
+        { onError: { mode: "handler", handlerNodeId: "H" } },
+      ),
+      createNode("X", "getSlot"),
+      createNode("H", ERROR_HANDLER_METHOD),
+      createNode("D", LOG_OUTPUT_METHOD, { value: literal("${nodes.H.nodeId}-${nodes.X.result}") }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(createRpcFetch(7, 20)));
+
+    expect(result.success).toBe(true);
+    expect(result.handledErrorCount).toBe(1);
+    expect(result.outputs.D).toBe("N-7");
+  });
+});
+
+describe("runWorkflow endpoint profiles", () => {
+  const endpoint: RpcEndpointProfile = {
+    id: "localnet",
+    name: "localnet",
+    rpcUrl: "http://127.0.0.1:8899/",
+    authStyle: "query",
+    authName: "api-key",
+    headers: { "x-client": "flow" },
+  };
+
+  const captureRequests = async (config: Partial<WorkflowExecutorConfig>) => {
+    const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+    const rpcFetch = createRpcFetch(1);
+    const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), headers: init?.headers as Record<string, string> });
+      return rpcFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await runWorkflow(createWorkflow([createNode("slot", "getSlot")]), {
+      ...createConfig(fetchImpl),
+      ...config,
+    });
+    expect(result.success).toBe(true);
+    return requests;
+  };
+
+  test("sends a profile without a credential no API key", async () => {
+    const [request] = await captureRequests({ endpoint });
+
+    expect(request?.url).toBe("http://127.0.0.1:8899/");
+    expect(request?.headers).toEqual({ "content-type": "application/json", "x-client": "flow" });
+  });
+
+  test("sends a profile its own key instead of the Helius key", async () => {
+    const [queryRequest] = await captureRequests({ endpoint, endpointApiKey: "local-key" });
+    const [headerRequest] = await captureRequests({
+      endpoint: { ...endpoint, authStyle: "header", authName: "Authorization", authValuePrefix: "Bearer " },
+      endpointApiKey: "local-key",
+    });
+
+    expect(queryRequest?.url).toBe("http://127.0.0.1:8899/?api-key=local-key");
+    expect(headerRequest?.url).toBe("http://127.0.0.1:8899/");
+    expect(headerRequest?.headers.Authorization).toBe("Bearer local-key");
+  });
+});
+
+describe("runWorkflow execution", () => {
+  test("runs a node after the node it references, whatever the order", async () => {
+    const stub = createStubFetch((request) => rpcResult(request, 100));
+    const workflow = createWorkflow(
+      [createNode("height", "getBlockHeight", { minContextSlot: ref("slot", "result") }), createNode("slot", "getSlot")],
+      ["height", "slot"],
+    );
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch));
+
+    expect(result.success).toBe(true);
+    expect(stub.requests).toEqual([
+      { jsonrpc: "2.0", id: "1", method: "getSlot", params: [] },
+      { jsonrpc: "2.0", id: "1", method: "getBlockHeight", params: [{ minContextSlot: 100 }] },
+    ]);
+  });
+
+  test("stops at the first failure and reports the failed node", async () => {
+    const stub = createStubFetch(() => jsonResponse({ error: "invalid api key" }, { status: 401 }));
+    const workflow = createWorkflow([
+      createNode("slot", "getSlot"),
+      createNode("log", LOG_OUTPUT_METHOD, { value: ref("slot", "result") }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch));
+
+    expect(result).toMatchObject({ success: false, failedNodeId: "slot", errorMessage: "invalid api key" });
+    expect(result.outputs.log).toBeUndefined();
+  });
+
+  test("cancels the running request and starts no further nodes when stopped", async () => {
+    const controller = new AbortController();
+    const stub = createStubFetch((request) => rpcResult(request, 1), 1_000);
+    const statuses: string[] = [];
+    const workflow = createWorkflow([
+      createNode("slot", "getSlot"),
+      createNode("height", "getBlockHeight", { minContextSlot: ref("slot", "result") }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), {
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === "node-status") {
+          statuses.push(`${event.nodeId}:${event.status}`);
+        }
+        if (event.type === "node-call") {
+          setTimeout(() => controller.abort(), 10);
+        }
+      },
+    });
+
+    expect(result).toMatchObject({ success: false, canceled: true, errorMessage: "Execution stopped by user." });
+    expect(result.timedOut).toBeUndefined();
+    expect(stub.requests).toHaveLength(1);
+    expect(statuses).toEqual(["slot:running", "slot:idle"]);
+  });
+
+  test("fails a node that exceeds its own timeout", async () => {
+    const stub = createStubFetch((request) => rpcResult(request, 1), 1_000);
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { timeoutMs: 20 })]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch));
+
+    expect(result).toMatchObject({
+      success: false,
+      timedOut: true,
+      failedNodeId: "slot",
+      errorMessage: "Timed out after 20 ms.",
+    });
+  });
+});
+
+describe("runWorkflow retries", () => {
+  const collectRetries = (events: WorkflowExecutionEvent[]) =>
+    events.flatMap((event) => (event.type === "node-retry" ? [event] : []));
+
+  test("retries retryable statuses and RPC errors until a request succeeds", async () => {
+    const stub = createStubFetch((request, index) => {
+      if (index === 0) {
+        return jsonResponse({ error: "unavailable" }, { status: 503 });
+      }
+      if (index === 1) {
+        return jsonResponse({ jsonrpc: "2.0", id: "1", error: { code: -32005, message: "rate limited" } });
+      }
+      return rpcResult(request, 7);
+    });
+    const events: WorkflowExecutionEvent[] = [];
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { retry: createRetry({ delayMs: 5 }) })]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), { onEvent: (event) => events.push(event) });
+
+    expect(result.success).toBe(true);
+    expect(result.outputs.slot).toMatchObject({ result: 7 });
+    expect(collectRetries(events).map(({ attempt, delayMs, reason }) => ({ attempt, delayMs, reason }))).toEqual([
+      { attempt: 2, delayMs: 5, reason: "HTTP 503" },
+      { attempt: 3, delayMs: 5, reason: "JSON-RPC error -32005" },
+    ]);
+    expect(events.find((event) => event.type === "node-timing")).toMatchObject({ attempts: 3, httpStatus: 200 });
+  });
+
+  test("gives up after maxAttempts and does not retry other statuses", async () => {
+    const unavailable = createStubFetch(() => jsonResponse({ error: "unavailable" }, { status: 503 }));
+    const badRequest = createStubFetch(() => jsonResponse({ error: "bad request" }, { status: 400 }));
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { retry: createRetry({ maxAttempts: 2 }) })]);
+
+    const exhausted = await runWorkflow(workflow, createConfig(unavailable.fetch));
+    const refused = await runWorkflow(workflow, createConfig(badRequest.fetch));
+
+    expect(exhausted).toMatchObject({ success: false, errorMessage: "unavailable" });
+    expect(unavailable.requests).toHaveLength(2);
+    expect(refused).toMatchObject({ success: false, errorMessage: "bad request" });
+    expect(badRequest.requests).toHaveLength(1);
+  });
+
+  test("retries network errors unless retryOnNetworkError is off", async () => {
+    const createFlakyFetch = () =>
+      createStubFetch((request, index) => {
+        if (index === 0) {
+          throw new TypeError("fetch failed");
+        }
+        return rpcResult(request, 1);
+      });
+    const retried = createFlakyFetch();
+    const notRetried = createFlakyFetch();
+
+    const retriedResult = await runWorkflow(
+      createWorkflow([createNode("slot", "getSlot", {}, { retry: createRetry() })]),
+      createConfig(retried.fetch),
+    );
+    const notRetriedResult = await runWorkflow(
+      createWorkflow([createNode("slot", "getSlot", {}, { retry: createRetry({ retryOnNetworkError: false }) })]),
+      createConfig(notRetried.fetch),
+    );
+
+    expect(retriedResult.success).toBe(true);
+    expect(retried.requests).toHaveLength(2);
+    expect(notRetriedResult).toMatchObject({ success: false, errorMessage: "fetch failed" });
+    expect(notRetried.requests).toHaveLength(1);
+  });
+
+  test("backs off exponentially with jitter up to maxDelayMs", async () => {
+    const stub = createStubFetch(() => jsonResponse({ error: "unavailable" }, { status: 503 }));
+    const events: WorkflowExecutionEvent[] = [];
+    const retry = createRetry({ backoff: "exponential", maxAttempts: 4, delayMs: 8, maxDelayMs: 20 });
+
+    await runWorkflow(createWorkflow([createNode("slot", "getSlot", {}, { retry })]), createConfig(stub.fetch), {
+      onEvent: (event) => events.push(event),
+    });
+
+    // Attempts wait 8, 16 and then the 20 ms cap, each between half and all of it.
+    const delays = collectRetries(events).map((event) => event.delayMs);
+    expect(delays).toHaveLength(3);
+    [8, 16, 20].forEach((maxDelayMs, index) => {
+      expect(delays[index]).toBeGreaterThanOrEqual(maxDelayMs / 2);
+      expect(delays[index]).toBeLessThanOrEqual(maxDelayMs);
+    });
+  });
+
+  test("waits for Retry-After, in seconds or as a date, instead of the backoff", async () => {
+    const controller = new AbortController();
+    const events: WorkflowExecutionEvent[] = [];
+    const retryAfterValues = ["2", new Date(Date.now() - 1_000).toUTCString()];
+    const stub = createStubFetch((request, index) =>
+      index < retryAfterValues.length
+        ? jsonResponse({ error: "slow down" }, { status: 429, headers: { "retry-after": retryAfterValues[index] ?? "" } })
+        : rpcResult(request, 1),
+    );
+    const workflow = createWorkflow([
+      createNode("slot", "getSlot", {}, { retry: createRetry({ delayMs: 50_000, maxAttempts: 3 }) }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), {
+      signal: controller.signal,
+      onEvent: (event) => {
+        events.push(event);
+        // Skip the 2 second wait: the date in the past should then retry at once.
+        if (event.type === "node-retry" && event.delayMs === 2_000) {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(collectRetries(events).map((event) => event.delayMs)).toEqual([2_000]);
+    expect(result.canceled).toBe(true);
+
+    const pastDateStub = createStubFetch((request, index) =>
+      index === 0
+        ? jsonResponse({ error: "slow down" }, { status: 429, headers: { "retry-after": retryAfterValues[1] ?? "" } })
+        : rpcResult(request, 1),
+    );
+    const pastDateEvents: WorkflowExecutionEvent[] = [];
+    const pastDateResult = await runWorkflow(workflow, createConfig(pastDateStub.fetch), {
+      onEvent: (event) => pastDateEvents.push(event),
+    });
+
+    expect(pastDateResult.success).toBe(true);
+    expect(collectRetries(pastDateEvents).map((event) => event.delayMs)).toEqual([0]);
+  });
+});
+
+describe("runWorkflow timeouts", () => {
+  const collectSettled = (events: WorkflowExecutionEvent[]) =>
+    events.flatMap((event) => {
+      if (event.type === "node-status" && event.status !== "running") {
+        return [`${event.nodeId}:${event.status}`];
+      }
+      return event.type === "node-timing" ? [`${event.nodeId}:call ${event.outcome}`] : [];
+    });
+
+  test("reports a node timeout as a timed-out node, not a canceled run", async () => {
+    const stub = createStubFetch((request) => rpcResult(request, 1), 1_000);
+    const events: WorkflowExecutionEvent[] = [];
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { timeoutMs: 20 })]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), {
+      deadlineMs: 5_000,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result).toMatchObject({ success: false, timedOut: true, errorMessage: "Timed out after 20 ms." });
+    expect(result.canceled).toBeUndefined();
+    expect(collectSettled(events)).toEqual(["slot:timed-out", "slot:call timed-out"]);
+  });
+
+  test("reports the run deadline as a canceled, timed-out run", async () => {
+    const stub = createStubFetch((request) => rpcResult(request, 1), 1_000);
+    const events: WorkflowExecutionEvent[] = [];
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { timeoutMs: 5_000 })]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), {
+      deadlineMs: 20,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      canceled: true,
+      timedOut: true,
+      errorMessage: "Run deadline exceeded.",
+    });
+    expect(collectSettled(events)).toEqual(["slot:timed-out", "slot:call timed-out"]);
+  });
+
+  test("reports the run deadline when it passes during a retry delay", async () => {
+    const stub = createStubFetch(() => jsonResponse({ error: "unavailable" }, { status: 503 }));
+    const workflow = createWorkflow([createNode("slot", "getSlot", {}, { retry: createRetry({ delayMs: 5_000 }) })]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), { deadlineMs: 20 });
+
+    expect(result).toMatchObject({ canceled: true, timedOut: true, errorMessage: "Run deadline exceeded." });
+    expect(stub.requests).toHaveLength(1);
+  });
+});
+
+describe("runWorkflow concurrency", () => {
+  const createSlotNodes = (count: number) =>
+    Array.from({ length: count }, (_, index) => createNode(`slot${index}`, "getSlot"));
+
+  test("runs independent nodes in parallel up to the concurrency cap", async () => {
+    const capped = createStubFetch((request) => rpcResult(request, 1), 20);
+    const defaulted = createStubFetch((request) => rpcResult(request, 1), 20);
+    const workflow = createWorkflow(createSlotNodes(6));
+
+    const cappedResult = await runWorkflow(workflow, createConfig(capped.fetch), {
+      concurrency: 2,
+      batchJsonRpc: false,
+    });
+    const defaultedResult = await runWorkflow(createWorkflow(createSlotNodes(10)), createConfig(defaulted.fetch), {
+      batchJsonRpc: false,
+    });
+
+    expect(cappedResult.success).toBe(true);
+    expect(capped.requests).toHaveLength(6);
+    expect(capped.maxInFlight).toBe(2);
+    expect(defaultedResult.success).toBe(true);
+    expect(defaulted.maxInFlight).toBe(DEFAULT_EXECUTION_CONCURRENCY);
+  });
+
+  test("starts a dependent node only after its whole level settled", async () => {
+    const stub = createStubFetch((request) => rpcResult(request, 1), 10);
+    const inFlightAtStart: Record<string, number> = {};
+    const fetchImpl = ((input: RequestInfo | URL, init?: RequestInit) => {
+      const { method } = JSON.parse(String(init?.body)) as { method: string };
+      inFlightAtStart[method] = Math.max(inFlightAtStart[method] ?? 0, stub.inFlight);
+      return stub.fetch(input, init);
+    }) as typeof fetch;
+    const workflow = createWorkflow([
+      ...createSlotNodes(3),
+      createNode("height", "getBlockHeight", { minContextSlot: ref("slot2", "result") }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(fetchImpl), { concurrency: 8, batchJsonRpc: false });
+
+    expect(result.success).toBe(true);
+    expect(stub.maxInFlight).toBe(3);
+    expect(inFlightAtStart).toEqual({ getSlot: 2, getBlockHeight: 0 });
+  });
+
+  test("starts no more nodes of a level once one of them failed", async () => {
+    const stub = createStubFetch(() => jsonResponse({ error: "unavailable" }, { status: 503 }));
+
+    const result = await runWorkflow(createWorkflow(createSlotNodes(4)), createConfig(stub.fetch), {
+      concurrency: 1,
+      batchJsonRpc: false,
+    });
+
+    expect(result).toMatchObject({ success: false, failedNodeId: "slot0" });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  test("clamps the concurrency option to a whole number between 1 and the maximum", () => {
+    expect(normalizeExecutionConcurrency(undefined)).toBe(DEFAULT_EXECUTION_CONCURRENCY);
+    expect(normalizeExecutionConcurrency("not a number")).toBe(DEFAULT_EXECUTION_CONCURRENCY);
+    expect(normalizeExecutionConcurrency(0)).toBe(1);
+    expect(normalizeExecutionConcurrency(2.7)).toBe(2);
+    expect(normalizeExecutionConcurrency(1_000)).toBe(MAX_EXECUTION_CONCURRENCY);
+  });
+});
+
+describe("runWorkflow JSON-RPC batches", () => {
+  type BatchEntry = { id: string; method: string };
+
+  const createSlotNodes = (count: number) =>
+    Array.from({ length: count }, (_, index) => createNode(`slot${index}`, "getSlot"));
+  const collectStatuses = (events: WorkflowExecutionEvent[]) =>
+    Object.fromEntries(
+      events.flatMap((event) => (event.type === "node-status" ? [[event.nodeId, event.status] as const] : [])),
+    );
+
+  test("sends a level as one batch and maps responses back by id, in any order", async () => {
+    const stub = createStubFetch((request) =>
+      jsonResponse(
+        (request as BatchEntry[]).map(({ id }) => ({ jsonrpc: "2.0", id, result: Number(id) * 10 })).reverse(),
+      ),
+    );
+    const events: WorkflowExecutionEvent[] = [];
+
+    const result = await runWorkflow(createWorkflow(createSlotNodes(3)), createConfig(stub.fetch), {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.success).toBe(true);
+    expect(stub.requests).toEqual([
+      [
+        { jsonrpc: "2.0", id: "1", method: "getSlot", params: [] },
+        { jsonrpc: "2.0", id: "2", method: "getSlot", params: [] },
+        { jsonrpc: "2.0", id: "3", method: "getSlot", params: [] },
+      ],
+    ]);
+    expect(result.outputs).toMatchObject({ slot0: { result: 10 }, slot1: { result: 20 }, slot2: { result: 30 } });
+    expect(events.filter((event) => event.type === "node-timing" && event.batched)).toHaveLength(3);
+  });
+
+  test("fails only the nodes whose entry has an error or is missing", async () => {
+    const stub = createStubFetch(() =>
+      jsonResponse([
+        { jsonrpc: "2.0", id: "1", result: 1 },
+        { jsonrpc: "2.0", id: "2", error: { code: -32602, message: "Invalid params" } },
+      ]),
+    );
+    const events: WorkflowExecutionEvent[] = [];
+
+    const result = await runWorkflow(createWorkflow(createSlotNodes(3)), createConfig(stub.fetch), {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      failedNodeId: "slot1",
+      errorMessage: JSON.stringify({ code: -32602, message: "Invalid params" }),
+    });
+    expect(result.outputs.slot0).toEqual({ jsonrpc: "2.0", id: "1", result: 1 });
+    expect(collectStatuses(events)).toEqual({ slot0: "success", slot1: "error", slot2: "error" });
+    expect(events).toContainEqual({
+      type: "node-status",
+      nodeId: "slot2",
+      status: "error",
+      error: "Missing response for this node in the JSON-RPC batch.",
+    });
+  });
+
+  test("fails every node when the batch is rejected with a non-array body", async () => {
+    const rejected = createStubFetch(() => jsonResponse({ error: "invalid api key" }, { status: 401 }));
+    const empty = createStubFetch(() => new Response("Bad Gateway", { status: 502 }));
+    const events: WorkflowExecutionEvent[] = [];
+
+    const rejectedResult = await runWorkflow(createWorkflow(createSlotNodes(2)), createConfig(rejected.fetch), {
+      onEvent: (event) => events.push(event),
+    });
+    const emptyResult = await runWorkflow(createWorkflow(createSlotNodes(2)), createConfig(empty.fetch));
+
+    expect(rejectedResult).toMatchObject({ success: false, failedNodeId: "slot0", errorMessage: "invalid api key" });
+    expect(collectStatuses(events)).toEqual({ slot0: "error", slot1: "error" });
+    expect(emptyResult).toMatchObject({ success: false, errorMessage: "Request failed with status 502" });
+  });
+
+  test("splits large levels into batches of at most 20 requests", async () => {
+    const stub = createStubFetch((request) =>
+      jsonResponse((request as BatchEntry[]).map(({ id }) => ({ jsonrpc: "2.0", id, result: 1 }))),
+    );
+
+    const result = await runWorkflow(createWorkflow(createSlotNodes(25)), createConfig(stub.fetch));
+
+    expect(result.success).toBe(true);
+    expect(stub.requests.map((request) => (request as BatchEntry[]).length)).toEqual([20, 5]);
+  });
+
+  test("sends nodes with a retry policy on their own", async () => {
+    const stub = createStubFetch((request) =>
+      Array.isArray(request)
+        ? jsonResponse(request.map(({ id }: BatchEntry) => ({ jsonrpc: "2.0", id, result: 1 })))
+        : rpcResult(request, 1),
+    );
+    const workflow = createWorkflow([
+      ...createSlotNodes(2),
+      createNode("retried", "getSlot", {}, { retry: createRetry() }),
+    ]);
+
+    const result = await runWorkflow(workflow, createConfig(stub.fetch), { concurrency: 1 });
+
+    expect(result.success).toBe(true);
+    expect(stub.requests).toEqual([
+      [
+        { jsonrpc: "2.0", id: "1", method: "getSlot", params: [] },
+        { jsonrpc: "2.0", id: "2", method: "getSlot", params: [] },
+      ],
+      { jsonrpc: "2.0", id: "1", method: "getSlot", params: [] },
+    ]);
+  });
+});
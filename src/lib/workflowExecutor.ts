@@ -0,0 +1,1368 @@
+import {
+  ALERT_METHOD,
+  ERROR_HANDLER_METHOD,
+  executeAlertNode,
+  executeCustomNode,
+  executeTriggerNode,
+  FOR_EACH_METHOD,
+  resolveForEachConfig,
+  TRIGGER_METHOD,
+  type AlertWebhookFetch,
+  type CustomNodeResult,
+  type WorkflowTriggerPayload,
+} from "@/lib/customNodes";
+import {
+  buildHeliusHttpUrl,
+  buildHeliusJsonRpcUrl,
+  getEndpointHeaders,
+  type RpcEndpointProfile,
+  type RpcNetwork,
+} from "@/lib/heliusRpc";
+import { getMethodEntry, type MethodRegistryEntry } from "@/lib/methodRegistry";
+import {
+  buildDependencyExecutionOrder,
+  buildDependencyLevels,
+  calculatePlannedCallCounts,
+  findTemplateIssues,
+  getExternalSourceNodeIds,
+  getReferencedDownstreamNodeIds,
+  type PlannedCallCount,
+} from "@/lib/workflowGraph";
+import { getNodeHttpParams, getNodeParams } from "@/lib/workflowParams";
+import {
+  DEFAULT_NODE_ON_ERROR,
+  DEFAULT_NODE_REPEAT,
+  DEFAULT_NODE_RETRY,
+  type NodeOnError,
+  type NodeRepeat,
+  type NodeRetry,
+  type WorkflowExport,
+  type WorkflowNodeExport,
+} from "@/lib/workflowSchema";
+import { resolveWorkflowVariables, type WorkflowVariableValues } from "@/lib/workflowVariables";
+
+export type ExecutionNodeStatus = "idle" | "running" | "success" | "error" | "timed-out" | "skipped";
+
+export interface WorkflowExecutorConfig {
+  network: RpcNetwork;
+  /** The Helius API key; never sent to `endpoint`. */
+  apiKey: string;
+  gatekeeperEnabled?: boolean;
+  /** Replaces the network's Helius URLs, and the Gatekeeper endpoint, when set. */
+  endpoint?: RpcEndpointProfile;
+  /** The API key sent to `endpoint`, from the profile's own credential; without one no key is sent. */
+  endpointApiKey?: string;
+  /** Defaults to the global fetch. Inject a stub to run workflows in tests or on the server. */
+  fetch?: typeof fetch;
+  /** Sends Alert node webhooks in place of `fetch`, e.g. fetchPublicWebhook on the server. */
+  fetchAlertWebhook?: AlertWebhookFetch;
+}
+
+export type NodeCallOutcome = "success" | "error" | "timed-out" | "canceled";
+
+/** Timing of one node call, reported once the call settles. Times are ms since the epoch. */
+export interface NodeCallTiming {
+  nodeId: string;
+  startedAt: number;
+  endedAt: number;
+  outcome: NodeCallOutcome;
+  /** Status of the last HTTP response, when a request was sent. */
+  httpStatus?: number;
+  /** Requests sent for this call, including retries. */
+  attempts?: number;
+  /** The call shared a JSON-RPC batch request with other nodes. */
+  batched?: boolean;
+  /** Zero-based repeat cycle and iteration of the repeat-enabled node this call ran under. */
+  cycle?: number;
+  iteration?: number;
+}
+
+export type WorkflowExecutionEvent =
+  | { type: "run-planned"; callTargets: Record<string, PlannedCallCount> }
+  | { type: "node-call"; nodeId: string }
+  /** The JSON-RPC body or HTTP params sent for a node. Never includes the URL, so the API key stays out. */
+  | { type: "node-request"; nodeId: string; payload: unknown }
+  | { type: "node-status"; nodeId: string; status: ExecutionNodeStatus; error?: string }
+  | { type: "node-output"; nodeId: string; output: unknown }
+  | { type: "node-retry"; nodeId: string; attempt: number; maxAttempts: number; delayMs: number; reason: string }
+  | ({ type: "node-timing" } & NodeCallTiming);
+
+export const DEFAULT_EXECUTION_CONCURRENCY = 4;
+export const MAX_EXECUTION_CONCURRENCY = 32;
+export const MAX_JSON_RPC_BATCH_SIZE = 20;
+
+export interface RunWorkflowOptions {
+  startIndex?: number;
+  endIndexExclusive?: number;
+  /** How many independent nodes may run at the same time. Defaults to DEFAULT_EXECUTION_CONCURRENCY. */
+  concurrency?: number;
+  /** Send ready JSON-RPC nodes of the same level as one batch request. Defaults to true. */
+  batchJsonRpc?: boolean;
+  /** Aborts the whole run once it has been running this long. */
+  deadlineMs?: number;
+  /** Run-time values for workflow variables, by name. Strings are parsed for non-string variables. */
+  variables?: Record<string, unknown>;
+  /** Payload of the request that started the run; Trigger nodes output it. */
+  trigger?: WorkflowTriggerPayload;
+  /** Alert nodes build their payload without sending it or starting a cooldown. */
+  dryRunAlerts?: boolean;
+  signal?: AbortSignal;
+  onEvent?: (event: WorkflowExecutionEvent) => void;
+}
+
+export interface NodeExecutionResult {
+  success: boolean;
+  canceled?: boolean;
+  /** Set with `canceled` when the run deadline passed, or alone when a node hit its own timeout. */
+  timedOut?: boolean;
+  failedNodeId?: string;
+  failedNodeName?: string;
+  errorMessage?: string;
+  /** A gating node (e.g. Condition) succeeded but its downstream nodes must not run. */
+  skipDownstream?: boolean;
+  /** Response body of the failed request, passed on to error handlers. */
+  failedOutput?: unknown;
+}
+
+export interface WorkflowRunResult extends NodeExecutionResult {
+  /** Latest successful output per node, including outputs carried in from the export. */
+  outputs: Record<string, unknown>;
+  /** Failures that did not stop the run because the node continues on error or routes to a handler. */
+  handledErrorCount: number;
+}
+
+export interface ErrorHandlerOutput {
+  nodeId: string;
+  nodeName: string;
+  method: string;
+  message: string;
+  output: unknown;
+}
+
+type ExecutableNode = WorkflowNodeExport & { repeat: NodeRepeat; retry: NodeRetry; onError: NodeOnError };
+
+interface ExecutionContext {
+  nodes: Record<string, ExecutableNode>;
+  config: WorkflowExecutorConfig;
+  outputsByNodeId: Map<string, unknown>;
+  variables: WorkflowVariableValues;
+  trigger?: WorkflowTriggerPayload;
+  dryRunAlerts: boolean;
+  signal: AbortSignal;
+  concurrency: number;
+  batchJsonRpc: boolean;
+  /** Downstream nodes of every Error Handler node; they only run when a failure is routed to the handler. */
+  errorHandlerSubgraphs: Map<string, string[]>;
+  /** Handlers already running in this call chain, so a failing handler subgraph cannot re-enter itself. */
+  activeErrorHandlerIds: Set<string>;
+  handledFailures: NodeExecutionResult[];
+  /** Set while running one pass of a repeat-enabled node, so call timings can name the pass. */
+  repeatPass?: { cycle: number; iteration: number };
+  emit: (event: WorkflowExecutionEvent) => void;
+}
+
+interface NodeCallDetails {
+  startedAt?: number;
+  httpStatus?: number;
+  attempts?: number;
+}
+
+interface BatchCallDetails {
+  startedAt: number;
+  httpStatus?: number;
+  outcomes: Map<string, NodeCallOutcome>;
+}
+
+const STOPPED_BY_USER_MESSAGE = "Execution stopped by user.";
+const CYCLE_DETECTED_MESSAGE = "Circular reference detected. Remove cyclic references before running.";
+const RUN_DEADLINE_EXCEEDED_MESSAGE = "Run deadline exceeded.";
+const MAX_RETRY_DELAY_MS = 600_000;
+
+function repeatIntervalToMs(interval: number, unit: NodeRepeat["unit"]): number {
+  if (unit === "minutes") {
+    return interval * 60_000;
+  }
+  if (unit === "seconds") {
+    return interval * 1_000;
+  }
+  return interval;
+}
+
+function sleepWithSignal(durationMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException("Execution stopped.", "AbortError"));
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, durationMs);
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener("abort", onAbort);
+      reject(new DOMException("Execution stopped.", "AbortError"));
+    };
+
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+function isTimeoutSignal(signal: AbortSignal): boolean {
+  return signal.aborted && signal.reason instanceof DOMException && signal.reason.name === "TimeoutError";
+}
+
+/**
+ * Returns a signal that aborts with `parent`, or with a TimeoutError after `timeoutMs`. Call `dispose`
+ * once the guarded work has settled so the timer does not outlive it.
+ */
+function createTimeoutSignal(
+  parent: AbortSignal,
+  timeoutMs: number | undefined,
+  timeoutMessage: string,
+): { signal: AbortSignal; dispose: () => void } {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return { signal: parent, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) {
+    onAbort();
+  } else {
+    parent.addEventListener("abort", onAbort);
+  }
+
+  const timeoutId = setTimeout(() => controller.abort(new DOMException(timeoutMessage, "TimeoutError")), timeoutMs);
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timeoutId);
+      parent.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+export function normalizeExecutionConcurrency(value: unknown): number {
+  const candidate = Number(value ?? DEFAULT_EXECUTION_CONCURRENCY);
+  if (!Number.isFinite(candidate)) {
+    return DEFAULT_EXECUTION_CONCURRENCY;
+  }
+  return Math.min(Math.max(Math.floor(candidate), 1), MAX_EXECUTION_CONCURRENCY);
+}
+
+function parseRpcResponse(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+function getResponseErrorMessage(parsed: unknown): string | undefined {
+  if (typeof parsed !== "object" || parsed === null || !("error" in parsed)) {
+    return undefined;
+  }
+
+  const rpcError = (parsed as { error?: unknown }).error;
+  return typeof rpcError === "string" ? rpcError : JSON.stringify(rpcError);
+}
+
+function canRetry(retry: NodeRetry, attempt: number): boolean {
+  return retry.enabled && attempt < retry.maxAttempts;
+}
+
+function getRetryReason(retry: NodeRetry, response: Response, parsed: unknown): string | undefined {
+  if (!response.ok) {
+    return retry.retryOnHttpStatus.includes(response.status) ? `HTTP ${response.status}` : undefined;
+  }
+
+  const rpcError = typeof parsed === "object" && parsed !== null ? (parsed as { error?: unknown }).error : undefined;
+  const code = typeof rpcError === "object" && rpcError !== null ? (rpcError as { code?: unknown }).code : undefined;
+  return typeof code === "number" && retry.retryOnRpcCodes.includes(code) ? `JSON-RPC error ${code}` : undefined;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfterMs(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1_000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getRetryDelayMs(retry: NodeRetry, attempt: number, response?: Response): number {
+  const retryAfterMs = parseRetryAfterMs(response?.headers.get("retry-after") ?? null);
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+
+  if (retry.backoff === "fixed") {
+    return retry.delayMs;
+  }
+
+  // Exponential backoff with "equal jitter": half the delay is fixed, the other half random.
+  const delayMs = Math.min(retry.delayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+  return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+}
+
+async function waitForRetry(
+  context: ExecutionContext,
+  node: ExecutableNode,
+  failedAttempt: number,
+  reason: string,
+  signal: AbortSignal,
+  response?: Response,
+): Promise<void> {
+  const delayMs = getRetryDelayMs(node.retry, failedAttempt, response);
+  context.emit({
+    type: "node-retry",
+    nodeId: node.id,
+    attempt: failedAttempt + 1,
+    maxAttempts: node.retry.maxAttempts,
+    delayMs,
+    reason,
+  });
+  await sleepWithSignal(delayMs, signal);
+}
+
+// Settles a node whose request was aborted by its own timeout, by the run deadline or by the user.
+function settleAbortedNode(
+  context: ExecutionContext,
+  node: ExecutableNode,
+  nodeSignal: AbortSignal,
+): NodeExecutionResult {
+  const failure = { success: false, failedNodeId: node.id, failedNodeName: node.name };
+
+  if (!context.signal.aborted && isTimeoutSignal(nodeSignal)) {
+    const message = (nodeSignal.reason as DOMException).message;
+    context.emit({ type: "node-status", nodeId: node.id, status: "timed-out", error: message });
+    return { ...failure, timedOut: true, errorMessage: message };
+  }
+
+  if (isTimeoutSignal(context.signal)) {
+    context.emit({ type: "node-status", nodeId: node.id, status: "timed-out", error: RUN_DEADLINE_EXCEEDED_MESSAGE });
+    return { ...failure, canceled: true, timedOut: true, errorMessage: RUN_DEADLINE_EXCEEDED_MESSAGE };
+  }
+
+  context.emit({ type: "node-status", nodeId: node.id, status: "idle" });
+  return { ...failure, canceled: true, errorMessage: STOPPED_BY_USER_MESSAGE };
+}
+
+function getCallOutcome(result: NodeExecutionResult): NodeCallOutcome {
+  if (result.success) {
+    return "success";
+  }
+  if (result.timedOut) {
+    return "timed-out";
+  }
+  return result.canceled ? "canceled" : "error";
+}
+
+function emitCallTiming(
+  context: ExecutionContext,
+  nodeId: string,
+  startedAt: number,
+  outcome: NodeCallOutcome,
+  details: Omit<NodeCallTiming, "nodeId" | "startedAt" | "endedAt" | "outcome"> = {},
+): void {
+  context.emit({
+    type: "node-timing",
+    nodeId,
+    startedAt,
+    endedAt: Date.now(),
+    outcome,
+    ...context.repeatPass,
+    ...details,
+  });
+}
+
+function toExecutableNodes(workflow: WorkflowExport): Record<string, ExecutableNode> {
+  const nodes: Record<string, ExecutableNode> = {};
+  for (const node of workflow.nodes) {
+    const repeat = node.repeat ?? DEFAULT_NODE_REPEAT;
+    const retry = node.retry ?? DEFAULT_NODE_RETRY;
+    nodes[node.id] = {
+      ...node,
+      repeat,
+      // A benchmark sample is one request; retry back-off and Retry-After waits would end up in its latency.
+      retry: repeat.enabled && repeat.benchmark ? { ...retry, enabled: false } : retry,
+      onError: node.onError ?? DEFAULT_NODE_ON_ERROR,
+    };
+  }
+  return nodes;
+}
+
+function getRequestApiKey(config: WorkflowExecutorConfig): string {
+  return config.endpoint ? (config.endpointApiKey ?? "") : config.apiKey;
+}
+
+function buildNodeRequest(
+  context: ExecutionContext,
+  node: ExecutableNode,
+  methodEntry: MethodRegistryEntry | undefined,
+): { url: string; init: RequestInit; payload: unknown } {
+  const { config, outputsByNodeId } = context;
+  const gatekeeperEnabled = !config.endpoint && (config.gatekeeperEnabled ?? false);
+  const apiKey = getRequestApiKey(config);
+  const endpointHeaders = getEndpointHeaders(apiKey, config.endpoint);
+
+  if ((methodEntry?.transport ?? "jsonrpc") === "http") {
+    if (!methodEntry?.http) {
+      throw new Error(`Method ${node.method} is marked as HTTP but has no HTTP config.`);
+    }
+
+    const httpParams = getNodeHttpParams(node, outputsByNodeId, context.variables);
+    const shouldUsePost = gatekeeperEnabled || methodEntry.http.method === "POST";
+    const url = buildHeliusHttpUrl(
+      apiKey,
+      config.network,
+      methodEntry,
+      httpParams,
+      !shouldUsePost,
+      config.endpoint,
+    );
+
+    if (shouldUsePost) {
+      return {
+        url,
+        init: {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            ...endpointHeaders,
+          },
+          body: JSON.stringify(httpParams),
+        },
+        payload: httpParams,
+      };
+    }
+
+    return { url, init: { method: "GET", headers: endpointHeaders }, payload: httpParams };
+  }
+
+  const payload = {
+    jsonrpc: "2.0",
+    id: "1",
+    method: node.method,
+    params: getNodeParams(node, outputsByNodeId, context.variables),
+  };
+  return {
+    url: buildHeliusJsonRpcUrl(apiKey, config.network, gatekeeperEnabled, config.endpoint),
+    init: {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...endpointHeaders,
+      },
+      body: JSON.stringify(payload),
+    },
+    payload,
+  };
+}
+
+async function executeSingleNode(context: ExecutionContext, nodeId: string): Promise<NodeExecutionResult> {
+  const call: NodeCallDetails = {};
+  const result = await callSingleNode(context, nodeId, call);
+  if (call.startedAt !== undefined) {
+    emitCallTiming(context, nodeId, call.startedAt, getCallOutcome(result), {
+      httpStatus: call.httpStatus,
+      attempts: call.attempts,
+    });
+  }
+  return result;
+}
+
+async function callSingleNode(
+  context: ExecutionContext,
+  nodeId: string,
+  call: NodeCallDetails,
+): Promise<NodeExecutionResult> {
+  const { config, outputsByNodeId, signal, emit } = context;
+  const node = context.nodes[nodeId];
+  if (!node) {
+    return { success: true };
+  }
+
+  if (signal.aborted) {
+    return {
+      success: false,
+      canceled: true,
+      failedNodeId: node.id,
+      failedNodeName: node.name,
+      errorMessage: STOPPED_BY_USER_MESSAGE,
+    };
+  }
+
+  call.startedAt = Date.now();
+  emit({ type: "node-call", nodeId: node.id });
+  emit({ type: "node-status", nodeId: node.id, status: "running" });
+
+  const nodeTimeout = createTimeoutSignal(signal, node.timeoutMs, `Timed out after ${node.timeoutMs ?? 0} ms.`);
+  try {
+    const methodEntry = getMethodEntry(node.method);
+    const transport = methodEntry?.transport ?? "jsonrpc";
+
+    if (transport === "custom") {
+      const nodeNamesById = new Map(Object.values(context.nodes).map((entry) => [entry.id, entry.name]));
+      let customResult: CustomNodeResult;
+      if (node.method === ALERT_METHOD) {
+        customResult = await executeAlertNode(
+          node,
+          outputsByNodeId,
+          context.variables,
+          config.fetch ?? fetch,
+          nodeTimeout.signal,
+          { dryRun: context.dryRunAlerts, fetchWebhook: config.fetchAlertWebhook },
+        );
+      } else if (node.method === TRIGGER_METHOD) {
+        customResult = executeTriggerNode(node, outputsByNodeId, context.variables, context.trigger);
+      } else {
+        customResult = executeCustomNode(node, outputsByNodeId, context.variables, nodeNamesById);
+      }
+      const { output, skipDownstream } = customResult;
+      emit({ type: "node-output", nodeId: node.id, output });
+      outputsByNodeId.set(node.id, output);
+      emit({ type: "node-status", nodeId: node.id, status: "success" });
+      return { success: true, skipDownstream };
+    }
+
+    const request = buildNodeRequest(context, node, methodEntry);
+    emit({ type: "node-request", nodeId: node.id, payload: request.payload });
+    const fetchImpl = config.fetch ?? fetch;
+    let attempt = 1;
+    let response: Response;
+    let parsed: unknown;
+
+    for (;;) {
+      call.attempts = attempt;
+      try {
+        response = await fetchImpl(request.url, { ...request.init, signal: nodeTimeout.signal });
+        call.httpStatus = response.status;
+      } catch (error) {
+        if (isAbortError(error) || !canRetry(node.retry, attempt) || !node.retry.retryOnNetworkError) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : "Network error";
+        await waitForRetry(context, node, attempt, reason, nodeTimeout.signal);
+        attempt += 1;
+        continue;
+      }
+
+      parsed = parseRpcResponse(await response.text());
+      const retryReason = canRetry(node.retry, attempt) ? getRetryReason(node.retry, response, parsed) : undefined;
+      if (retryReason === undefined) {
+        break;
+      }
+
+      emit({ type: "node-output", nodeId: node.id, output: parsed });
+      await waitForRetry(context, node, attempt, retryReason, nodeTimeout.signal, response);
+      attempt += 1;
+    }
+
+    emit({ type: "node-output", nodeId: node.id, output: parsed });
+
+    if (!response.ok) {
+      const message =
+        typeof parsed === "object" && parsed !== null && "error" in parsed
+          ? String((parsed as { error: unknown }).error)
+          : `Request failed with status ${response.status}`;
+      emit({ type: "node-status", nodeId: node.id, status: "error", error: message });
+      return {
+        success: false,
+        failedNodeId: node.id,
+        failedNodeName: node.name,
+        errorMessage: message,
+        failedOutput: parsed,
+      };
+    }
+
+    const rpcErrorMessage = getResponseErrorMessage(parsed);
+    if (rpcErrorMessage !== undefined) {
+      emit({ type: "node-status", nodeId: node.id, status: "error", error: rpcErrorMessage });
+      return {
+        success: false,
+        failedNodeId: node.id,
+        failedNodeName: node.name,
+        errorMessage: rpcErrorMessage,
+        failedOutput: parsed,
+      };
+    }
+
+    outputsByNodeId.set(node.id, parsed);
+    emit({ type: "node-status", nodeId: node.id, status: "success" });
+    return { success: true };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return settleAbortedNode(context, node, nodeTimeout.signal);
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown execution error";
+    emit({ type: "node-status", nodeId: node.id, status: "error", error: message });
+    return {
+      success: false,
+      failedNodeId: node.id,
+      failedNodeName: node.name,
+      errorMessage: message,
+    };
+  } finally {
+    nodeTimeout.dispose();
+  }
+}
+
+// Nodes with a retry policy, an onError mode or a timeout run on their own: a retry must not resend the
+// other entries of a batch, failures are handled by executeStep and a timeout must not abort other nodes.
+function isBatchableNode(node: ExecutableNode | undefined): boolean {
+  if (!node || node.repeat.enabled || node.retry.enabled || node.onError.mode !== "stop" || node.timeoutMs) {
+    return false;
+  }
+  return (getMethodEntry(node.method)?.transport ?? "jsonrpc") === "jsonrpc";
+}
+
+/**
+ * Sends several JSON-RPC nodes as one batch request. Each entry gets its own id so the responses can be
+ * matched back to their nodes; an `error` in one entry only fails that node.
+ */
+async function executeJsonRpcBatch(context: ExecutionContext, nodeIds: string[]): Promise<NodeExecutionResult> {
+  const call: BatchCallDetails = { startedAt: Date.now(), outcomes: new Map() };
+  const result = await callJsonRpcBatch(context, nodeIds, call);
+  for (const [nodeId, outcome] of call.outcomes) {
+    emitCallTiming(context, nodeId, call.startedAt, outcome, {
+      httpStatus: call.httpStatus,
+      attempts: 1,
+      batched: true,
+    });
+  }
+  return result;
+}
+
+async function callJsonRpcBatch(
+  context: ExecutionContext,
+  nodeIds: string[],
+  call: BatchCallDetails,
+): Promise<NodeExecutionResult> {
+  const { config, outputsByNodeId, signal, emit } = context;
+  const entries: Array<{ node: ExecutableNode; id: string; params: unknown }> = [];
+  let failure: NodeExecutionResult | undefined;
+
+  const failNode = (node: ExecutableNode, message: string) => {
+    call.outcomes.set(node.id, "error");
+    emit({ type: "node-status", nodeId: node.id, status: "error", error: message });
+    failure ??= {
+      success: false,
+      failedNodeId: node.id,
+      failedNodeName: node.name,
+      errorMessage: message,
+    };
+  };
+
+  for (const nodeId of nodeIds) {
+    const node = context.nodes[nodeId];
+    if (!node) {
+      continue;
+    }
+
+    call.outcomes.set(node.id, "success");
+    emit({ type: "node-call", nodeId: node.id });
+    emit({ type: "node-status", nodeId: node.id, status: "running" });
+
+    try {
+      const id = String(entries.length + 1);
+      const params = getNodeParams(node, outputsByNodeId, context.variables);
+      entries.push({ node, id, params });
+      emit({ type: "node-request", nodeId: node.id, payload: { jsonrpc: "2.0", id, method: node.method, params } });
+    } catch (error) {
+      failNode(node, error instanceof Error ? error.message : "Unknown execution error");
+    }
+  }
+
+  if (entries.length === 0) {
+    return failure ?? { success: true };
+  }
+
+  try {
+    const fetchImpl = config.fetch ?? fetch;
+    const apiKey = getRequestApiKey(config);
+    const response = await fetchImpl(
+      buildHeliusJsonRpcUrl(apiKey, config.network, config.gatekeeperEnabled ?? false, config.endpoint),
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...getEndpointHeaders(apiKey, config.endpoint),
+        },
+        body: JSON.stringify(
+          entries.map(({ node, id, params }) => ({
+            jsonrpc: "2.0",
+            id,
+            method: node.method,
+            params,
+          })),
+        ),
+        signal,
+      },
+    );
+    call.httpStatus = response.status;
+    const parsed = parseRpcResponse(await response.text());
+
+    // A non-array body means the whole batch was rejected, e.g. an invalid API key.
+    if (!Array.isArray(parsed)) {
+      const message = getResponseErrorMessage(parsed) ?? `Request failed with status ${response.status}`;
+      for (const { node } of entries) {
+        emit({ type: "node-output", nodeId: node.id, output: parsed });
+        failNode(node, message);
+      }
+      return failure ?? { success: false, errorMessage: message };
+    }
+
+    const responsesById = new Map<string, unknown>();
+    for (const entry of parsed) {
+      if (typeof entry === "object" && entry !== null && "id" in entry) {
+        responsesById.set(String((entry as { id: unknown }).id), entry);
+      }
+    }
+
+    for (const { node, id } of entries) {
+      const entryResponse = responsesById.get(id);
+      if (entryResponse === undefined) {
+        failNode(node, "Missing response for this node in the JSON-RPC batch.");
+        continue;
+      }
+
+      emit({ type: "node-output", nodeId: node.id, output: entryResponse });
+      const message = getResponseErrorMessage(entryResponse);
+      if (message !== undefined) {
+        failNode(node, message);
+        continue;
+      }
+
+      outputsByNodeId.set(node.id, entryResponse);
+      emit({ type: "node-status", nodeId: node.id, status: "success" });
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      const [firstResult] = entries.map(({ node }) => {
+        const result = settleAbortedNode(context, node, signal);
+        call.outcomes.set(node.id, getCallOutcome(result));
+        return result;
+      });
+      return firstResult ?? { success: false, canceled: true, errorMessage: STOPPED_BY_USER_MESSAGE };
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown execution error";
+    for (const { node } of entries) {
+      failNode(node, message);
+    }
+  }
+
+  return failure ?? { success: true };
+}
+
+function skipNodes(context: ExecutionContext, nodeIds: string[], skippedNodeIds: Set<string>): void {
+  for (const nodeId of nodeIds) {
+    if (skippedNodeIds.has(nodeId)) {
+      continue;
+    }
+    skippedNodeIds.add(nodeId);
+    context.emit({ type: "node-status", nodeId, status: "skipped" });
+  }
+}
+
+async function executeForEach(
+  context: ExecutionContext,
+  nodeId: string,
+  bodyNodeIds: string[],
+): Promise<NodeExecutionResult> {
+  const { signal, emit } = context;
+  const node = context.nodes[nodeId];
+  if (!node) {
+    return { success: true };
+  }
+
+  if (signal.aborted) {
+    return {
+      success: false,
+      canceled: true,
+      failedNodeId: node.id,
+      failedNodeName: node.name,
+      errorMessage: STOPPED_BY_USER_MESSAGE,
+    };
+  }
+
+  const startedAt = Date.now();
+  const finish = (result: NodeExecutionResult): NodeExecutionResult => {
+    emitCallTiming(context, node.id, startedAt, getCallOutcome(result));
+    return result;
+  };
+  emit({ type: "node-call", nodeId: node.id });
+  emit({ type: "node-status", nodeId: node.id, status: "running" });
+
+  let items: unknown[];
+  let concurrency: number;
+  try {
+    ({ items, concurrency } = resolveForEachConfig(node, context.outputsByNodeId, context.variables));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown execution error";
+    emit({ type: "node-status", nodeId: node.id, status: "error", error: message });
+    return finish({
+      success: false,
+      failedNodeId: node.id,
+      failedNodeName: node.name,
+      errorMessage: message,
+    });
+  }
+
+  const collectedOutputs = new Map<string, unknown[]>(
+    bodyNodeIds.map((bodyNodeId) => [bodyNodeId, new Array<unknown>(items.length).fill(null)]),
+  );
+  let failure: { index: number; result: NodeExecutionResult } | undefined;
+  let nextIndex = 0;
+
+  // Each item runs against its own copy of the outputs so concurrent items cannot see each other's results.
+  const runItems = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+
+      const itemOutputsByNodeId = new Map(context.outputsByNodeId);
+      for (const bodyNodeId of bodyNodeIds) {
+        itemOutputsByNodeId.delete(bodyNodeId);
+      }
+      itemOutputsByNodeId.set(node.id, { item: items[index], index });
+
+      const itemResult = await executeSubgraph({ ...context, outputsByNodeId: itemOutputsByNodeId }, bodyNodeIds);
+      for (const bodyNodeId of bodyNodeIds) {
+        const collected = collectedOutputs.get(bodyNodeId);
+        if (collected) {
+          collected[index] = itemOutputsByNodeId.get(bodyNodeId) ?? null;
+        }
+      }
+
+      if (!itemResult.success) {
+        failure ??= { index, result: itemResult };
+        return;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => runItems()));
+
+  if (failure) {
+    if (failure.result.canceled) {
+      emit({ type: "node-status", nodeId: node.id, status: "idle" });
+    } else {
+      emit({
+        type: "node-status",
+        nodeId: node.id,
+        status: "error",
+        error: `Item ${failure.index} failed: ${failure.result.errorMessage ?? "unknown error"}`,
+      });
+    }
+    return finish(failure.result);
+  }
+
+  if (items.length === 0) {
+    skipNodes(context, bodyNodeIds, new Set<string>());
+  } else {
+    for (const [bodyNodeId, collected] of collectedOutputs) {
+      context.outputsByNodeId.set(bodyNodeId, collected);
+      emit({ type: "node-output", nodeId: bodyNodeId, output: collected });
+    }
+  }
+
+  // `item`/`index` keep the first element so the ref picker can offer item paths after a run.
+  const output = {
+    count: items.length,
+    items,
+    item: items[0] ?? null,
+    index: items.length > 0 ? 0 : null,
+  };
+  context.outputsByNodeId.set(node.id, output);
+  emit({ type: "node-output", nodeId: node.id, output });
+  emit({ type: "node-status", nodeId: node.id, status: "success" });
+  return finish({ success: true });
+}
+
+async function executeErrorHandler(
+  context: ExecutionContext,
+  handlerNodeId: string,
+  handlerOutput: ErrorHandlerOutput,
+): Promise<NodeExecutionResult> {
+  const { emit } = context;
+  const handler = context.nodes[handlerNodeId];
+  if (!handler || handler.method !== ERROR_HANDLER_METHOD || context.activeErrorHandlerIds.has(handlerNodeId)) {
+    return {
+      success: false,
+      failedNodeId: handlerOutput.nodeId,
+      failedNodeName: handlerOutput.nodeName,
+      errorMessage: `${handlerOutput.message} (error handler unavailable)`,
+    };
+  }
+
+  emit({ type: "node-call", nodeId: handler.id });
+  emit({ type: "node-status", nodeId: handler.id, status: "running" });
+  emit({ type: "node-output", nodeId: handler.id, output: handlerOutput });
+  context.outputsByNodeId.set(handler.id, handlerOutput);
+  emit({ type: "node-status", nodeId: handler.id, status: "success" });
+  emitCallTiming(context, handler.id, Date.now(), "success");
+
+  // Like For Each items, each invocation gets its own outputs so concurrent failures cannot interleave.
+  const downstreamNodeIds = context.errorHandlerSubgraphs.get(handler.id) ?? [];
+  const handlerOutputsByNodeId = new Map(context.outputsByNodeId);
+  const result = await executeSubgraph(
+    {
+      ...context,
+      outputsByNodeId: handlerOutputsByNodeId,
+      activeErrorHandlerIds: new Set([...context.activeErrorHandlerIds, handler.id]),
+    },
+    downstreamNodeIds,
+  );
+
+  for (const downstreamNodeId of downstreamNodeIds) {
+    const output = handlerOutputsByNodeId.get(downstreamNodeId);
+    if (output !== undefined) {
+      context.outputsByNodeId.set(downstreamNodeId, output);
+    }
+  }
+  return result;
+}
+
+/**
+ * Executes one node. For Each nodes also run their downstream nodes once per item, and gating nodes
+ * mark their downstream nodes skipped. Either way the downstream ids end up in `handledNodeIds`.
+ * A failed node whose onError mode is not "stop" skips its downstream nodes instead of failing the run.
+ */
+async function executeStep(
+  context: ExecutionContext,
+  nodeId: string,
+  getDownstreamNodeIds: () => string[],
+  handledNodeIds: Set<string>,
+): Promise<NodeExecutionResult> {
+  const node = context.nodes[nodeId];
+  let result: NodeExecutionResult;
+
+  if (node?.method === FOR_EACH_METHOD) {
+    const bodyNodeIds = getDownstreamNodeIds();
+    for (const bodyNodeId of bodyNodeIds) {
+      handledNodeIds.add(bodyNodeId);
+    }
+    result = await executeForEach(context, nodeId, bodyNodeIds);
+  } else {
+    result = await executeSingleNode(context, nodeId);
+    if (result.success && result.skipDownstream) {
+      skipNodes(context, getDownstreamNodeIds(), handledNodeIds);
+    }
+  }
+
+  if (!node || result.success || result.canceled || node.onError.mode === "stop") {
+    return result;
+  }
+
+  skipNodes(context, getDownstreamNodeIds(), handledNodeIds);
+  context.handledFailures.push(result);
+  if (node.onError.mode === "continue") {
+    return { success: true };
+  }
+
+  return executeErrorHandler(context, node.onError.handlerNodeId, {
+    nodeId: node.id,
+    nodeName: node.name,
+    method: node.method,
+    message: result.errorMessage ?? "Unknown execution error",
+    output: result.failedOutput ?? null,
+  });
+}
+
+/**
+ * The nodes a node runs itself rather than in their own level: its downstream nodes when `ownsDownstream`
+ * (For Each bodies, repeat passes) and the subgraphs of the Error Handlers that it or those nodes fail into.
+ */
+function getOwnedNodeIds(
+  context: ExecutionContext,
+  nodeId: string,
+  getDownstreamNodeIds: () => string[],
+  ownsDownstream: boolean,
+): string[] {
+  const ownedNodeIds = new Set<string>([nodeId, ...(ownsDownstream ? getDownstreamNodeIds() : [])]);
+  // Iterating a Set visits entries added along the way, so handlers reached from handler subgraphs count too.
+  for (const ownedNodeId of ownedNodeIds) {
+    const onError = context.nodes[ownedNodeId]?.onError;
+    if (onError?.mode !== "handler") {
+      continue;
+    }
+    ownedNodeIds.add(onError.handlerNodeId);
+    for (const handledNodeId of context.errorHandlerSubgraphs.get(onError.handlerNodeId) ?? []) {
+      ownedNodeIds.add(handledNodeId);
+    }
+  }
+  ownedNodeIds.delete(nodeId);
+  return [...ownedNodeIds];
+}
+
+/**
+ * Runs nodes level by level (see buildDependencyLevels), starting up to `context.concurrency` nodes of a
+ * level at once; ready JSON-RPC nodes of a level share batch requests. A node that runs other nodes itself
+ * (see getOwnedNodeIds) waits for a level after every node those read. After a failure or cancellation no
+ * further nodes start; nodes already running finish.
+ */
+async function executeLevels(
+  context: ExecutionContext,
+  orderedNodeIds: string[],
+  handledNodeIds: Set<string>,
+  getNodeOwnedNodeIds: (nodeId: string) => string[],
+  runNode: (nodeId: string) => Promise<NodeExecutionResult>,
+): Promise<NodeExecutionResult> {
+  const levels = buildDependencyLevels(orderedNodeIds, context.nodes, (nodeId) =>
+    getExternalSourceNodeIds(nodeId, getNodeOwnedNodeIds(nodeId), context.nodes),
+  );
+  for (const levelNodeIds of levels) {
+    // Handled nodes only ever belong to later levels than their handler, so filtering here is final.
+    const readyNodeIds = levelNodeIds.filter((nodeId) => !handledNodeIds.has(nodeId));
+    const batchableNodeIds = context.batchJsonRpc
+      ? readyNodeIds.filter((nodeId) => isBatchableNode(context.nodes[nodeId]))
+      : [];
+    const tasks: Array<() => Promise<NodeExecutionResult>> = [];
+
+    if (batchableNodeIds.length > 1) {
+      for (let index = 0; index < batchableNodeIds.length; index += MAX_JSON_RPC_BATCH_SIZE) {
+        const batchNodeIds = batchableNodeIds.slice(index, index + MAX_JSON_RPC_BATCH_SIZE);
+        tasks.push(() => executeJsonRpcBatch(context, batchNodeIds));
+      }
+    }
+    for (const nodeId of readyNodeIds) {
+      if (batchableNodeIds.length <= 1 || !batchableNodeIds.includes(nodeId)) {
+        tasks.push(() => runNode(nodeId));
+      }
+    }
+
+    let failure: NodeExecutionResult | undefined;
+    let nextIndex = 0;
+
+    const runTasks = async () => {
+      while (!failure && nextIndex < tasks.length) {
+        const task = tasks[nextIndex] as () => Promise<NodeExecutionResult>;
+        nextIndex += 1;
+
+        if (context.signal.aborted) {
+          failure ??= {
+            success: false,
+            canceled: true,
+            errorMessage: STOPPED_BY_USER_MESSAGE,
+          };
+          return;
+        }
+
+        let result: NodeExecutionResult;
+        try {
+          result = await task();
+        } catch (error) {
+          if (!isAbortError(error)) {
+            throw error;
+          }
+          result = {
+            success: false,
+            canceled: true,
+            errorMessage: STOPPED_BY_USER_MESSAGE,
+          };
+        }
+
+        if (!result.success) {
+          failure ??= result;
+          return;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(context.concurrency, tasks.length) }, () => runTasks()),
+    );
+    if (failure) {
+      return failure;
+    }
+  }
+
+  return { success: true };
+}
+
+async function executeSubgraph(context: ExecutionContext, nodeIds: string[]): Promise<NodeExecutionResult> {
+  const scopeNodeIds = new Set<string>(nodeIds);
+  const handledNodeIds = new Set<string>();
+  const getDownstreamNodeIds = (nodeId: string) =>
+    getReferencedDownstreamNodeIds(nodeIds, context.nodes, nodeId, scopeNodeIds);
+
+  return executeLevels(
+    context,
+    nodeIds,
+    handledNodeIds,
+    (nodeId) =>
+      getOwnedNodeIds(
+        context,
+        nodeId,
+        () => getDownstreamNodeIds(nodeId),
+        context.nodes[nodeId]?.method === FOR_EACH_METHOD,
+      ),
+    (nodeId) => executeStep(context, nodeId, () => getDownstreamNodeIds(nodeId), handledNodeIds),
+  );
+}
+
+async function executeRepeatedNode(
+  context: ExecutionContext,
+  node: ExecutableNode,
+  downstreamNodeIds: string[],
+): Promise<NodeExecutionResult> {
+  const repeatCount = Math.max(1, Math.floor(node.repeat.count));
+  const loopCount = Math.max(0, Math.floor(node.repeat.loopCount));
+  const repeatDelayMs = repeatIntervalToMs(Math.max(0, Math.floor(node.repeat.interval)), node.repeat.unit);
+  let globalIteration = 0;
+
+  for (let cycle = 0; loopCount === 0 || cycle < loopCount; cycle += 1) {
+    for (let iteration = 0; iteration < repeatCount; iteration += 1) {
+      if (globalIteration > 0 && repeatDelayMs > 0) {
+        await sleepWithSignal(repeatDelayMs, context.signal);
+      }
+
+      // Gates are re-evaluated every iteration, so skips only apply to the current pass.
+      const passContext: ExecutionContext = { ...context, repeatPass: { cycle, iteration } };
+      const iterationHandledNodeIds = new Set<string>();
+      const nodeResult = await executeStep(passContext, node.id, () => downstreamNodeIds, iterationHandledNodeIds);
+      if (!nodeResult.success && node.repeat.benchmark && !nodeResult.canceled) {
+        // A benchmark counts the failure and moves on; downstream nodes sit out this pass only.
+        skipNodes(passContext, downstreamNodeIds, iterationHandledNodeIds);
+        context.handledFailures.push(nodeResult);
+        globalIteration += 1;
+        continue;
+      }
+      if (!nodeResult.success) {
+        return nodeResult;
+      }
+
+      const downstreamResult = await executeSubgraph(
+        passContext,
+        downstreamNodeIds.filter((downstreamNodeId) => !iterationHandledNodeIds.has(downstreamNodeId)),
+      );
+      if (!downstreamResult.success) {
+        return downstreamResult;
+      }
+
+      globalIteration += 1;
+    }
+  }
+
+  return { success: true };
+}
+
+async function executeRange(
+  context: ExecutionContext,
+  executionOrder: string[],
+  includedNodeIds: Set<string>,
+): Promise<NodeExecutionResult> {
+  const handledNodeIds = new Set<string>();
+  for (const [handlerNodeId, downstreamNodeIds] of context.errorHandlerSubgraphs) {
+    for (const claimedNodeId of [handlerNodeId, ...downstreamNodeIds]) {
+      handledNodeIds.add(claimedNodeId);
+    }
+  }
+
+  const getDownstreamNodeIds = (nodeId: string) =>
+    getReferencedDownstreamNodeIds(executionOrder, context.nodes, nodeId, includedNodeIds);
+  const getNodeOwnedNodeIds = (nodeId: string) => {
+    const node = context.nodes[nodeId];
+    return getOwnedNodeIds(
+      context,
+      nodeId,
+      () => getDownstreamNodeIds(nodeId),
+      node?.method === FOR_EACH_METHOD || Boolean(node?.repeat.enabled),
+    );
+  };
+
+  return executeLevels(context, executionOrder, handledNodeIds, getNodeOwnedNodeIds, async (nodeId) => {
+    const node = context.nodes[nodeId];
+    if (!node) {
+      return { success: true };
+    }
+
+    if (!node.repeat.enabled) {
+      return executeStep(context, nodeId, () => getDownstreamNodeIds(nodeId), handledNodeIds);
+    }
+
+    // Downstream nodes always sit in later levels, so claiming them up front cannot race their own start.
+    const downstreamNodeIds = getDownstreamNodeIds(nodeId);
+    for (const downstreamNodeId of downstreamNodeIds) {
+      handledNodeIds.add(downstreamNodeId);
+    }
+    return executeRepeatedNode(context, node, downstreamNodeIds);
+  });
+}
+
+/**
+ * Runs the nodes of an exported workflow between `startIndex` and `endIndexExclusive` (positions in
+ * `workflow.order`) in dependency order; independent nodes run in parallel up to `options.concurrency`.
+ * The executor holds no UI state: progress is reported through `onEvent`, so the same run behaves
+ * identically in the browser, in scripts and on the server.
+ */
+export async function runWorkflow(
+  workflow: WorkflowExport,
+  config: WorkflowExecutorConfig,
+  options: RunWorkflowOptions = {},
+): Promise<WorkflowRunResult> {
+  const orderSnapshot = [...workflow.order];
+  const startIndex = options.startIndex ?? 0;
+  const boundedEnd = Math.min(options.endIndexExclusive ?? orderSnapshot.length, orderSnapshot.length);
+  const nodes = toExecutableNodes(workflow);
+
+  const outputsByNodeId = new Map<string, unknown>();
+  for (const nodeId of orderSnapshot) {
+    const output = nodes[nodeId]?.output;
+    if (output !== undefined) {
+      outputsByNodeId.set(nodeId, output);
+    }
+  }
+
+  const handledFailures: NodeExecutionResult[] = [];
+  const finish = (result: NodeExecutionResult): WorkflowRunResult => ({
+    ...result,
+    outputs: Object.fromEntries(outputsByNodeId),
+    handledErrorCount: handledFailures.length,
+  });
+
+  if (startIndex < 0 || startIndex > boundedEnd) {
+    return finish({
+      success: false,
+      errorMessage: "Invalid start index for execution.",
+    });
+  }
+
+  const dependencyPlan = buildDependencyExecutionOrder(orderSnapshot, nodes);
+  if (dependencyPlan.hasCycle) {
+    return finish({
+      success: false,
+      errorMessage: CYCLE_DETECTED_MESSAGE,
+    });
+  }
+
+  let variables: WorkflowVariableValues;
+  try {
+    variables = resolveWorkflowVariables(workflow.variables ?? [], options.variables);
+  } catch (error) {
+    return finish({
+      success: false,
+      errorMessage: error instanceof Error ? error.message : "Invalid workflow variables.",
+    });
+  }
+
+  const emit = options.onEvent ?? (() => undefined);
+  const includedNodeIds = new Set<string>(orderSnapshot.slice(startIndex, boundedEnd));
+  const executionOrder = dependencyPlan.orderedNodeIds.filter((nodeId) => includedNodeIds.has(nodeId));
+  const templateIssues = findTemplateIssues(
+    executionOrder,
+    nodes,
+    variables,
+    new Set<string>([...includedNodeIds, ...outputsByNodeId.keys()]),
+  );
+  if (templateIssues.length > 0) {
+    return finish({
+      success: false,
+      errorMessage: `Unresolved placeholders: ${templateIssues
+        .map((issue) => `${nodes[issue.nodeId]?.name ?? issue.nodeId} ${issue.paramName}: ${issue.message}`)
+        .join("; ")}`,
+    });
+  }
+
+  const plannedCallCounts = calculatePlannedCallCounts(executionOrder, nodes, includedNodeIds);
+  const errorHandlerSubgraphs = new Map<string, string[]>();
+  const allNodeIds = new Set<string>(dependencyPlan.orderedNodeIds);
+  for (const nodeId of dependencyPlan.orderedNodeIds) {
+    if (nodes[nodeId]?.method === ERROR_HANDLER_METHOD) {
+      errorHandlerSubgraphs.set(
+        nodeId,
+        getReferencedDownstreamNodeIds(dependencyPlan.orderedNodeIds, nodes, nodeId, allNodeIds),
+      );
+    }
+  }
+  const errorHandlerNodeIds = new Set<string>(
+    [...errorHandlerSubgraphs].flatMap(([handlerNodeId, downstreamNodeIds]) => [handlerNodeId, ...downstreamNodeIds]),
+  );
+
+  const callTargets: Record<string, PlannedCallCount> = {};
+  for (const nodeId of orderSnapshot) {
+    callTargets[nodeId] = errorHandlerNodeIds.has(nodeId) ? 0 : (plannedCallCounts.get(nodeId) ?? 0);
+  }
+  emit({ type: "run-planned", callTargets });
+
+  const runDeadline = createTimeoutSignal(
+    options.signal ?? new AbortController().signal,
+    options.deadlineMs,
+    RUN_DEADLINE_EXCEEDED_MESSAGE,
+  );
+  const context: ExecutionContext = {
+    nodes,
+    config,
+    outputsByNodeId,
+    variables,
+    trigger: options.trigger,
+    dryRunAlerts: options.dryRunAlerts ?? false,
+    signal: runDeadline.signal,
+    concurrency: normalizeExecutionConcurrency(options.concurrency),
+    batchJsonRpc: options.batchJsonRpc ?? true,
+    errorHandlerSubgraphs,
+    activeErrorHandlerIds: new Set<string>(),
+    handledFailures,
+    emit,
+  };
+
+  try {
+    const result = await executeRange(context, executionOrder, includedNodeIds);
+    // Nodes stopped between requests (e.g. while sleeping) only see a plain cancel; report the deadline.
+    if (!result.success && isTimeoutSignal(context.signal)) {
+      return finish({
+        ...result,
+        canceled: true,
+        timedOut: true,
+        errorMessage: RUN_DEADLINE_EXCEEDED_MESSAGE,
+      });
+    }
+    return finish(result);
+  } catch (error) {
+    if (isAbortError(error)) {
+      const timedOut = isTimeoutSignal(context.signal);
+      return finish({
+        success: false,
+        canceled: true,
+        timedOut,
+        errorMessage: timedOut ? RUN_DEADLINE_EXCEEDED_MESSAGE : STOPPED_BY_USER_MESSAGE,
+      });
+    }
+    throw error;
+  } finally {
+    runDeadline.dispose();
+  }
+}
+
+export function describeRunResult(result: NodeExecutionResult & { handledErrorCount?: number }): string {
+  if (result.success) {
+    const handledErrorCount = result.handledErrorCount ?? 0;
+    if (handledErrorCount > 0) {
+      return `Completed with ${handledErrorCount} handled error${handledErrorCount === 1 ? "" : "s"}.`;
+    }
+    return "";
+  }
+  if (result.canceled) {
+    return result.timedOut ? (result.errorMessage ?? RUN_DEADLINE_EXCEEDED_MESSAGE) : "Execution stopped.";
+  }
+  if (!result.failedNodeId) {
+    return result.errorMessage ?? "Execution failed.";
+  }
+  return `Execution stopped at ${result.failedNodeName ?? "node"}: ${result.errorMessage ?? "unknown error"}`;
+}
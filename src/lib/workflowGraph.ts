@@ -0,0 +1,411 @@
+import { FOR_EACH_METHOD, TRANSFORM_METHOD } from "@/lib/customNodes";
+import { findTemplatePlaceholders, type TemplatePlaceholder, usesRawParams } from "@/lib/workflowParams";
+import type { NodeRepeat, WorkflowNodeExport } from "@/lib/workflowSchema";
+
+export type GraphNode = Pick<WorkflowNodeExport, "id" | "method" | "params" | "rawParamsJson">;
+export type RepeatableGraphNode = GraphNode & { repeat: NodeRepeat };
+export type PlannedCallCount = number | null;
+
+export interface NodeTemplatePlaceholder {
+  /** Param the placeholder was found in; `rawParamsJson` for nodes without a params table. */
+  paramName: string;
+  placeholder: TemplatePlaceholder;
+}
+
+export interface TemplateIssue {
+  nodeId: string;
+  paramName: string;
+  message: string;
+}
+
+const RAW_PARAMS_NAME = "rawParamsJson";
+
+/** Placeholders in the literal params the node will actually send. */
+export function getNodeTemplatePlaceholders(node: GraphNode): NodeTemplatePlaceholder[] {
+  if (usesRawParams(node)) {
+    try {
+      return findTemplatePlaceholders(JSON.parse(node.rawParamsJson) as unknown).map((placeholder) => ({
+        paramName: RAW_PARAMS_NAME,
+        placeholder,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  return node.params.flatMap((param) => {
+    // Transform expressions have template strings of their own.
+    if (param.value.type !== "literal" || (node.method === TRANSFORM_METHOD && param.name === "expression")) {
+      return [];
+    }
+    return findTemplatePlaceholders(param.value.value).map((placeholder) => ({ paramName: param.name, placeholder }));
+  });
+}
+
+/** Nodes whose output this node reads, through ref params or template placeholders. */
+export function getSourceNodeIds(node: GraphNode): string[] {
+  const sourceNodeIds = new Set<string>();
+  for (const param of node.params) {
+    if (param.value.type === "ref") {
+      sourceNodeIds.add(param.value.nodeId);
+    }
+  }
+  for (const { placeholder } of getNodeTemplatePlaceholders(node)) {
+    if (placeholder.kind === "ref") {
+      sourceNodeIds.add(placeholder.nodeId);
+    }
+  }
+  return [...sourceNodeIds];
+}
+
+function referencesAnyNode(node: GraphNode, nodeIds: Set<string>): boolean {
+  return getSourceNodeIds(node).some((sourceNodeId) => nodeIds.has(sourceNodeId));
+}
+
+/**
+ * Checks the template placeholders of the given nodes before a run. Variables must be declared and have a
+ * value, and referenced nodes must either run earlier or already have an output.
+ */
+export function findTemplateIssues(
+  nodeIds: string[],
+  nodes: Record<string, GraphNode>,
+  variables: Record<string, unknown>,
+  availableNodeIds: Set<string>,
+): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  for (const nodeId of nodeIds) {
+    const node = nodes[nodeId];
+    if (!node) {
+      continue;
+    }
+
+    for (const { paramName, placeholder } of getNodeTemplatePlaceholders(node)) {
+      let message: string | undefined;
+      if (placeholder.kind === "invalid") {
+        message = `${placeholder.text} is not a valid placeholder`;
+      } else if (placeholder.kind === "var") {
+        if (!Object.prototype.hasOwnProperty.call(variables, placeholder.name)) {
+          message = `${placeholder.text} uses unknown variable ${placeholder.name}`;
+        } else if (variables[placeholder.name] === undefined) {
+          message = `${placeholder.text} uses variable ${placeholder.name}, which has no value`;
+        }
+      } else if (!nodes[placeholder.nodeId]) {
+        message = `${placeholder.text} references unknown node ${placeholder.nodeId}`;
+      } else if (!availableNodeIds.has(placeholder.nodeId)) {
+        message = `${placeholder.text} references a node that does not run before it and has no output`;
+      }
+
+      if (message) {
+        issues.push({ nodeId, paramName, message });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function buildReferenceAdjacency(nodeIds: string[], nodes: Record<string, GraphNode>): Map<string, Set<string>> {
+  const nodeIdSet = new Set<string>(nodeIds);
+  const adjacency = new Map<string, Set<string>>();
+
+  for (const nodeId of nodeIds) {
+    const node = nodes[nodeId];
+    if (!node) {
+      continue;
+    }
+
+    for (const sourceNodeId of getSourceNodeIds(node)) {
+      if (!nodeIdSet.has(sourceNodeId)) {
+        continue;
+      }
+
+      const targets = adjacency.get(sourceNodeId) ?? new Set<string>();
+      targets.add(node.id);
+      adjacency.set(sourceNodeId, targets);
+    }
+  }
+
+  return adjacency;
+}
+
+function hasReferencePath(
+  adjacency: Map<string, Set<string>>,
+  fromNodeId: string,
+  toNodeId: string,
+): boolean {
+  if (fromNodeId === toNodeId) {
+    return true;
+  }
+
+  const visited = new Set<string>();
+  const stack: string[] = [fromNodeId];
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (!current || visited.has(current)) {
+      continue;
+    }
+
+    visited.add(current);
+    const next = adjacency.get(current);
+    if (!next) {
+      continue;
+    }
+
+    for (const candidate of next) {
+      if (candidate === toNodeId) {
+        return true;
+      }
+      if (!visited.has(candidate)) {
+        stack.push(candidate);
+      }
+    }
+  }
+
+  return false;
+}
+
+export function wouldCreateReferenceCycle(
+  nodes: Record<string, GraphNode>,
+  targetNodeId: string,
+  sourceNodeId: string,
+): boolean {
+  if (targetNodeId === sourceNodeId) {
+    return true;
+  }
+
+  const nodeIds = Object.keys(nodes);
+  const adjacency = buildReferenceAdjacency(nodeIds, nodes);
+  return hasReferencePath(adjacency, targetNodeId, sourceNodeId);
+}
+
+export function buildDependencyExecutionOrder(
+  order: string[],
+  nodes: Record<string, GraphNode>,
+): { orderedNodeIds: string[]; hasCycle: boolean } {
+  const orderedNodeIds = order.filter((nodeId) => Boolean(nodes[nodeId]));
+  const indexByNodeId = new Map<string, number>(
+    orderedNodeIds.map((nodeId, index) => [nodeId, index]),
+  );
+  const adjacency = buildReferenceAdjacency(orderedNodeIds, nodes);
+  const indegreeByNodeId = new Map<string, number>(orderedNodeIds.map((nodeId) => [nodeId, 0]));
+
+  for (const targets of adjacency.values()) {
+    for (const targetNodeId of targets) {
+      indegreeByNodeId.set(targetNodeId, (indegreeByNodeId.get(targetNodeId) ?? 0) + 1);
+    }
+  }
+
+  const queue: string[] = orderedNodeIds.filter((nodeId) => (indegreeByNodeId.get(nodeId) ?? 0) === 0);
+  queue.sort((a, b) => (indexByNodeId.get(a) ?? 0) - (indexByNodeId.get(b) ?? 0));
+
+  const result: string[] = [];
+  while (queue.length > 0) {
+    const nodeId = queue.shift();
+    if (!nodeId) {
+      continue;
+    }
+
+    result.push(nodeId);
+    const targets = adjacency.get(nodeId);
+    if (!targets) {
+      continue;
+    }
+
+    for (const targetNodeId of targets) {
+      const nextInDegree = (indegreeByNodeId.get(targetNodeId) ?? 0) - 1;
+      indegreeByNodeId.set(targetNodeId, nextInDegree);
+
+      if (nextInDegree === 0) {
+        queue.push(targetNodeId);
+      }
+    }
+
+    queue.sort((a, b) => (indexByNodeId.get(a) ?? 0) - (indexByNodeId.get(b) ?? 0));
+  }
+
+  return {
+    orderedNodeIds: result.length === orderedNodeIds.length ? result : orderedNodeIds,
+    hasCycle: result.length !== orderedNodeIds.length,
+  };
+}
+
+/**
+ * Groups nodes that are already in dependency order into levels. A node only references nodes from
+ * earlier levels, so every node within one level can run at the same time. `getExtraSourceNodeIds` adds
+ * nodes that must finish before a node starts without it reading them, such as those read by a loop body
+ * that the node runs itself; an extra source that would close a cycle is ignored.
+ */
+export function buildDependencyLevels(
+  orderedNodeIds: string[],
+  nodes: Record<string, GraphNode>,
+  getExtraSourceNodeIds: (nodeId: string) => string[] = () => [],
+): string[][] {
+  const includedNodeIds = new Set<string>(orderedNodeIds);
+  const levelByNodeId = new Map<string, number>();
+  const visitingNodeIds = new Set<string>();
+
+  const getLevel = (nodeId: string): number | undefined => {
+    const knownLevel = levelByNodeId.get(nodeId);
+    if (knownLevel !== undefined || visitingNodeIds.has(nodeId)) {
+      return knownLevel;
+    }
+
+    visitingNodeIds.add(nodeId);
+    let level = 0;
+    const node = nodes[nodeId];
+    for (const sourceNodeId of [...(node ? getSourceNodeIds(node) : []), ...getExtraSourceNodeIds(nodeId)]) {
+      const sourceLevel = includedNodeIds.has(sourceNodeId) ? getLevel(sourceNodeId) : undefined;
+      if (sourceLevel !== undefined) {
+        level = Math.max(level, sourceLevel + 1);
+      }
+    }
+    visitingNodeIds.delete(nodeId);
+    levelByNodeId.set(nodeId, level);
+    return level;
+  };
+
+  const levels: string[][] = [];
+  for (const nodeId of orderedNodeIds) {
+    const level = getLevel(nodeId) ?? 0;
+    const levelNodeIds = levels[level] ?? [];
+    levelNodeIds.push(nodeId);
+    levels[level] = levelNodeIds;
+  }
+
+  return levels;
+}
+
+/** Nodes outside `bodyNodeIds` and other than `ownerNodeId` whose output the body nodes read. */
+export function getExternalSourceNodeIds(
+  ownerNodeId: string,
+  bodyNodeIds: string[],
+  nodes: Record<string, GraphNode>,
+): string[] {
+  const bodyNodeIdSet = new Set<string>(bodyNodeIds);
+  const externalNodeIds = new Set<string>();
+  for (const bodyNodeId of bodyNodeIds) {
+    const node = nodes[bodyNodeId];
+    for (const sourceNodeId of node ? getSourceNodeIds(node) : []) {
+      if (sourceNodeId !== ownerNodeId && !bodyNodeIdSet.has(sourceNodeId)) {
+        externalNodeIds.add(sourceNodeId);
+      }
+    }
+  }
+  return [...externalNodeIds];
+}
+
+export function getReferencedDownstreamNodeIds(
+  executionOrder: string[],
+  nodes: Record<string, GraphNode>,
+  sourceNodeId: string,
+  includedNodeIds: Set<string>,
+): string[] {
+  const sourceIds = new Set<string>([sourceNodeId]);
+  const referencedNodeIds: string[] = [];
+
+  for (const nodeId of executionOrder) {
+    if (!includedNodeIds.has(nodeId) || nodeId === sourceNodeId) {
+      continue;
+    }
+
+    const node = nodes[nodeId];
+
+    if (!node || !referencesAnyNode(node, sourceIds)) {
+      continue;
+    }
+
+    sourceIds.add(nodeId);
+    referencedNodeIds.push(nodeId);
+  }
+
+  return referencedNodeIds;
+}
+
+function addPlannedCallCount(
+  callCountsByNodeId: Map<string, PlannedCallCount>,
+  nodeId: string,
+  count: number,
+): void {
+  const existing = callCountsByNodeId.get(nodeId);
+  if (existing === null) {
+    return;
+  }
+  if (existing === undefined) {
+    callCountsByNodeId.set(nodeId, count);
+    return;
+  }
+  callCountsByNodeId.set(nodeId, existing + count);
+}
+
+function setPlannedCallCountInfinite(callCountsByNodeId: Map<string, PlannedCallCount>, nodeId: string): void {
+  callCountsByNodeId.set(nodeId, null);
+}
+
+export function calculatePlannedCallCounts(
+  executionOrder: string[],
+  nodes: Record<string, RepeatableGraphNode>,
+  includedNodeIds: Set<string>,
+): Map<string, PlannedCallCount> {
+  const callCountsByNodeId = new Map<string, PlannedCallCount>();
+  const skippedNodeIds = new Set<string>();
+
+  for (const nodeId of executionOrder) {
+    if (!includedNodeIds.has(nodeId) || skippedNodeIds.has(nodeId)) {
+      continue;
+    }
+
+    const node = nodes[nodeId];
+    if (!node) {
+      continue;
+    }
+
+    // For Each bodies run once per item, which is only known at run time.
+    if (node.method === FOR_EACH_METHOD) {
+      const bodyNodeIds = getReferencedDownstreamNodeIds(executionOrder, nodes, nodeId, includedNodeIds);
+      const loopCount = Math.max(0, Math.floor(node.repeat.loopCount));
+      for (const bodyNodeId of bodyNodeIds) {
+        setPlannedCallCountInfinite(callCountsByNodeId, bodyNodeId);
+        skippedNodeIds.add(bodyNodeId);
+      }
+
+      if (!node.repeat.enabled) {
+        addPlannedCallCount(callCountsByNodeId, nodeId, 1);
+        continue;
+      }
+      if (loopCount === 0) {
+        setPlannedCallCountInfinite(callCountsByNodeId, nodeId);
+        break;
+      }
+      addPlannedCallCount(callCountsByNodeId, nodeId, Math.max(1, Math.floor(node.repeat.count)) * loopCount);
+      continue;
+    }
+
+    if (!node.repeat.enabled) {
+      addPlannedCallCount(callCountsByNodeId, nodeId, 1);
+      continue;
+    }
+
+    const downstreamNodeIds = getReferencedDownstreamNodeIds(executionOrder, nodes, nodeId, includedNodeIds);
+    const repeatCount = Math.max(1, Math.floor(node.repeat.count));
+    const loopCount = Math.max(0, Math.floor(node.repeat.loopCount));
+
+    if (loopCount === 0) {
+      setPlannedCallCountInfinite(callCountsByNodeId, nodeId);
+      for (const downstreamNodeId of downstreamNodeIds) {
+        setPlannedCallCountInfinite(callCountsByNodeId, downstreamNodeId);
+      }
+      break;
+    }
+
+    const totalCalls = repeatCount * loopCount;
+    addPlannedCallCount(callCountsByNodeId, nodeId, totalCalls);
+    for (const downstreamNodeId of downstreamNodeIds) {
+      addPlannedCallCount(callCountsByNodeId, downstreamNodeId, totalCalls);
+      skippedNodeIds.add(downstreamNodeId);
+    }
+  }
+
+  return callCountsByNodeId;
+}
@@ -0,0 +1,382 @@
+import { getMethodEntry } from "@/lib/methodRegistry";
+import { getByPath } from "@/lib/path";
+import {
+  VARIABLE_NAME_PATTERN,
+  type ParamValue,
+  type WorkflowNodeExport,
+} from "@/lib/workflowSchema";
+import type { WorkflowVariableValues } from "@/lib/workflowVariables";
+
+type ParamSourceNode = Pick<WorkflowNodeExport, "method" | "params" | "rawParamsJson">;
+
+/**
+ * A `${...}` placeholder inside a literal string. `${vars.name}` (or just `${name}`) reads a workflow
+ * variable and `${nodes.<nodeId>.<path>}` reads a path of another node's output.
+ */
+export type TemplatePlaceholder =
+  | { kind: "var"; text: string; name: string }
+  | { kind: "ref"; text: string; nodeId: string; path: string }
+  | { kind: "invalid"; text: string };
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\$\{([^}]*)\}/g;
+
+function parseTemplatePlaceholder(text: string, expression: string): TemplatePlaceholder {
+  if (VARIABLE_NAME_PATTERN.test(expression)) {
+    return { kind: "var", text, name: expression };
+  }
+
+  if (expression.startsWith("vars.") && VARIABLE_NAME_PATTERN.test(expression.slice("vars.".length))) {
+    return { kind: "var", text, name: expression.slice("vars.".length) };
+  }
+
+  const refMatch = /^nodes\.([^.[\]\s]+)\.?(.*)$/.exec(expression);
+  if (refMatch?.[1]) {
+    return { kind: "ref", text, nodeId: refMatch[1], path: refMatch[2] ?? "" };
+  }
+
+  return { kind: "invalid", text };
+}
+
+function parseTemplateString(template: string): TemplatePlaceholder[] {
+  return [...template.matchAll(TEMPLATE_PLACEHOLDER_PATTERN)].map((match) =>
+    parseTemplatePlaceholder(match[0], (match[1] ?? "").trim()),
+  );
+}
+
+/** Every placeholder found in the strings of a literal value, including nested arrays and objects. */
+export function findTemplatePlaceholders(value: unknown): TemplatePlaceholder[] {
+  if (typeof value === "string") {
+    return value.includes("${") ? parseTemplateString(value) : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => findTemplatePlaceholders(entry));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap((entry) => findTemplatePlaceholders(entry));
+  }
+
+  return [];
+}
+
+/**
+ * Points the `${vars.from}` and `${from}` placeholders in the strings of a literal value at `to`. A string in
+ * gives a string out, so it also works on `rawParamsJson`.
+ */
+export function renameTemplateVariable(value: unknown, from: string, to: string): unknown {
+  if (typeof value === "string") {
+    if (!value.includes("${")) {
+      return value;
+    }
+    return value.replace(TEMPLATE_PLACEHOLDER_PATTERN, (text, expression: string) => {
+      const trimmed = expression.trim();
+      const placeholder = parseTemplatePlaceholder(text, trimmed);
+      if (placeholder.kind !== "var" || placeholder.name !== from) {
+        return text;
+      }
+      return trimmed.startsWith("vars.") ? `\${vars.${to}}` : `\${${to}}`;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => renameTemplateVariable(entry, from, to));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, renameTemplateVariable(entry, from, to)]),
+    );
+  }
+
+  return value;
+}
+
+function resolveVariable(name: string, variables: WorkflowVariableValues): unknown {
+  if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+    throw new Error(`Unknown workflow variable: ${name}`);
+  }
+  const variableValue = variables[name];
+  if (variableValue === undefined) {
+    throw new Error(`Workflow variable ${name} has no value; set a default or pass one for this run`);
+  }
+  return variableValue;
+}
+
+function resolveReference(nodeId: string, path: string, outputsByNodeId: Map<string, unknown>): unknown {
+  const sourceOutput = outputsByNodeId.get(nodeId);
+  if (sourceOutput === undefined) {
+    throw new Error(`Reference node ${nodeId} has no output`);
+  }
+
+  const value = getByPath(sourceOutput, path);
+  if (value === undefined) {
+    throw new Error(`Reference path not found: ${path}`);
+  }
+
+  return value;
+}
+
+function resolveTemplatePlaceholder(
+  placeholder: TemplatePlaceholder,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  if (placeholder.kind === "var") {
+    return resolveVariable(placeholder.name, variables);
+  }
+
+  if (placeholder.kind === "ref") {
+    return resolveReference(placeholder.nodeId, placeholder.path, outputsByNodeId);
+  }
+
+  throw new Error(`Invalid template placeholder ${placeholder.text}; use \${vars.name} or \${nodes.<nodeId>.path}`);
+}
+
+/**
+ * Replaces placeholders in the strings of a literal value. A string that is exactly one placeholder takes
+ * the resolved value as is, so `"${vars.limit}"` stays a number; otherwise values are spliced in as text.
+ */
+export function resolveTemplates(
+  value: unknown,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  if (typeof value === "string") {
+    if (!value.includes("${")) {
+      return value;
+    }
+
+    const placeholders = parseTemplateString(value);
+    if (placeholders.length === 1 && placeholders[0]?.text === value) {
+      return resolveTemplatePlaceholder(placeholders[0], outputsByNodeId, variables);
+    }
+
+    return value.replace(TEMPLATE_PLACEHOLDER_PATTERN, (text, expression: string) => {
+      const resolved = resolveTemplatePlaceholder(
+        parseTemplatePlaceholder(text, expression.trim()),
+        outputsByNodeId,
+        variables,
+      );
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolveTemplates(entry, outputsByNodeId, variables));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, resolveTemplates(entry, outputsByNodeId, variables)]),
+    );
+  }
+
+  return value;
+}
+
+export function resolveParamValue(
+  paramValue: ParamValue,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  if (paramValue.type === "literal") {
+    return resolveTemplates(paramValue.value, outputsByNodeId, variables);
+  }
+
+  if (paramValue.type === "var") {
+    return resolveVariable(paramValue.name, variables);
+  }
+
+  return resolveReference(paramValue.nodeId, paramValue.path, outputsByNodeId);
+}
+
+function parseRawParams(raw: string): unknown {
+  return JSON.parse(raw) as unknown;
+}
+
+/** True when the node's params come from `rawParamsJson` rather than its param bindings. */
+export function usesRawParams(node: Pick<WorkflowNodeExport, "method">): boolean {
+  return getMethodEntry(node.method)?.params?.kind !== "table";
+}
+
+function pruneNullish(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => pruneNullish(entry))
+      .filter((entry) => entry !== undefined);
+  }
+
+  if (typeof value === "object") {
+    const input = value as Record<string, unknown>;
+    const next: Record<string, unknown> = {};
+
+    for (const [key, entry] of Object.entries(input)) {
+      const cleaned = pruneNullish(entry);
+      if (cleaned !== undefined) {
+        next[key] = cleaned;
+      }
+    }
+
+    return next;
+  }
+
+  return value;
+}
+
+function setByDotPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split(".");
+  let cursor: Record<string, unknown> = target;
+
+  for (let index = 0; index < parts.length; index += 1) {
+    const key = parts[index];
+    if (!key) {
+      continue;
+    }
+
+    if (index === parts.length - 1) {
+      cursor[key] = value;
+      return;
+    }
+
+    const existing = cursor[key];
+    if (typeof existing === "object" && existing !== null && !Array.isArray(existing)) {
+      cursor = existing as Record<string, unknown>;
+      continue;
+    }
+
+    const next: Record<string, unknown> = {};
+    cursor[key] = next;
+    cursor = next;
+  }
+}
+
+export function getNodeParams(
+  node: ParamSourceNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  const entry = getMethodEntry(node.method);
+
+  if (entry?.params?.kind === "table") {
+    if (entry.jsonrpcParamsStyle === "object") {
+      const paramsObject: Record<string, unknown> = {};
+
+      entry.params.fields.forEach((field) => {
+        const binding = node.params.find((param) => param.name === field.name);
+        if (!binding) {
+          return;
+        }
+
+        const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId, variables));
+        if (value === undefined) {
+          return;
+        }
+
+        setByDotPath(paramsObject, field.name, value);
+      });
+
+      return paramsObject;
+    }
+
+    const args: unknown[] = [];
+    const options: Record<string, unknown> = {};
+    const isTokenAccountsFilterMethod =
+      node.method === "getTokenAccountsByOwner" ||
+      node.method === "getTokenAccountsByOwnerV2" ||
+      node.method === "getTokenAccountsByDelegate";
+    const tokenAccountFilter: Record<string, unknown> = {};
+
+    entry.params.fields.forEach((field, index) => {
+      const binding = node.params.find((param) => param.name === field.name);
+      if (!binding) {
+        return;
+      }
+
+      const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId, variables));
+      if (value === undefined) {
+        return;
+      }
+
+      // Convention used by our registry: first required field is primary positional arg, others are config options.
+      if (index === 0 && field.required) {
+        args.push(value);
+        return;
+      }
+
+      if (isTokenAccountsFilterMethod && (field.name === "mint" || field.name === "programId")) {
+        tokenAccountFilter[field.name] = value;
+        return;
+      }
+
+      setByDotPath(options, field.name, value);
+    });
+
+    if (isTokenAccountsFilterMethod && Object.keys(tokenAccountFilter).length > 0) {
+      args.push(tokenAccountFilter);
+    }
+
+    const cleanedOptions = pruneNullish(options);
+    if (
+      cleanedOptions &&
+      typeof cleanedOptions === "object" &&
+      !Array.isArray(cleanedOptions) &&
+      Object.keys(cleanedOptions as Record<string, unknown>).length > 0
+    ) {
+      args.push(cleanedOptions);
+    }
+
+    return args;
+  }
+
+  const raw = resolveTemplates(parseRawParams(node.rawParamsJson), outputsByNodeId, variables);
+  const cleaned = pruneNullish(raw);
+  return cleaned === undefined ? [] : cleaned;
+}
+
+export function getNodeHttpParams(
+  node: ParamSourceNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): Record<string, unknown> {
+  const entry = getMethodEntry(node.method);
+
+  if (entry?.params?.kind !== "table") {
+    throw new Error("HTTP methods require table-style params schema in the registry.");
+  }
+
+  const params: Record<string, unknown> = {};
+
+  entry.params.fields.forEach((field) => {
+    const binding = node.params.find((param) => param.name === field.name);
+    if (!binding) {
+      return;
+    }
+
+    const value = pruneNullish(resolveParamValue(binding.value, outputsByNodeId, variables));
+    if (value === undefined) {
+      return;
+    }
+
+    params[field.name] = value;
+  });
+
+  return params;
+}
+
+export function getCustomNodeOutput(
+  node: ParamSourceNode,
+  outputsByNodeId: Map<string, unknown>,
+  variables: WorkflowVariableValues,
+): unknown {
+  const valueParam = node.params.find((param) => param.name === "value");
+  if (!valueParam) {
+    return null;
+  }
+
+  return resolveParamValue(valueParam.value, outputsByNodeId, variables);
+}
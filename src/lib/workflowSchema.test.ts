@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  DEFAULT_NODE_ON_ERROR,
+  DEFAULT_NODE_REPEAT,
+  DEFAULT_NODE_RETRY,
+  WORKFLOW_EXPORT_VERSION,
+  parseWorkflowImport,
+  type WorkflowExport,
+} from "@/lib/workflowSchema";
+
+const node = {
+  id: "node-1",
+  name: "Get slot",
+  method: "getSlot",
+  schemaMode: "known" as const,
+  params: [],
+  rawParamsJson: "[]",
+};
+
+describe("workflow export migrations", () => {
+  test("version 1 exports get variables and node settings with their defaults", () => {
+    const repeat = { enabled: true, count: 3, interval: 1, unit: "seconds" as const };
+    const parsed = parseWorkflowImport({
+      version: 1,
+      nodes: [node, { ...node, id: "node-2", repeat }],
+      order: ["node-1", "node-2"],
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.version).toBe(WORKFLOW_EXPORT_VERSION);
+    expect(parsed.data?.variables).toEqual([]);
+    expect(parsed.data?.nodes[0]).toMatchObject({
+      repeat: DEFAULT_NODE_REPEAT,
+      retry: DEFAULT_NODE_RETRY,
+      onError: DEFAULT_NODE_ON_ERROR,
+    });
+    expect(parsed.data?.nodes[1]?.repeat).toEqual({ ...repeat, loopCount: 1, benchmark: false });
+  });
+
+  test("current exports are not changed", () => {
+    const workflow: WorkflowExport = { version: WORKFLOW_EXPORT_VERSION, nodes: [node], order: ["node-1"] };
+
+    expect(parseWorkflowImport(workflow).data).toEqual(workflow);
+  });
+
+  test("exports from a newer version are rejected", () => {
+    expect(parseWorkflowImport({ version: WORKFLOW_EXPORT_VERSION + 1, nodes: [], order: [] }).success).toBe(false);
+  });
+});
@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { parseCronExpression } from "@/lib/cron";
+
 export const paramValueSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("literal"),
@@ -10,8 +12,26 @@ export const paramValueSchema = z.discriminatedUnion("type", [
     nodeId: z.string().min(1, "Reference node is required"),
     path: z.string().min(1, "Reference path is required"),
   }),
+  z.object({
+    type: z.literal("var"),
+    name: z.string().min(1, "Variable name is required"),
+  }),
 ]);
 
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const WORKFLOW_VARIABLE_TYPES = ["string", "number", "boolean", "json"] as const;
+
+export const workflowVariableSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(VARIABLE_NAME_PATTERN, "Variable names use letters, digits and underscores and cannot start with a digit"),
+    type: z.enum(WORKFLOW_VARIABLE_TYPES),
+    default: z.unknown().optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
 export const paramBindingSchema = z.object({
   name: z.string().min(1),
   value: paramValueSchema,
@@ -24,9 +44,60 @@ export const nodeRepeatSchema = z
     interval: z.number().int().min(0).max(86_400_000),
     unit: z.enum(["milliseconds", "seconds", "minutes"]),
     loopCount: z.number().int().min(0).max(100_000).default(1),
+    /** Keep repeating after failed calls so their latency and error rate can be measured. */
+    benchmark: z.boolean().default(false),
   })
   .strict();
 
+export const DEFAULT_NODE_REPEAT: z.infer<typeof nodeRepeatSchema> = {
+  enabled: false,
+  count: 2,
+  interval: 1,
+  unit: "seconds",
+  loopCount: 1,
+  benchmark: false,
+};
+
+export const nodeRetrySchema = z
+  .object({
+    enabled: z.boolean(),
+    maxAttempts: z.number().int().min(1).max(10),
+    backoff: z.enum(["fixed", "exponential"]),
+    delayMs: z.number().int().min(0).max(600_000),
+    maxDelayMs: z.number().int().min(0).max(600_000),
+    retryOnHttpStatus: z.array(z.number().int().min(100).max(599)),
+    retryOnRpcCodes: z.array(z.number().int()),
+    retryOnNetworkError: z.boolean(),
+  })
+  .strict();
+
+export const DEFAULT_NODE_RETRY: z.infer<typeof nodeRetrySchema> = {
+  enabled: false,
+  maxAttempts: 3,
+  backoff: "exponential",
+  delayMs: 500,
+  maxDelayMs: 30_000,
+  retryOnHttpStatus: [429, 500, 502, 503, 504],
+  retryOnRpcCodes: [-32005, -32603],
+  retryOnNetworkError: true,
+};
+
+export const nodeOnErrorSchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("stop") }).strict(),
+  z.object({ mode: z.literal("continue") }).strict(),
+  z
+    .object({
+      mode: z.literal("handler"),
+      handlerNodeId: z.string().min(1, "Error handler node is required"),
+    })
+    .strict(),
+]);
+
+/** Per-node request timeout; 0 disables it. */
+export const nodeTimeoutMsSchema = z.number().int().min(0).max(3_600_000);
+
+export const DEFAULT_NODE_ON_ERROR: z.infer<typeof nodeOnErrorSchema> = { mode: "stop" };
+
 export const nodePositionSchema = z
   .object({
     x: z.number().finite(),
@@ -42,14 +113,86 @@ export const workflowNodeExportSchema = z.object({
   params: z.array(paramBindingSchema),
   rawParamsJson: z.string(),
   repeat: nodeRepeatSchema.optional(),
+  retry: nodeRetrySchema.optional(),
+  onError: nodeOnErrorSchema.optional(),
+  timeoutMs: nodeTimeoutMsSchema.optional(),
   position: nodePositionSchema.optional(),
   output: z.unknown().optional(),
 }).strict();
 
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 1;
+
+export const workflowScheduleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(80),
+    enabled: z.boolean(),
+    mode: z.enum(["cron", "interval"]),
+    /** Five-field cron expression, evaluated in UTC. */
+    cron: z.string().optional(),
+    intervalMinutes: z.number().int().min(MIN_SCHEDULE_INTERVAL_MINUTES).max(525_600).optional(),
+    network: z.enum(["mainnet", "devnet", "testnet"]).default("mainnet"),
+    gatekeeperEnabled: z.boolean().default(false),
+  })
+  .strict()
+  .superRefine((schedule, context) => {
+    if (schedule.mode === "interval" && schedule.intervalMinutes === undefined) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["intervalMinutes"], message: "Interval is required" });
+    }
+    if (schedule.mode !== "cron") {
+      return;
+    }
+    try {
+      parseCronExpression(schedule.cron ?? "");
+    } catch (error) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cron"],
+        message: error instanceof Error ? error.message : "Invalid cron expression",
+      });
+    }
+  });
+
+/** The `version` of exports written by this app. Bump it together with a WORKFLOW_EXPORT_MIGRATIONS entry. */
+export const WORKFLOW_EXPORT_VERSION = 2;
+
+type WorkflowExportMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Entry N upgrades a version N export to version N + 1. */
+const WORKFLOW_EXPORT_MIGRATIONS: Record<number, WorkflowExportMigration> = {
+  // Version 2 exports written by the app carry variables and every node's repeat, retry and onError settings.
+  // Version 1 exports from before those settings existed get the defaults.
+  1: (payload) => ({
+    ...payload,
+    variables: payload.variables ?? [],
+    nodes: Array.isArray(payload.nodes)
+      ? payload.nodes.map((node: unknown) =>
+          isRecord(node)
+            ? { repeat: DEFAULT_NODE_REPEAT, retry: DEFAULT_NODE_RETRY, onError: DEFAULT_NODE_ON_ERROR, ...node }
+            : node,
+        )
+      : payload.nodes,
+  }),
+};
+
 export const workflowExportSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(WORKFLOW_EXPORT_VERSION),
   nodes: z.array(workflowNodeExportSchema),
   order: z.array(z.string().min(1)),
+  variables: z
+    .array(workflowVariableSchema)
+    .refine(
+      (variables) => new Set(variables.map((variable) => variable.name)).size === variables.length,
+      "Variable names must be unique",
+    )
+    .optional(),
+  /** Name of the credential to run with; secret values are never part of an export. */
+  credential: z.string().min(1).max(64).optional(),
+  /** When and where the server runs the workflow unattended. */
+  schedule: workflowScheduleSchema.optional(),
   selectedNodeId: z.string().optional(),
   ui: z
     .object({
@@ -60,13 +203,35 @@ export const workflowExportSchema = z.object({
 
 export type ParamValue = z.infer<typeof paramValueSchema>;
 export type ParamBinding = z.infer<typeof paramBindingSchema>;
+export type WorkflowVariable = z.infer<typeof workflowVariableSchema>;
+export type WorkflowVariableType = WorkflowVariable["type"];
 export type NodeRepeat = z.infer<typeof nodeRepeatSchema>;
+export type NodeRetry = z.infer<typeof nodeRetrySchema>;
+export type NodeOnError = z.infer<typeof nodeOnErrorSchema>;
 export type NodePosition = z.infer<typeof nodePositionSchema>;
 export type WorkflowNodeExport = z.infer<typeof workflowNodeExportSchema>;
 export type WorkflowExport = z.infer<typeof workflowExportSchema>;
+export type WorkflowSchedule = z.infer<typeof workflowScheduleSchema>;
+
+/** Applies the migrations from the payload's `version` up to WORKFLOW_EXPORT_VERSION. Other payloads pass through. */
+export function migrateWorkflowExport(payload: unknown): unknown {
+  if (!isRecord(payload)) {
+    return payload;
+  }
+
+  let migrated = payload;
+  while (typeof migrated.version === "number" && migrated.version < WORKFLOW_EXPORT_VERSION) {
+    const migrate = WORKFLOW_EXPORT_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      break;
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+}
 
 export function parseWorkflowImport(payload: unknown) {
-  return workflowExportSchema.safeParse(payload);
+  return workflowExportSchema.safeParse(migrateWorkflowExport(payload));
 }
 
 export function formatZodError(error: z.ZodError): string[] {
@@ -0,0 +1,71 @@
+import type { WorkflowVariable } from "@/lib/workflowSchema";
+
+/** Resolved value per workflow variable name. */
+export type WorkflowVariableValues = Record<string, unknown>;
+
+/**
+ * Converts a default or an override to the variable's declared type. Headless runners pass overrides as
+ * strings, so strings are parsed for number, boolean and json variables.
+ */
+export function coerceVariableValue(variable: WorkflowVariable, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (variable.type === "string") {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  if (variable.type === "number") {
+    const candidate = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof candidate !== "number" || !Number.isFinite(candidate)) {
+      throw new Error(`Variable ${variable.name} must be a number, received ${JSON.stringify(value)}`);
+    }
+    return candidate;
+  }
+
+  if (variable.type === "boolean") {
+    if (value === true || value === "true") {
+      return true;
+    }
+    if (value === false || value === "false") {
+      return false;
+    }
+    throw new Error(`Variable ${variable.name} must be true or false, received ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    throw new Error(`Variable ${variable.name} must be valid JSON`);
+  }
+}
+
+/**
+ * Resolves every declared variable to its override, falling back to its default. Throws for overrides of
+ * undeclared variables and for values that do not match the declared type.
+ */
+export function resolveWorkflowVariables(
+  variables: WorkflowVariable[],
+  overrides: Record<string, unknown> = {},
+): WorkflowVariableValues {
+  const declaredNames = new Set(variables.map((variable) => variable.name));
+  for (const name of Object.keys(overrides)) {
+    if (!declaredNames.has(name)) {
+      throw new Error(`Unknown workflow variable: ${name}`);
+    }
+  }
+
+  const values: WorkflowVariableValues = {};
+  for (const variable of variables) {
+    const value = Object.prototype.hasOwnProperty.call(overrides, variable.name)
+      ? overrides[variable.name]
+      : variable.default;
+    values[variable.name] = coerceVariableValue(variable, value);
+  }
+  return values;
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import { WORKFLOW_EXPORT_VERSION } from "@/lib/workflowSchema";
+import { useWorkflowStore } from "@/store/workflowStore";
+
+function addNodeWithLiteral(method: string, paramName: string, value: unknown): string {
+  const store = useWorkflowStore.getState();
+  const nodeId = store.addNode(method);
+  store.setParamValue(nodeId, paramName, { type: "literal", value });
+  return nodeId;
+}
+
+function getLiteral(nodeId: string, paramName: string): unknown {
+  const param = useWorkflowStore.getState().nodes[nodeId]?.params.find((candidate) => candidate.name === paramName);
+  return param?.value.type === "literal" ? param.value.value : undefined;
+}
+
+describe("workflow variables", () => {
+  beforeEach(() => {
+    useWorkflowStore.getState().importWorkflow({ version: WORKFLOW_EXPORT_VERSION, nodes: [], order: [], variables: [] });
+  });
+
+  test("renaming rewrites placeholders in literal params", () => {
+    const store = useWorkflowStore.getState();
+    const name = store.addVariable();
+    const nodeId = addNodeWithLiteral("Log Output", "value", {
+      text: `Owner \${vars.${name}} and \${ ${name} }`,
+      nested: [`\${vars.${name}}`, "${vars.other}"],
+    });
+
+    store.updateVariable(name, { name: "wallet" });
+
+    expect(getLiteral(nodeId, "value")).toEqual({
+      text: "Owner ${vars.wallet} and ${wallet}",
+      nested: ["${vars.wallet}", "${vars.other}"],
+    });
+  });
+
+  test("renaming rewrites placeholders in rawParamsJson", () => {
+    const store = useWorkflowStore.getState();
+    const name = store.addVariable();
+    const nodeId = store.addNode("someUnknownMethod");
+    store.setRawParamsJson(nodeId, `["\${vars.${name}}", { "limit": "\${${name}}" }]`);
+
+    store.updateVariable(name, { name: "wallet" });
+
+    expect(useWorkflowStore.getState().nodes[nodeId]?.rawParamsJson).toBe('["${vars.wallet}", { "limit": "${wallet}" }]');
+  });
+
+  test("removing flags nodes whose placeholders still use the variable", () => {
+    const store = useWorkflowStore.getState();
+    const name = store.addVariable();
+    const usingNodeId = addNodeWithLiteral("Log Output", "value", `Owner \${vars.${name}}`);
+    const otherNodeId = addNodeWithLiteral("Log Output", "value", "plain");
+
+    store.removeVariable(name);
+
+    const { nodes, variables } = useWorkflowStore.getState();
+    expect(variables).toEqual([]);
+    expect(nodes[usingNodeId]?.status).toBe("error");
+    expect(nodes[usingNodeId]?.error).toContain(`\${vars.${name}}`);
+    expect(nodes[otherNodeId]?.status).toBe("idle");
+    expect(nodes[otherNodeId]?.error).toBeUndefined();
+  });
+});
@@ -1,32 +1,61 @@
 import { create } from "zustand";
 
+import {
+  ALERT_METHOD,
+  CONDITION_METHOD,
+  DEFAULT_ALERT_COOLDOWN_SECONDS,
+  FOR_EACH_METHOD,
+  TRANSFORM_METHOD,
+} from "@/lib/customNodes";
 import { getMethodEntry } from "@/lib/methodRegistry";
+import type { ExecutionNodeStatus } from "@/lib/workflowExecutor";
+import { getNodeTemplatePlaceholders, type NodeTemplatePlaceholder } from "@/lib/workflowGraph";
+import { renameTemplateVariable, usesRawParams } from "@/lib/workflowParams";
+import {
+  DEFAULT_NODE_ON_ERROR,
+  DEFAULT_NODE_REPEAT,
+  DEFAULT_NODE_RETRY,
+  VARIABLE_NAME_PATTERN,
+  WORKFLOW_EXPORT_VERSION,
+} from "@/lib/workflowSchema";
 import type {
+  NodeOnError as WorkflowNodeOnError,
   NodePosition as WorkflowNodePosition,
   NodeRepeat as WorkflowNodeRepeat,
+  NodeRetry as WorkflowNodeRetry,
   ParamBinding,
   ParamValue,
   WorkflowExport,
+  WorkflowSchedule,
+  WorkflowVariable,
 } from "@/lib/workflowSchema";
 
-export type NodeStatus = "idle" | "running" | "success" | "error";
+export type NodeStatus = ExecutionNodeStatus;
 export type NodeRepeat = WorkflowNodeRepeat;
+export type NodeRetry = WorkflowNodeRetry;
+export type NodeOnError = WorkflowNodeOnError;
 export type NodePosition = WorkflowNodePosition;
 export type RepeatUnit = NodeRepeat["unit"];
 
-export const DEFAULT_NODE_REPEAT: NodeRepeat = {
-  enabled: false,
-  count: 2,
-  interval: 1,
-  unit: "seconds",
-  loopCount: 1,
-};
+export { DEFAULT_NODE_ON_ERROR, DEFAULT_NODE_REPEAT, DEFAULT_NODE_RETRY };
+
+export interface NodeRetryAttempt {
+  attempt: number;
+  maxAttempts: number;
+}
 
 export const DEFAULT_NODE_POSITION: NodePosition = {
   x: 80,
   y: 80,
 };
 
+export interface NodeRunResult {
+  nodeId: string;
+  status: NodeStatus;
+  output?: unknown;
+  error?: string;
+}
+
 export interface WorkflowNode {
   id: string;
   name: string;
@@ -35,10 +64,16 @@ export interface WorkflowNode {
   params: ParamBinding[];
   rawParamsJson: string;
   repeat: NodeRepeat;
+  retry: NodeRetry;
+  onError: NodeOnError;
+  /** Request timeout in milliseconds; 0 means no timeout. */
+  timeoutMs: number;
   position: NodePosition;
   output?: unknown;
   error?: string;
   status: NodeStatus;
+  /** Set while a node is being retried; cleared when the node starts running again. */
+  retryAttempt?: NodeRetryAttempt;
   outputOpen: boolean;
 }
 
@@ -46,9 +81,17 @@ interface WorkflowStore {
   apiKey: string;
   order: string[];
   nodes: Record<string, WorkflowNode>;
+  /** Workflow-level inputs that params can bind to with `{ type: "var", name }`. */
+  variables: WorkflowVariable[];
+  /** Name of the vault credential the workflow runs with; empty uses the session API key. */
+  credentialName: string;
+  /** Unattended runs on the server; exported with the workflow. */
+  schedule?: WorkflowSchedule;
   selectedNodeId?: string;
   includeOutputsOnExport: boolean;
   setApiKey: (apiKey: string) => void;
+  setCredentialName: (credentialName: string) => void;
+  setSchedule: (schedule?: WorkflowSchedule) => void;
   addNode: (method: string) => string;
   removeNode: (nodeId: string) => void;
   renameNode: (nodeId: string, name: string) => void;
@@ -57,10 +100,27 @@ interface WorkflowStore {
   setParamValue: (nodeId: string, paramName: string, value: ParamValue) => void;
   setRawParamsJson: (nodeId: string, rawParamsJson: string) => void;
   setNodeRepeat: (nodeId: string, repeat: Partial<NodeRepeat>) => void;
+  setNodeRetry: (nodeId: string, retry: Partial<NodeRetry>) => void;
+  setNodeOnError: (nodeId: string, onError: NodeOnError) => void;
+  setNodeTimeout: (nodeId: string, timeoutMs: number) => void;
   setNodePosition: (nodeId: string, position: NodePosition) => void;
+  addVariable: () => string;
+  /**
+   * Renaming also rebinds params and rewrites `${vars.name}` placeholders that use the variable; invalid or
+   * duplicate names are ignored.
+   */
+  updateVariable: (name: string, patch: Partial<WorkflowVariable>) => void;
+  /**
+   * Params bound to the variable fall back to a literal of its default. Nodes with placeholders that still use it
+   * are marked with an error.
+   */
+  removeVariable: (name: string) => void;
   setNodeStatus: (nodeId: string, status: NodeStatus, error?: string) => void;
+  setNodeRetryAttempt: (nodeId: string, retryAttempt: NodeRetryAttempt) => void;
   setNodeOutput: (nodeId: string, output: unknown) => void;
   clearOutputs: () => void;
+  /** Resets every node, then applies the given results, e.g. from a stored run. */
+  restoreNodeResults: (results: NodeRunResult[]) => void;
   toggleOutputOpen: (nodeId: string) => void;
   exportWorkflow: (includeOutputs?: boolean) => WorkflowExport;
   importWorkflow: (workflow: WorkflowExport) => void;
@@ -72,6 +132,19 @@ const METHOD_DEFAULT_LITERAL_PARAMS: Record<string, Record<string, unknown>> = {
     programId: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
     encoding: "base64",
   },
+  [CONDITION_METHOD]: {
+    operator: "equals",
+  },
+  [FOR_EACH_METHOD]: {
+    concurrency: 1,
+  },
+  [TRANSFORM_METHOD]: {
+    expression: "input",
+  },
+  [ALERT_METHOD]: {
+    format: "generic",
+    cooldownSeconds: DEFAULT_ALERT_COOLDOWN_SECONDS,
+  },
 };
 
 function defaultNodeName(method: string, position: number): string {
@@ -132,6 +205,9 @@ function buildNode(method: string, position: number): WorkflowNode {
     params: defaults.params,
     rawParamsJson: defaults.rawParamsJson,
     repeat: DEFAULT_NODE_REPEAT,
+    retry: DEFAULT_NODE_RETRY,
+    onError: DEFAULT_NODE_ON_ERROR,
+    timeoutMs: 0,
     position: {
       x: DEFAULT_NODE_POSITION.x + column * 280,
       y: DEFAULT_NODE_POSITION.y + row * 200,
@@ -164,9 +240,139 @@ function normalizeRepeat(repeat?: Partial<NodeRepeat>): NodeRepeat {
         ? unitCandidate
         : DEFAULT_NODE_REPEAT.unit,
     loopCount: Math.min(Math.max(loopCount, 0), 100_000),
+    benchmark: repeat?.benchmark ?? DEFAULT_NODE_REPEAT.benchmark,
+  };
+}
+
+function normalizeCodeList(codes: unknown, fallback: number[], min: number, max: number): number[] {
+  if (!Array.isArray(codes)) {
+    return fallback;
+  }
+
+  const normalized = codes
+    .map((code) => Number(code))
+    .filter((code) => Number.isInteger(code) && code >= min && code <= max);
+  return [...new Set(normalized)];
+}
+
+function normalizeRetry(retry?: Partial<NodeRetry>): NodeRetry {
+  const maxAttemptsCandidate = Number(retry?.maxAttempts ?? DEFAULT_NODE_RETRY.maxAttempts);
+  const delayCandidate = Number(retry?.delayMs ?? DEFAULT_NODE_RETRY.delayMs);
+  const maxDelayCandidate = Number(retry?.maxDelayMs ?? DEFAULT_NODE_RETRY.maxDelayMs);
+
+  const maxAttempts = Number.isFinite(maxAttemptsCandidate)
+    ? Math.floor(maxAttemptsCandidate)
+    : DEFAULT_NODE_RETRY.maxAttempts;
+  const delayMs = Number.isFinite(delayCandidate) ? Math.floor(delayCandidate) : DEFAULT_NODE_RETRY.delayMs;
+  const maxDelayMs = Number.isFinite(maxDelayCandidate)
+    ? Math.floor(maxDelayCandidate)
+    : DEFAULT_NODE_RETRY.maxDelayMs;
+
+  return {
+    enabled: retry?.enabled ?? DEFAULT_NODE_RETRY.enabled,
+    maxAttempts: Math.min(Math.max(maxAttempts, 1), 10),
+    backoff: retry?.backoff === "fixed" || retry?.backoff === "exponential" ? retry.backoff : DEFAULT_NODE_RETRY.backoff,
+    delayMs: Math.min(Math.max(delayMs, 0), 600_000),
+    maxDelayMs: Math.min(Math.max(maxDelayMs, 0), 600_000),
+    retryOnHttpStatus: normalizeCodeList(retry?.retryOnHttpStatus, DEFAULT_NODE_RETRY.retryOnHttpStatus, 100, 599),
+    retryOnRpcCodes: normalizeCodeList(
+      retry?.retryOnRpcCodes,
+      DEFAULT_NODE_RETRY.retryOnRpcCodes,
+      Number.MIN_SAFE_INTEGER,
+      Number.MAX_SAFE_INTEGER,
+    ),
+    retryOnNetworkError: retry?.retryOnNetworkError ?? DEFAULT_NODE_RETRY.retryOnNetworkError,
   };
 }
 
+function normalizeTimeoutMs(timeoutMs: unknown): number {
+  const candidate = Number(timeoutMs ?? 0);
+  return Number.isFinite(candidate) ? Math.min(Math.max(Math.floor(candidate), 0), 3_600_000) : 0;
+}
+
+function nextVariableName(variables: WorkflowVariable[]): string {
+  const names = new Set(variables.map((variable) => variable.name));
+  let index = variables.length + 1;
+  while (names.has(`var${index}`)) {
+    index += 1;
+  }
+  return `var${index}`;
+}
+
+function replaceVariableBindings(
+  nodes: Record<string, WorkflowNode>,
+  name: string,
+  replacement: ParamValue,
+): Record<string, WorkflowNode> {
+  const nextNodes: Record<string, WorkflowNode> = {};
+  for (const [id, node] of Object.entries(nodes)) {
+    const usesVariable = node.params.some((param) => param.value.type === "var" && param.value.name === name);
+    nextNodes[id] = usesVariable
+      ? {
+          ...node,
+          params: node.params.map((param) =>
+            param.value.type === "var" && param.value.name === name ? { ...param, value: replacement } : param,
+          ),
+        }
+      : node;
+  }
+  return nextNodes;
+}
+
+function findVariablePlaceholders(node: WorkflowNode, name: string): NodeTemplatePlaceholder[] {
+  return getNodeTemplatePlaceholders(node).filter(
+    ({ placeholder }) => placeholder.kind === "var" && placeholder.name === name,
+  );
+}
+
+/** Rewrites `${vars.from}` placeholders in the literal params the nodes send. */
+function renameVariablePlaceholders(
+  nodes: Record<string, WorkflowNode>,
+  from: string,
+  to: string,
+): Record<string, WorkflowNode> {
+  const nextNodes: Record<string, WorkflowNode> = {};
+  for (const [id, node] of Object.entries(nodes)) {
+    const paramNames = new Set(findVariablePlaceholders(node, from).map(({ paramName }) => paramName));
+    if (paramNames.size === 0) {
+      nextNodes[id] = node;
+    } else if (usesRawParams(node)) {
+      nextNodes[id] = { ...node, rawParamsJson: renameTemplateVariable(node.rawParamsJson, from, to) as string };
+    } else {
+      nextNodes[id] = {
+        ...node,
+        params: node.params.map((param) =>
+          param.value.type === "literal" && paramNames.has(param.name)
+            ? { ...param, value: { type: "literal", value: renameTemplateVariable(param.value.value, from, to) } }
+            : param,
+        ),
+      };
+    }
+  }
+  return nextNodes;
+}
+
+/** Marks nodes whose placeholders still use a removed variable, since text cannot fall back to a default. */
+function flagVariablePlaceholders(nodes: Record<string, WorkflowNode>, name: string): Record<string, WorkflowNode> {
+  const nextNodes: Record<string, WorkflowNode> = {};
+  for (const [id, node] of Object.entries(nodes)) {
+    const matches = findVariablePlaceholders(node, name);
+    if (matches.length === 0) {
+      nextNodes[id] = node;
+      continue;
+    }
+
+    const texts = [...new Set(matches.map(({ placeholder }) => placeholder.text))].join(", ");
+    const paramNames = [...new Set(matches.map(({ paramName }) => paramName))].join(", ");
+    nextNodes[id] = {
+      ...node,
+      status: "error",
+      error: `Variable ${name} was removed, but ${texts} in ${paramNames} still uses it.`,
+    };
+  }
+  return nextNodes;
+}
+
 function normalizeNodePosition(position: Partial<NodePosition> | undefined, fallbackIndex: number): NodePosition {
   const zeroBasedPosition = Math.max(0, fallbackIndex - 1);
   const column = zeroBasedPosition % 4;
@@ -250,8 +456,12 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   apiKey: "",
   order: [],
   nodes: {},
+  variables: [],
+  credentialName: "",
   includeOutputsOnExport: false,
   setApiKey: (apiKey) => set({ apiKey }),
+  setCredentialName: (credentialName) => set({ credentialName }),
+  setSchedule: (schedule) => set({ schedule }),
   addNode: (method) => {
     const next = buildNode(method, get().order.length + 1);
     set((state) => ({
@@ -272,6 +482,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
 
       const nextNodes = { ...state.nodes };
       delete nextNodes[nodeId];
+      for (const [id, node] of Object.entries(nextNodes)) {
+        if (node.onError.mode === "handler" && node.onError.handlerNodeId === nodeId) {
+          nextNodes[id] = { ...node, onError: DEFAULT_NODE_ON_ERROR };
+        }
+      }
 
       let nextSelectedNodeId = state.selectedNodeId;
       if (state.selectedNodeId === nodeId) {
@@ -399,6 +614,63 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       };
     });
   },
+  setNodeRetry: (nodeId, retry) => {
+    set((state) => {
+      const node = state.nodes[nodeId];
+      if (!node) {
+        return state;
+      }
+
+      return {
+        nodes: {
+          ...state.nodes,
+          [nodeId]: {
+            ...node,
+            retry: normalizeRetry({
+              ...node.retry,
+              ...retry,
+            }),
+          },
+        },
+      };
+    });
+  },
+  setNodeOnError: (nodeId, onError) => {
+    set((state) => {
+      const node = state.nodes[nodeId];
+      if (!node) {
+        return state;
+      }
+
+      return {
+        nodes: {
+          ...state.nodes,
+          [nodeId]: {
+            ...node,
+            onError,
+          },
+        },
+      };
+    });
+  },
+  setNodeTimeout: (nodeId, timeoutMs) => {
+    set((state) => {
+      const node = state.nodes[nodeId];
+      if (!node) {
+        return state;
+      }
+
+      return {
+        nodes: {
+          ...state.nodes,
+          [nodeId]: {
+            ...node,
+            timeoutMs: normalizeTimeoutMs(timeoutMs),
+          },
+        },
+      };
+    });
+  },
   setNodePosition: (nodeId, position) => {
     set((state) => {
       const node = state.nodes[nodeId];
@@ -417,6 +689,59 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       };
     });
   },
+  addVariable: () => {
+    const name = nextVariableName(get().variables);
+    set((state) => ({
+      variables: [...state.variables, { name, type: "string", default: "" }],
+    }));
+    return name;
+  },
+  updateVariable: (name, patch) => {
+    set((state) => {
+      const variable = state.variables.find((candidate) => candidate.name === name);
+      if (!variable) {
+        return state;
+      }
+
+      const nextName = patch.name ?? name;
+      if (
+        nextName !== name &&
+        (!VARIABLE_NAME_PATTERN.test(nextName) || state.variables.some((candidate) => candidate.name === nextName))
+      ) {
+        return state;
+      }
+
+      return {
+        variables: state.variables.map((candidate) =>
+          candidate.name === name ? { ...candidate, ...patch, name: nextName } : candidate,
+        ),
+        nodes:
+          nextName === name
+            ? state.nodes
+            : renameVariablePlaceholders(
+                replaceVariableBindings(state.nodes, name, { type: "var", name: nextName }),
+                name,
+                nextName,
+              ),
+      };
+    });
+  },
+  removeVariable: (name) => {
+    set((state) => {
+      const variable = state.variables.find((candidate) => candidate.name === name);
+      if (!variable) {
+        return state;
+      }
+
+      return {
+        variables: state.variables.filter((candidate) => candidate.name !== name),
+        nodes: flagVariablePlaceholders(
+          replaceVariableBindings(state.nodes, name, { type: "literal", value: variable.default ?? null }),
+          name,
+        ),
+      };
+    });
+  },
   setNodeStatus: (nodeId, status, error) => {
     set((state) => {
       const node = state.nodes[nodeId];
@@ -431,6 +756,25 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
             ...node,
             status,
             error,
+            retryAttempt: status === "running" ? undefined : node.retryAttempt,
+          },
+        },
+      };
+    });
+  },
+  setNodeRetryAttempt: (nodeId, retryAttempt) => {
+    set((state) => {
+      const node = state.nodes[nodeId];
+      if (!node) {
+        return state;
+      }
+
+      return {
+        nodes: {
+          ...state.nodes,
+          [nodeId]: {
+            ...node,
+            retryAttempt,
           },
         },
       };
@@ -463,6 +807,39 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
           output: undefined,
           error: undefined,
           status: "idle",
+          retryAttempt: undefined,
+        };
+      }
+
+      return {
+        nodes: nextNodes,
+      };
+    });
+  },
+  restoreNodeResults: (results) => {
+    set((state) => {
+      const nextNodes: Record<string, WorkflowNode> = {};
+      for (const [id, node] of Object.entries(state.nodes)) {
+        nextNodes[id] = {
+          ...node,
+          output: undefined,
+          error: undefined,
+          status: "idle",
+          retryAttempt: undefined,
+        };
+      }
+
+      for (const result of results) {
+        const node = nextNodes[result.nodeId];
+        if (!node) {
+          continue;
+        }
+
+        nextNodes[result.nodeId] = {
+          ...node,
+          output: result.output,
+          error: result.error,
+          status: result.status === "running" ? "idle" : result.status,
         };
       }
 
@@ -492,8 +869,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   exportWorkflow: (includeOutputs = get().includeOutputsOnExport) => {
     const state = get();
     return {
-      version: 1,
+      version: WORKFLOW_EXPORT_VERSION,
       order: state.order,
+      variables: state.variables,
+      ...(state.credentialName ? { credential: state.credentialName } : {}),
+      ...(state.schedule ? { schedule: state.schedule } : {}),
       selectedNodeId: state.selectedNodeId,
       ui: {
         includeOutputs,
@@ -509,6 +889,9 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
           params: node.params,
           rawParamsJson: node.rawParamsJson,
           repeat: node.repeat,
+          retry: node.retry,
+          onError: node.onError,
+          timeoutMs: node.timeoutMs,
           position: node.position,
           ...(includeOutputs ? { output: node.output } : {}),
         })),
@@ -526,6 +909,9 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
         nodes[node.id] = {
           ...node,
           repeat: normalizeRepeat(node.repeat),
+          retry: normalizeRetry(node.retry),
+          onError: node.onError ?? DEFAULT_NODE_ON_ERROR,
+          timeoutMs: normalizeTimeoutMs(node.timeoutMs),
           position: normalizeNodePosition(node.position, fallbackIndex),
           status: "idle",
           error: undefined,
@@ -536,6 +922,9 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       return {
         order: workflow.order,
         nodes,
+        variables: workflow.variables ?? [],
+        credentialName: workflow.credential ?? "",
+        schedule: workflow.schedule,
         selectedNodeId: workflow.selectedNodeId,
       };
     });